@@ -1,10 +1,16 @@
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { queryClient } from "@/lib/queries";
+import { config } from "@/lib/config";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { CartProvider } from "@/contexts/CartContext";
+import { WishlistProvider } from "@/contexts/WishlistContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
 import AdminLayout from "@/components/AdminLayout";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import OfflineBanner from "@/components/OfflineBanner";
 import Index from "./pages/Index";
 import Products from "./pages/Products";
 import Product from "./pages/Product";
@@ -25,42 +31,56 @@ import AdminCategories from "./pages/AdminCategories";
 import AdminProducts from "./pages/AdminProducts";
 import AdminOrders from "./pages/AdminOrders";
 import AdminReviews from "./pages/AdminReviews";
+import AdminCoupons from "./pages/AdminCoupons";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
       <CartProvider>
-        <TooltipProvider>
-          <Toaster />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/products" element={<Products />} />
-              <Route path="/product/:id" element={<Product />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/register" element={<Register />} />
-            <Route path="/reset-password" element={<ResetPassword />} />
-            <Route path="/forgot-password" element={<ForgotPassword />} />
-            <Route path="/profile" element={<Profile />} />
-            <Route path="/orders" element={<Orders />} />
-            <Route path="/debug" element={<Debug />} />
-            <Route path="/checkout" element={<Checkout />} />
-            <Route path="/verify-otp" element={<VerifyOTP />} />
-            <Route path="/order-success/:orderId" element={<OrderSuccess />} />
-            <Route path="/admin-dashboard" element={<AdminLayout><AdminAnalytics /></AdminLayout>} />
-              <Route path="/admin-dashboard/users" element={<AdminLayout><AdminUsers /></AdminLayout>} />
-              <Route path="/admin-dashboard/products" element={<AdminLayout><AdminProducts /></AdminLayout>} />
-              <Route path="/admin-dashboard/categories" element={<AdminLayout><AdminCategories /></AdminLayout>} />
-              <Route path="/admin-dashboard/orders" element={<AdminLayout><AdminOrders /></AdminLayout>} />
-              <Route path="/admin-dashboard/reviews" element={<AdminLayout><AdminReviews /></AdminLayout>} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
+        <WishlistProvider>
+          <CurrencyProvider>
+            <TooltipProvider>
+              <Toaster />
+              <OfflineBanner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/products" element={<Products />} />
+                  <Route path="/product/:id" element={<Product />} />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/register" element={<Register />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  {config.enableDebugPage && <Route path="/debug" element={<Debug />} />}
+
+                  {/* Signed-in customers and managers */}
+                  <Route element={<ProtectedRoute />}>
+                    <Route path="/profile" element={<Profile />} />
+                    <Route path="/orders" element={<Orders />} />
+                    <Route path="/checkout" element={<Checkout />} />
+                    <Route path="/verify-otp" element={<VerifyOTP />} />
+                    <Route path="/order-success/:orderId" element={<OrderSuccess />} />
+                  </Route>
+
+                  {/* Managers only */}
+                  <Route element={<ProtectedRoute requiredRole="manager" />}>
+                    <Route path="/admin-dashboard" element={<AdminLayout><AdminAnalytics /></AdminLayout>} />
+                    <Route path="/admin-dashboard/users" element={<AdminLayout><AdminUsers /></AdminLayout>} />
+                    <Route path="/admin-dashboard/products" element={<AdminLayout><AdminProducts /></AdminLayout>} />
+                    <Route path="/admin-dashboard/categories" element={<AdminLayout><AdminCategories /></AdminLayout>} />
+                    <Route path="/admin-dashboard/orders" element={<AdminLayout><AdminOrders /></AdminLayout>} />
+                    <Route path="/admin-dashboard/reviews" element={<AdminLayout><AdminReviews /></AdminLayout>} />
+                    <Route path="/admin-dashboard/coupons" element={<AdminLayout><AdminCoupons /></AdminLayout>} />
+                  </Route>
+
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </CurrencyProvider>
+        </WishlistProvider>
       </CartProvider>
     </AuthProvider>
   </QueryClientProvider>
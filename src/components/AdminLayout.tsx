@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
+import SessionTimeoutDialog from "@/components/SessionTimeoutDialog";
+import { toast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import {
   LayoutDashboard,
@@ -17,6 +19,7 @@ import {
   Bell,
   Store,
   Star,
+  TicketPercent,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -44,6 +47,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
     { icon: Package, label: "Products", path: "/admin-dashboard/products" },
     { icon: FolderTree, label: "Categories", path: "/admin-dashboard/categories" },
     { icon: Star, label: "Reviews", path: "/admin-dashboard/reviews" },
+    { icon: TicketPercent, label: "Coupons", path: "/admin-dashboard/coupons" },
     { icon: Users, label: "Users", path: "/admin-dashboard/users" },
   ];
 
@@ -52,6 +56,15 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
     navigate("/login");
   };
 
+  const handleIdleTimeout = () => {
+    logout();
+    toast({
+      title: "Signed out",
+      description: "You were signed out after a period of inactivity.",
+    });
+    navigate("/login");
+  };
+
   // Apply admin theme to body for portaled content (dialogs, dropdowns, etc.)
   useEffect(() => {
     document.body.classList.add('admin-theme');
@@ -230,6 +243,13 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
           <div className="max-w-7xl mx-auto">{children}</div>
         </main>
       </div>
+
+      {/* Manager sessions sign out after a period of inactivity */}
+      <SessionTimeoutDialog
+        enabled={user?.role === "manager"}
+        onSignOut={handleLogout}
+        onTimeout={handleIdleTimeout}
+      />
     </div>
   );
 };
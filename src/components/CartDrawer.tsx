@@ -3,9 +3,17 @@ import { X, Plus, Minus, Trash2, ShoppingBag, ArrowRight } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import { useCart, type CartItem } from '@/contexts/CartContext'
-import { useAuth } from '@/contexts/AuthContext'
+import FreeShippingProgress from '@/components/FreeShippingProgress'
+import { useAuth } from '@/hooks/use-auth'
+import { useCart } from '@/hooks/use-cart'
+import { useCurrency } from '@/hooks/use-currency'
 import { useNavigate } from 'react-router-dom'
+import { mediaUrl } from '@/lib/config'
+import { getPricing } from '@/lib/pricing'
+import type { CartItem } from '@/lib/schemas'
+import { loginPath } from '@/lib/redirect'
+import { selectShipping } from '@/lib/shipping'
+import { formatOptions, hasOptions } from '@/lib/variants'
 import {
   Sheet,
   SheetContent,
@@ -23,7 +31,11 @@ interface CartDrawerProps {
 const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
   const { items, loading, updateQuantity, removeFromCart, getTotalPrice } = useCart()
   const { isAuthenticated } = useAuth()
+  const { formatPrice } = useCurrency()
   const navigate = useNavigate()
+  const subtotal = getTotalPrice()
+  // No address yet, so quote standard delivery at national rates
+  const shipping = selectShipping({ subtotal, items }, null, 'standard')
 
   const handleCheckout = () => {
     navigate('/checkout')
@@ -31,7 +43,7 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
   }
 
   const handleLoginRedirect = () => {
-    navigate('/login')
+    navigate(loginPath('/checkout'))
     onClose()
   }
 
@@ -43,25 +55,7 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
         </SheetHeader>
 
         <div className="flex-1 overflow-hidden flex flex-col">
-          {!isAuthenticated ? (
-            <div className="flex-1 flex flex-col items-center justify-center p-8 text-center space-y-4">
-              <div className="w-16 h-16 bg-secondary/30 rounded-full flex items-center justify-center">
-                <ShoppingBag className="w-8 h-8 text-muted-foreground" />
-              </div>
-              <h3 className="text-lg font-medium">Please login</h3>
-              <p className="text-muted-foreground max-w-xs">
-                Sign in to view your cart items and proceed to checkout.
-              </p>
-              <div className="flex gap-3 w-full max-w-xs pt-4">
-                <Button onClick={handleLoginRedirect} className="flex-1">
-                  Login
-                </Button>
-                <Button onClick={() => { navigate('/register'); onClose(); }} variant="outline" className="flex-1">
-                  Sign Up
-                </Button>
-              </div>
-            </div>
-          ) : loading ? (
+          {loading ? (
             <div className="flex-1 flex items-center justify-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
             </div>
@@ -94,30 +88,55 @@ const CartDrawer: React.FC<CartDrawerProps> = ({ isOpen, onClose }) => {
           )}
         </div>
 
-        {isAuthenticated && items.length > 0 && (
+        {items.length > 0 && (
           <div className="p-6 bg-secondary/10 border-t space-y-4">
+            <FreeShippingProgress subtotal={subtotal} />
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Subtotal</span>
-                <span>₹{getTotalPrice().toFixed(2)}</span>
+                <span>{formatPrice(subtotal)}</span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Shipping</span>
-                <span>Calculated at checkout</span>
+                <span className="text-muted-foreground">Standard shipping</span>
+                {shipping.cost === 0 ? (
+                  <span className="text-green-600 font-medium">Free</span>
+                ) : (
+                  <span>{formatPrice(shipping.cost)}</span>
+                )}
               </div>
               <Separator className="my-2" />
               <div className="flex justify-between font-medium text-lg">
-                <span>Total</span>
-                <span>₹{getTotalPrice().toFixed(2)}</span>
+                <span>Estimated Total</span>
+                <span>{formatPrice(subtotal + shipping.cost)}</span>
               </div>
+              {shipping.cost > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Final shipping depends on your delivery pincode and method.
+                </p>
+              )}
             </div>
-            <Button 
-              onClick={handleCheckout}
-              className="w-full h-12 text-base uppercase tracking-wide"
-              disabled={loading}
-            >
-              Checkout <ArrowRight className="ml-2 h-4 w-4" />
-            </Button>
+            {isAuthenticated ? (
+              <Button 
+                onClick={handleCheckout}
+                className="w-full h-12 text-base uppercase tracking-wide"
+                disabled={loading}
+              >
+                Checkout <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            ) : (
+              <>
+                <Button
+                  onClick={handleLoginRedirect}
+                  className="w-full h-12 text-base uppercase tracking-wide"
+                  disabled={loading}
+                >
+                  Sign in to Checkout <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+                <p className="text-xs text-center text-muted-foreground">
+                  Your bag is saved on this device and moves to your account when you sign in.
+                </p>
+              </>
+            )}
           </div>
         )}
       </SheetContent>
@@ -131,23 +150,20 @@ interface CartItemRowProps {
   onRemove: () => Promise<boolean>
 }
 
+// Quantity and removal are applied optimistically by the cart, so the row
+// never waits on the server
 const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRemove }) => {
-  const [updating, setUpdating] = React.useState(false)
-
-  const handleQuantityChange = async (newQuantity: number) => {
+  const handleQuantityChange = (newQuantity: number) => {
     if (newQuantity < 1) return
-    setUpdating(true)
-    await onUpdateQuantity(newQuantity)
-    setUpdating(false)
+    onUpdateQuantity(newQuantity)
   }
 
-  const handleRemove = async () => {
-    setUpdating(true)
-    await onRemove()
-    setUpdating(false)
+  const handleRemove = () => {
+    onRemove()
   }
 
-  const price = parseFloat(item.product.discounted_price || item.product.price)
+  const { formatPrice } = useCurrency()
+  const { price, compareAt } = getPricing(item.product)
 
   return (
     <div className="flex gap-4">
@@ -155,7 +171,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
       <div className="w-20 h-24 bg-secondary/20 rounded-sm overflow-hidden flex-shrink-0">
         {item.product.image ? (
           <img 
-            src={item.product.image} 
+            src={mediaUrl(item.product.image)} 
             alt={item.product.name}
             className="w-full h-full object-cover"
           />
@@ -173,14 +189,13 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
             <h4 className="font-medium text-sm leading-tight line-clamp-2">{item.product.name}</h4>
             <button 
               onClick={handleRemove}
-              disabled={updating}
               className="text-muted-foreground hover:text-destructive transition-colors"
             >
               <X className="h-4 w-4" />
             </button>
           </div>
-          {item.size && (
-            <p className="text-xs text-muted-foreground mt-1">Size: {item.size}</p>
+          {hasOptions(item) && (
+            <p className="text-xs text-muted-foreground mt-1">{formatOptions(item)}</p>
           )}
         </div>
         
@@ -188,7 +203,7 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
           <div className="flex items-center border rounded-sm">
             <button
               onClick={() => handleQuantityChange(item.quantity - 1)}
-              disabled={updating || item.quantity <= 1}
+              disabled={item.quantity <= 1}
               className="h-7 w-7 flex items-center justify-center hover:bg-secondary/50 disabled:opacity-50"
             >
               <Minus className="h-3 w-3" />
@@ -198,13 +213,17 @@ const CartItemRow: React.FC<CartItemRowProps> = ({ item, onUpdateQuantity, onRem
             </span>
             <button
               onClick={() => handleQuantityChange(item.quantity + 1)}
-              disabled={updating}
               className="h-7 w-7 flex items-center justify-center hover:bg-secondary/50 disabled:opacity-50"
             >
               <Plus className="h-3 w-3" />
             </button>
           </div>
-          <p className="font-medium text-sm">₹{(price * item.quantity).toFixed(2)}</p>
+          <div className="text-right">
+            {compareAt !== null && (
+              <p className="text-xs text-muted-foreground line-through">{formatPrice(compareAt * item.quantity)}</p>
+            )}
+            <p className={`font-medium text-sm ${compareAt !== null ? 'text-destructive' : ''}`}>{formatPrice(price * item.quantity)}</p>
+          </div>
         </div>
       </div>
     </div>
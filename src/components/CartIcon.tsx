@@ -2,8 +2,7 @@ import React from 'react'
 import { ShoppingCart } from 'lucide-react'
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { useCart } from '@/contexts/CartContext'
-import { useAuth } from '@/contexts/AuthContext'
+import { useCart } from '@/hooks/use-cart'
 
 interface CartIconProps {
   onClick?: () => void
@@ -11,7 +10,6 @@ interface CartIconProps {
 
 const CartIcon: React.FC<CartIconProps> = ({ onClick }) => {
   const { getTotalItems, loading } = useCart()
-  const { isAuthenticated } = useAuth()
   const itemCount = getTotalItems()
 
   return (
@@ -23,7 +21,7 @@ const CartIcon: React.FC<CartIconProps> = ({ onClick }) => {
       disabled={loading}
     >
       <ShoppingCart className="h-5 w-5" />
-      {isAuthenticated && itemCount > 0 && (
+      {itemCount > 0 && (
         <Badge 
           variant="destructive" 
           className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
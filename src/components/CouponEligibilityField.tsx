@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Search, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+interface CouponEligibilityFieldProps {
+  categories: Array<{ id: number; name: string }>;
+  products: Array<{ id: number; name: string; category?: string }>;
+  categoryIds: number[];
+  productIds: number[];
+  onChange: (categoryIds: number[], productIds: number[]) => void;
+}
+
+const toggle = (ids: number[], id: number) => (ids.includes(id) ? ids.filter((v) => v !== id) : [...ids, id]);
+
+/**
+ * Categories and products a coupon is limited to. Items in any picked
+ * category or picked individually count towards the discount; picking
+ * nothing leaves the whole cart eligible.
+ */
+const CouponEligibilityField = ({
+  categories,
+  products,
+  categoryIds,
+  productIds,
+  onChange,
+}: CouponEligibilityFieldProps) => {
+  const [search, setSearch] = useState("");
+
+  const term = search.trim().toLowerCase();
+  const matches = products.filter((product) => !term || product.name.toLowerCase().includes(term));
+  const picked = products.filter((product) => productIds.includes(product.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-slate-700">Categories</Label>
+        <div className="flex flex-wrap gap-1.5">
+          {categories.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => onChange(toggle(categoryIds, category.id), productIds)}
+              aria-pressed={categoryIds.includes(category.id)}
+              className={cn(
+                "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                categoryIds.includes(category.id)
+                  ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                  : "border-slate-200 text-slate-600 hover:border-indigo-300"
+              )}
+            >
+              {category.name}
+            </button>
+          ))}
+          {categories.length === 0 && <p className="text-xs text-slate-500">No categories yet</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-slate-700">Products</Label>
+        {picked.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {picked.map((product) => (
+              <span
+                key={product.id}
+                className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700"
+              >
+                {product.name}
+                <button
+                  type="button"
+                  onClick={() => onChange(categoryIds, toggle(productIds, product.id))}
+                  aria-label={`Remove ${product.name}`}
+                  className="text-slate-500 hover:text-red-600"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products..."
+            className="h-9 pl-9 text-sm"
+          />
+        </div>
+        <div className="max-h-48 overflow-y-auto rounded-lg border divide-y">
+          {matches.map((product) => (
+            <label
+              key={product.id}
+              className="flex cursor-pointer items-center gap-3 px-3 py-2 text-sm hover:bg-slate-50"
+            >
+              <Checkbox
+                checked={productIds.includes(product.id)}
+                onCheckedChange={() => onChange(categoryIds, toggle(productIds, product.id))}
+              />
+              <span className="flex-1 truncate">{product.name}</span>
+              {product.category && <span className="text-xs text-slate-400">{product.category}</span>}
+            </label>
+          ))}
+          {matches.length === 0 && <p className="px-3 py-4 text-center text-xs text-slate-500">No products found</p>}
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {categoryIds.length === 0 && productIds.length === 0
+          ? "Applies to the whole cart."
+          : `Applies to items in ${categoryIds.length} categor${categoryIds.length === 1 ? "y" : "ies"} and ${productIds.length} product${productIds.length === 1 ? "" : "s"}.`}
+      </p>
+    </div>
+  );
+};
+
+export default CouponEligibilityField;
@@ -0,0 +1,37 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { CURRENCIES, isCurrencyCode, SETTLEMENT_CURRENCY, type CurrencyCode } from "@/lib/money";
+import { cn } from "@/lib/utils";
+
+interface CurrencySwitcherProps {
+  className?: string;
+}
+
+/** Currency prices are displayed in; orders are still charged in rupees */
+const CurrencySwitcher = ({ className }: CurrencySwitcherProps) => {
+  const { currency, setCurrency } = useCurrency();
+
+  return (
+    <Select value={currency} onValueChange={(value) => isCurrencyCode(value) && setCurrency(value)}>
+      <SelectTrigger
+        className={cn("h-9 w-[76px] border-none bg-transparent px-2 text-xs font-medium shadow-none", className)}
+        aria-label="Display currency"
+      >
+        <SelectValue>{currency}</SelectValue>
+      </SelectTrigger>
+      <SelectContent align="end">
+        {(Object.keys(CURRENCIES) as CurrencyCode[]).map((code) => (
+          <SelectItem key={code} value={code}>
+            <span className="font-medium">{code}</span>
+            <span className="ml-2 text-muted-foreground">{CURRENCIES[code].label}</span>
+          </SelectItem>
+        ))}
+        {currency !== SETTLEMENT_CURRENCY && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Approximate prices. You pay in {SETTLEMENT_CURRENCY}.</p>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CurrencySwitcher;
@@ -1,28 +1,14 @@
 import { useEffect, useState } from "react";
 import ProductCard from "./ProductCard";
 import { getFeaturedProducts } from "@/lib/api";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import type { ProductSummary } from "@/lib/schemas";
 import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
 import { Link } from "react-router-dom";
 
-type Product = {
-  id: number;
-  name: string;
-  price: string;
-  category: { id: number; name: string };
-  image: string | null;
-  stock: number;
-};
-
-const getImageUrl = (imagePath: string | null): string => {
-  if (!imagePath) return "https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=800&q=80";
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
-
 const FeaturedProducts = () => {
-  const [products, setProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<ProductSummary[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -71,8 +57,10 @@ const FeaturedProducts = () => {
                 id={product.id.toString()}
                 name={product.name}
                 price={product.price}
-                category={product.category.name}
-                image={getImageUrl(product.image)}
+                discountedPrice={product.discounted_price}
+                saleEndsAt={product.sale_ends_at}
+                category={product.category?.name || "Uncategorized"}
+                image={mediaUrl(product.image, PRODUCT_IMAGE_PLACEHOLDER)}
                 stock={product.stock}
               />
             ))}
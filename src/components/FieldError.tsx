@@ -0,0 +1,21 @@
+import { AlertCircle } from "lucide-react";
+
+interface FieldErrorProps {
+  message?: string;
+}
+
+/**
+ * Inline validation message rendered under a form control
+ */
+const FieldError = ({ message }: FieldErrorProps) => {
+  if (!message) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-destructive text-xs mt-1">
+      <AlertCircle className="h-3 w-3" />
+      <span>{message}</span>
+    </div>
+  );
+};
+
+export default FieldError;
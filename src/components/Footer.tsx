@@ -1,6 +1,9 @@
+import { Link } from "react-router-dom";
 import { Instagram, Facebook, Twitter, ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import SizeGuideDialog from "@/components/SizeGuideDialog";
+import { SALE_COLLECTION_PATH } from "@/lib/catalog-filters";
 
 const Footer = () => {
   return (
@@ -33,7 +36,7 @@ const Footer = () => {
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">New Arrivals</a></li>
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Best Sellers</a></li>
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Accessories</a></li>
-              <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Sale</a></li>
+              <li><Link to={SALE_COLLECTION_PATH} className="hover:text-white text-primary-foreground/80 transition-colors">Sale</Link></li>
             </ul>
           </div>
           
@@ -42,7 +45,15 @@ const Footer = () => {
             <ul className="space-y-4 text-sm">
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">FAQ</a></li>
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Shipping & Returns</a></li>
-              <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Size Guide</a></li>
+              <li>
+                <SizeGuideDialog
+                  trigger={
+                    <button type="button" className="hover:text-white text-primary-foreground/80 transition-colors">
+                      Size Guide
+                    </button>
+                  }
+                />
+              </li>
               <li><a href="#" className="hover:text-white text-primary-foreground/80 transition-colors">Contact Us</a></li>
             </ul>
           </div>
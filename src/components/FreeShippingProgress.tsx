@@ -0,0 +1,39 @@
+import { Truck } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { useCurrency } from "@/hooks/use-currency";
+import { freeShippingProgress } from "@/lib/shipping";
+import { cn } from "@/lib/utils";
+
+interface FreeShippingProgressProps {
+  // Item total after sale prices
+  subtotal: number;
+  className?: string;
+}
+
+/** How much more the shopper needs to add for free standard shipping */
+const FreeShippingProgress = ({ subtotal, className }: FreeShippingProgressProps) => {
+  const { formatPrice } = useCurrency();
+  const { remaining, percent } = freeShippingProgress(subtotal);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="flex items-center gap-2 text-sm">
+        <Truck className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        {remaining > 0 ? (
+          <span>
+            Add <span className="font-medium">{formatPrice(remaining)}</span> more for free shipping
+          </span>
+        ) : (
+          <span className="text-green-700">Your order ships free</span>
+        )}
+      </p>
+      <Progress
+        value={percent}
+        className="h-1.5"
+        aria-label={remaining > 0 ? `${percent}% of the way to free shipping` : "Free shipping unlocked"}
+      />
+    </div>
+  );
+};
+
+export default FreeShippingProgress;
@@ -1,10 +1,12 @@
-import { Menu, Search, User, LogOut, X, Package, ShoppingBag, ChevronRight } from "lucide-react";
+import { Menu, Search, User, LogOut, Package, ShoppingBag, ChevronRight, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import { useState, useEffect } from "react";
 import CartIcon from "./CartIcon";
+import CurrencySwitcher from "./CurrencySwitcher";
 import CartDrawer from "./CartDrawer";
+import SearchTypeahead from "./SearchTypeahead";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,12 +23,12 @@ import {
   SheetClose
 } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
+import { loginPath } from "@/lib/redirect";
 
 const Header = () => {
   const { isAuthenticated, user, logout } = useAuth();
   const navigate = useNavigate();
   const [searchOpen, setSearchOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
   const [cartOpen, setCartOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
 
@@ -45,15 +47,6 @@ const Header = () => {
     navigate("/login", { replace: true });
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/products?search=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchOpen(false);
-      setSearchQuery("");
-    }
-  };
-
   const navLinks = [
     { name: "Home", path: "/#home" },
     { name: "Shop", path: "/#shop" },
@@ -129,6 +122,15 @@ const Header = () => {
                         <Package className="h-4 w-4 text-muted-foreground" />
                       </Link>
                     </SheetClose>
+                    <SheetClose asChild>
+                      <Link 
+                        to="/profile?tab=wishlist"
+                        className="px-6 py-4 text-lg font-medium hover:bg-secondary/50 transition-colors flex items-center justify-between group"
+                      >
+                        Wishlist
+                        <Heart className="h-4 w-4 text-muted-foreground" />
+                      </Link>
+                    </SheetClose>
                     <button 
                       onClick={handleLogout}
                       className="px-6 py-4 text-lg font-medium hover:bg-red-50 text-red-600 transition-colors flex items-center justify-between text-left w-full"
@@ -141,7 +143,7 @@ const Header = () => {
                 {!isAuthenticated && (
                   <div className="p-6 mt-4">
                     <SheetClose asChild>
-                      <Button className="w-full h-11 text-base" onClick={() => navigate('/login')}>
+                      <Button className="w-full h-11 text-base" onClick={() => navigate(loginPath(location))}>
                         Sign In
                       </Button>
                     </SheetClose>
@@ -174,22 +176,10 @@ const Header = () => {
 
           {/* Right Actions */}
           <div className="flex items-center space-x-2 md:space-x-4">
+            <CurrencySwitcher />
             {searchOpen ? (
               <div className="absolute inset-0 bg-background z-50 flex items-center justify-center px-4 animate-in fade-in slide-in-from-top-2">
-                <form onSubmit={handleSearch} className="w-full max-w-2xl flex items-center gap-4">
-                  <Search className="h-5 w-5 text-muted-foreground" />
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search for products..."
-                    className="flex-1 bg-transparent border-none text-lg focus:outline-none placeholder:text-muted-foreground/50"
-                    autoFocus
-                  />
-                  <Button type="button" variant="ghost" size="icon" onClick={() => setSearchOpen(false)}>
-                    <X className="h-6 w-6" />
-                  </Button>
-                </form>
+                <SearchTypeahead onClose={() => setSearchOpen(false)} />
               </div>
             ) : (
               <Button variant="ghost" size="icon" onClick={() => setSearchOpen(true)} className="hover:bg-transparent">
@@ -219,6 +209,11 @@ const Header = () => {
                       <Package className="mr-2 h-4 w-4" /> Orders
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link to="/profile?tab=wishlist" className="cursor-pointer">
+                      <Heart className="mr-2 h-4 w-4" /> Wishlist
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-destructive focus:text-destructive">
                     <LogOut className="mr-2 h-4 w-4" /> Logout
@@ -226,7 +221,7 @@ const Header = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
             ) : (
-              <Link to="/login" className="hidden md:block">
+              <Link to={loginPath(location)} className="hidden md:block">
                 <Button variant="ghost" size="icon" className="hover:bg-transparent">
                   <User className="h-5 w-5" />
                 </Button>
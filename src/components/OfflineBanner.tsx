@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { WifiOff } from "lucide-react";
+import { isServerReachable, subscribeConnectivity } from "@/lib/http";
+
+/**
+ * Sticky banner shown while the browser is offline or the last API request
+ * could not reach the server. Clears itself once a request gets through.
+ */
+const OfflineBanner = () => {
+  const [browserOnline, setBrowserOnline] = useState(() => navigator.onLine);
+  const [serverReachable, setServerReachable] = useState(isServerReachable);
+
+  useEffect(() => {
+    const handleOnline = () => setBrowserOnline(true);
+    const handleOffline = () => setBrowserOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const unsubscribe = subscribeConnectivity(setServerReachable);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  if (browserOnline && serverReachable) return null;
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-[60] flex items-center justify-center gap-2 bg-destructive px-4 py-2 text-sm text-destructive-foreground"
+    >
+      <WifiOff className="h-4 w-4" />
+      <span>
+        {browserOnline
+          ? "We can't reach the server right now. Please try again shortly."
+          : "You're offline. Changes won't be saved until your connection is back."}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineBanner;
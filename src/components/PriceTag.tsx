@@ -0,0 +1,36 @@
+import { useCurrency } from "@/hooks/use-currency";
+import { getPricing, type PricedItem } from "@/lib/pricing";
+import { cn } from "@/lib/utils";
+
+interface PriceTagProps {
+  item: PricedItem;
+  // Adds "20% off" after the struck-through price
+  showPercentOff?: boolean;
+  className?: string;
+}
+
+/** Current price, with the regular price struck through while on sale */
+const PriceTag = ({ item, showPercentOff = false, className }: PriceTagProps) => {
+  const { formatPrice } = useCurrency();
+  const { price, compareAt, percentOff } = getPricing(item);
+
+  return (
+    <span className={cn("inline-flex flex-wrap items-baseline gap-x-2", className)}>
+      <span className={cn("tabular-nums", compareAt !== null && "text-destructive")}>{formatPrice(price)}</span>
+      {compareAt !== null && (
+        <>
+          <s className="text-[0.8em] font-normal text-muted-foreground tabular-nums">
+            <span className="sr-only">Regular price </span>{formatPrice(compareAt)}
+          </s>
+          {showPercentOff && (
+            <span className="text-[0.7em] font-semibold uppercase tracking-wider text-destructive">
+              {percentOff}% off
+            </span>
+          )}
+        </>
+      )}
+    </span>
+  );
+};
+
+export default PriceTag;
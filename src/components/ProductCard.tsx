@@ -1,28 +1,43 @@
 import { Button } from "@/components/ui/button";
 import { ShoppingBag, Star } from "lucide-react";
 import { Link } from "react-router-dom";
-import { useCart } from "@/contexts/CartContext";
-import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/hooks/use-cart";
 import { useState, useEffect } from "react";
 import { toast } from "@/hooks/use-toast";
 import { getProductReviewStats } from "@/lib/api";
+import { formatSaleEnd, getPricing } from "@/lib/pricing";
 import { cn } from "@/lib/utils";
+import PriceTag from "./PriceTag";
+import WishlistButton from "./WishlistButton";
 
 interface ProductCardProps {
   name: string;
   price: string;
+  // Sale price while a promotion is running
+  discountedPrice?: string | null;
+  saleEndsAt?: string | null;
   image: string;
   category: string;
   id?: string;
   stock?: number;
 }
 
-const ProductCard = ({ name, price, image, category, id = "1", stock = 0 }: ProductCardProps) => {
+const ProductCard = ({
+  name,
+  price,
+  discountedPrice,
+  saleEndsAt,
+  image,
+  category,
+  id = "1",
+  stock = 0,
+}: ProductCardProps) => {
   const { addToCart, loading } = useCart();
-  const { isAuthenticated } = useAuth();
   const [addingToCart, setAddingToCart] = useState(false);
   const [reviewStats, setReviewStats] = useState<{ average_rating: number; total_reviews: number } | null>(null);
   const isOutOfStock = stock === 0;
+  const { percentOff } = getPricing({ price, discounted_price: discountedPrice });
+  const saleEnd = percentOff > 0 ? formatSaleEnd(saleEndsAt) : null;
 
   useEffect(() => {
     const fetchReviewStats = async () => {
@@ -44,18 +59,6 @@ const ProductCard = ({ name, price, image, category, id = "1", stock = 0 }: Prod
     e.preventDefault();
     e.stopPropagation();
 
-    if (!isAuthenticated) {
-      toast({
-        title: "Login Required",
-        description: "Please login to add items to your cart",
-        variant: "destructive"
-      });
-      setTimeout(() => {
-        window.location.href = '/login';
-      }, 1000);
-      return;
-    }
-
     setAddingToCart(true);
     const success = await addToCart(parseInt(id));
     
@@ -93,6 +96,11 @@ const ProductCard = ({ name, price, image, category, id = "1", stock = 0 }: Prod
               Sold Out
             </span>
           )}
+          {percentOff > 0 && (
+            <span className="bg-destructive text-destructive-foreground text-[10px] font-bold px-2 py-1 uppercase tracking-wider">
+              -{percentOff}%
+            </span>
+          )}
           {!isOutOfStock && reviewStats && reviewStats.average_rating >= 4.5 && (
             <span className="bg-white/90 backdrop-blur text-black text-[10px] font-bold px-2 py-1 uppercase tracking-wider">
               Best Seller
@@ -100,6 +108,12 @@ const ProductCard = ({ name, price, image, category, id = "1", stock = 0 }: Prod
           )}
         </div>
 
+        <WishlistButton
+          productId={parseInt(id)}
+          productName={name}
+          className="absolute top-3 right-3 h-9 w-9 rounded-full bg-white/90 backdrop-blur text-black hover:bg-white"
+        />
+
         {/* Quick Add Button */}
         {!isOutOfStock && (
           <div className="absolute bottom-0 left-0 right-0 p-4 translate-y-full group-hover:translate-y-0 transition-transform duration-300">
@@ -119,11 +133,17 @@ const ProductCard = ({ name, price, image, category, id = "1", stock = 0 }: Prod
           <h3 className="font-serif text-lg text-foreground group-hover:underline decoration-1 underline-offset-4 transition-all">
             {name}
           </h3>
-          <span className="font-medium text-foreground">₹{price}</span>
+          <PriceTag
+            item={{ price, discounted_price: discountedPrice }}
+            className="flex-shrink-0 justify-end font-medium text-foreground"
+          />
         </div>
         
         <div className="flex justify-between items-center">
-          <p className="text-xs text-muted-foreground uppercase tracking-wider">{category}</p>
+          <p className="text-xs text-muted-foreground uppercase tracking-wider">
+            {category}
+            {saleEnd && <span className="ml-2 normal-case tracking-normal text-destructive">{saleEnd}</span>}
+          </p>
           {reviewStats && reviewStats.total_reviews > 0 && (
             <div className="flex items-center gap-1">
               <Star className="h-3 w-3 fill-black text-black" />
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+
+const HOVER_ZOOM = 2;
+const MAX_PINCH_ZOOM = 3;
+
+export interface GalleryImage {
+  src: string;
+  alt: string;
+}
+
+interface ZoomableImageProps extends GalleryImage {
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+/**
+ * Zooms towards the cursor while a mouse hovers, and follows a two-finger
+ * pinch on touch screens. A pinch springs back when the fingers lift, so
+ * there is never a zoomed state to pan around in.
+ */
+const ZoomableImage = ({ src, alt, onZoomChange }: ZoomableImageProps) => {
+  const [zoom, setZoom] = useState(1);
+  const [origin, setOrigin] = useState("50% 50%");
+  const pinchStartRef = useRef<number | null>(null);
+
+  const applyZoom = (value: number) => {
+    setZoom(value);
+    onZoomChange(value > 1);
+  };
+
+  const setOriginAt = (element: HTMLElement, clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    const x = ((clientX - rect.left) / rect.width) * 100;
+    const y = ((clientY - rect.top) / rect.height) * 100;
+    setOrigin(`${Math.min(Math.max(x, 0), 100)}% ${Math.min(Math.max(y, 0), 100)}%`);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length !== 2) return;
+    pinchStartRef.current = touchDistance(e.touches);
+    setOriginAt(
+      e.currentTarget,
+      (e.touches[0].clientX + e.touches[1].clientX) / 2,
+      (e.touches[0].clientY + e.touches[1].clientY) / 2
+    );
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length !== 2 || !pinchStartRef.current) return;
+    const scale = touchDistance(e.touches) / pinchStartRef.current;
+    applyZoom(Math.min(Math.max(scale, 1), MAX_PINCH_ZOOM));
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length >= 2) return;
+    pinchStartRef.current = null;
+    applyZoom(1);
+  };
+
+  return (
+    <div
+      className="aspect-[3/4] overflow-hidden rounded-sm bg-secondary/20 cursor-zoom-in"
+      onPointerEnter={(e) => e.pointerType === "mouse" && applyZoom(HOVER_ZOOM)}
+      onPointerMove={(e) => e.pointerType === "mouse" && setOriginAt(e.currentTarget, e.clientX, e.clientY)}
+      onPointerLeave={(e) => e.pointerType === "mouse" && applyZoom(1)}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className={cn("w-full h-full object-cover select-none", zoom === 1 && "transition-transform duration-200")}
+        style={{ transform: `scale(${zoom})`, transformOrigin: origin }}
+      />
+    </div>
+  );
+};
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  // Brings this photo into view when it changes, e.g. for a picked colour
+  focusSrc?: string;
+}
+
+/** Swipeable product photos with thumbnails and zoom */
+const ProductGallery = ({ images, focusSrc }: ProductGalleryProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selected, setSelected] = useState(0);
+  // Swiping would fight a pinch or hover zoom for the same gesture
+  const zoomedRef = useRef(false);
+  const handleZoomChange = useCallback((zoomed: boolean) => {
+    zoomedRef.current = zoomed;
+  }, []);
+  const opts = useMemo(() => ({ watchDrag: () => !zoomedRef.current }), []);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setSelected(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    api.on("reInit", onSelect);
+    return () => {
+      api.off("select", onSelect);
+      api.off("reInit", onSelect);
+    };
+  }, [api]);
+
+  const focusIndex = focusSrc ? images.findIndex((image) => image.src === focusSrc) : -1;
+  useEffect(() => {
+    if (api && focusIndex !== -1) api.scrollTo(focusIndex);
+  }, [api, focusIndex]);
+
+  const hasMultiple = images.length > 1;
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} opts={opts} className="group">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={`${image.src}-${index}`}>
+              <ZoomableImage {...image} onZoomChange={handleZoomChange} />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {hasMultiple && (
+          <>
+            <CarouselPrevious className="left-3 opacity-0 group-hover:opacity-100 disabled:opacity-0 transition-opacity" />
+            <CarouselNext className="right-3 opacity-0 group-hover:opacity-100 disabled:opacity-0 transition-opacity" />
+          </>
+        )}
+      </Carousel>
+
+      {hasMultiple && (
+        <div className="flex gap-3 overflow-x-auto pb-1" role="tablist" aria-label="Product photos">
+          {images.map((image, index) => (
+            <button
+              key={`${image.src}-${index}`}
+              type="button"
+              role="tab"
+              aria-selected={selected === index}
+              aria-label={`Show photo ${index + 1} of ${images.length}`}
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "w-16 flex-shrink-0 aspect-[3/4] overflow-hidden rounded-sm border-2 transition-colors",
+                selected === index ? "border-foreground" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+            >
+              <img src={image.src} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, GripVertical, Star, Upload, X } from "lucide-react";
+import FieldError from "@/components/FieldError";
+import { cn } from "@/lib/utils";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/** A photo in the product form: already saved (`id`) or about to be uploaded (`file`) */
+export interface ProductImageDraft {
+  key: string;
+  id?: number;
+  file?: File;
+  preview: string;
+}
+
+let draftCounter = 0;
+const nextDraftKey = () => `upload-${++draftCounter}`;
+
+// Pending uploads preview through object URLs that must be released
+const releasePreview = (image: ProductImageDraft) => {
+  if (image.file) URL.revokeObjectURL(image.preview);
+};
+
+interface ProductImagesFieldProps {
+  images: ProductImageDraft[];
+  primaryKey: string | null;
+  onChange: (images: ProductImageDraft[], primaryKey: string | null) => void;
+  error?: string;
+}
+
+/**
+ * Multi-photo picker for the admin product form. Photos can be dragged (or
+ * moved with the arrow buttons) into display order, and any one can be
+ * marked as the primary photo shown in listings. Owners should revoke the
+ * `preview` of remaining uploads when they discard the list.
+ */
+const ProductImagesField = ({ images, primaryKey, onChange, error }: ProductImagesFieldProps) => {
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<string | null>(null);
+  // The first photo stands in as primary until one is chosen
+  const effectivePrimary = images.some((image) => image.key === primaryKey) ? primaryKey : images[0]?.key ?? null;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const accepted = files.filter((file) => file.type.startsWith("image/") && file.size <= MAX_IMAGE_BYTES);
+    setRejected(
+      accepted.length < files.length
+        ? `${files.length - accepted.length} file(s) skipped — only images up to 10MB are allowed`
+        : null
+    );
+    if (accepted.length === 0) return;
+
+    const added = accepted.map((file) => ({ key: nextDraftKey(), file, preview: URL.createObjectURL(file) }));
+    onChange([...images, ...added], effectivePrimary ?? added[0].key);
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next, effectivePrimary);
+  };
+
+  const remove = (key: string) => {
+    const removed = images.find((image) => image.key === key);
+    if (removed) releasePreview(removed);
+    const next = images.filter((image) => image.key !== key);
+    onChange(next, key === effectivePrimary ? next[0]?.key ?? null : effectivePrimary);
+  };
+
+  const handleDragOver = (e: React.DragEvent, overIndex: number) => {
+    if (!dragKey) return;
+    e.preventDefault();
+    const from = images.findIndex((image) => image.key === dragKey);
+    if (from !== -1 && from !== overIndex) move(from, overIndex);
+  };
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+          {images.map((image, index) => {
+            const isPrimary = image.key === effectivePrimary;
+            return (
+              <div
+                key={image.key}
+                draggable
+                onDragStart={(e) => {
+                  setDragKey(image.key);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onDragEnd={() => setDragKey(null)}
+                onDrop={(e) => e.preventDefault()}
+                className={cn(
+                  "group relative aspect-square overflow-hidden rounded-lg border-2 bg-slate-100 cursor-grab active:cursor-grabbing",
+                  isPrimary ? "border-indigo-500" : "border-slate-200",
+                  dragKey === image.key && "opacity-50"
+                )}
+              >
+                <img src={image.preview} alt={`Product photo ${index + 1}`} className="w-full h-full object-cover" />
+
+                <GripVertical className="absolute top-1.5 left-1.5 w-4 h-4 text-white drop-shadow" />
+                {isPrimary && (
+                  <span className="absolute bottom-1.5 left-1.5 rounded bg-indigo-600 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                    Primary
+                  </span>
+                )}
+
+                <div className="absolute inset-x-0 bottom-0 flex justify-end gap-1 p-1.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label="Move photo earlier"
+                    className="rounded bg-white/90 p-1 text-slate-700 hover:bg-white disabled:opacity-40"
+                  >
+                    <ChevronLeft className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === images.length - 1}
+                    aria-label="Move photo later"
+                    className="rounded bg-white/90 p-1 text-slate-700 hover:bg-white disabled:opacity-40"
+                  >
+                    <ChevronRight className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+
+                <div className="absolute top-1.5 right-1.5 flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onChange(images, image.key)}
+                    aria-label={isPrimary ? "Primary photo" : "Make primary photo"}
+                    aria-pressed={isPrimary}
+                    className="rounded-full bg-white/90 p-1 hover:bg-white"
+                  >
+                    <Star className={cn("w-3.5 h-3.5", isPrimary ? "fill-amber-400 text-amber-500" : "text-slate-600")} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => remove(image.key)}
+                    aria-label="Remove photo"
+                    className="rounded-full bg-white/90 p-1 text-slate-600 hover:bg-red-50 hover:text-red-600"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <label className="cursor-pointer flex flex-col items-center gap-3 border-2 border-dashed border-slate-300 rounded-lg p-6 text-center hover:border-indigo-400 transition-colors">
+        <div className="w-16 h-16 rounded-full bg-gradient-to-br from-indigo-100 to-purple-100 flex items-center justify-center">
+          <Upload className="w-8 h-8 text-indigo-600" />
+        </div>
+        <div>
+          <span className="text-sm font-medium text-slate-700">
+            {images.length > 0 ? "Add more photos" : "Click to upload photos"}
+          </span>
+          <p className="text-xs text-slate-500 mt-1">PNG, JPG up to 10MB each. Drag to reorder.</p>
+        </div>
+        <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+      </label>
+
+      <FieldError message={rejected ?? error} />
+    </div>
+  );
+};
+
+export default ProductImagesField;
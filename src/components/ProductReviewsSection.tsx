@@ -10,7 +10,7 @@ import {
   deleteReview,
   markReviewHelpful,
 } from "@/lib/api";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import StarRating from "./StarRating";
 import ReviewForm from "./ReviewForm";
 import ReviewList from "./ReviewList";
@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { Bell, Plus, X } from "lucide-react";
+import FieldError from "@/components/FieldError";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { combineOptions, optionsKey, VARIANT_AXES, type VariantOptions } from "@/lib/variants";
+import { cn } from "@/lib/utils";
+
+const SIZE_PRESETS = ["XS", "S", "M", "L", "XL", "XXL"];
+const NO_IMAGE = "none";
+
+/** One option combination in the product form */
+export interface VariantDraft {
+  key: string;
+  // Set for variants that are already saved
+  id?: number;
+  options: VariantOptions;
+  sku: string;
+  stock: number;
+  // Empty to sell at the product price
+  price: string;
+  // Empty for no sale; follows the product's sale schedule
+  salePrice: string;
+  imageId: number | null;
+}
+
+// Values offered on each axis, keyed by axis
+export type AxisValues = Record<string, string[]>;
+
+interface ProductVariantsFieldProps {
+  axisValues: AxisValues;
+  variants: VariantDraft[];
+  onChange: (axisValues: AxisValues, variants: VariantDraft[]) => void;
+  // Saved product photos a variant can point at
+  images: Array<{ id: number; preview: string }>;
+  // Shoppers waiting for a restock, keyed by variant id
+  demand?: Record<number, number>;
+  error?: string;
+}
+
+// Every combination of the axis values, keeping what was entered for
+// combinations that already existed
+const buildVariants = (axisValues: AxisValues, current: VariantDraft[]): VariantDraft[] =>
+  combineOptions(VARIANT_AXES.map((axis) => ({ key: axis.key, values: axisValues[axis.key] ?? [] }))).map(
+    (options) => {
+      const key = optionsKey(options);
+      return current.find((variant) => variant.key === key) ?? { key, options, sku: "", stock: 0, price: "", salePrice: "", imageId: null };
+    }
+  );
+
+/**
+ * Variant editor for the admin product form. Values are picked per option
+ * axis and every combination of them becomes a variant with its own SKU,
+ * stock, optional price and sale price overrides and optional photo.
+ */
+const ProductVariantsField = ({ axisValues, variants, onChange, images, demand = {}, error }: ProductVariantsFieldProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const setAxis = (axis: string, values: string[]) => {
+    const next = { ...axisValues, [axis]: values };
+    onChange(next, buildVariants(next, variants));
+  };
+
+  const addValue = (axis: string, raw: string) => {
+    const value = raw.trim();
+    setDrafts((prev) => ({ ...prev, [axis]: "" }));
+    const values = axisValues[axis] ?? [];
+    if (!value || values.some((existing) => existing.toLowerCase() === value.toLowerCase())) return;
+    setAxis(axis, [...values, value]);
+  };
+
+  const toggleValue = (axis: string, value: string) => {
+    const values = axisValues[axis] ?? [];
+    setAxis(axis, values.includes(value) ? values.filter((v) => v !== value) : [...values, value]);
+  };
+
+  const updateVariant = (key: string, changes: Partial<VariantDraft>) => {
+    onChange(
+      axisValues,
+      variants.map((variant) => (variant.key === key ? { ...variant, ...changes } : variant))
+    );
+  };
+
+  const activeAxes = VARIANT_AXES.filter((axis) => (axisValues[axis.key] ?? []).length > 0);
+  const hasDemand = variants.some((variant) => variant.id && demand[variant.id]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        {VARIANT_AXES.map((axis) => {
+          const values = axisValues[axis.key] ?? [];
+          return (
+            <div key={axis.key} className="space-y-2">
+              <Label className="text-sm font-medium">{axis.label}</Label>
+              {axis.key === "size" && (
+                <div className="flex flex-wrap gap-1.5">
+                  {SIZE_PRESETS.map((size) => (
+                    <button
+                      key={size}
+                      type="button"
+                      onClick={() => toggleValue(axis.key, size)}
+                      aria-pressed={values.includes(size)}
+                      className={cn(
+                        "rounded border px-2 py-1 text-xs font-medium transition-colors",
+                        values.includes(size)
+                          ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                          : "border-slate-200 text-slate-600 hover:border-indigo-300"
+                      )}
+                    >
+                      {size}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1.5">
+                {values
+                  .filter((value) => axis.key !== "size" || !SIZE_PRESETS.includes(value))
+                  .map((value) => (
+                    <span
+                      key={value}
+                      className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700"
+                    >
+                      {value}
+                      <button
+                        type="button"
+                        onClick={() => toggleValue(axis.key, value)}
+                        aria-label={`Remove ${axis.label.toLowerCase()} ${value}`}
+                        className="text-slate-500 hover:text-red-600"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+              </div>
+              <div className="flex gap-1.5">
+                <Input
+                  value={drafts[axis.key] ?? ""}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [axis.key]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addValue(axis.key, drafts[axis.key] ?? "");
+                    }
+                  }}
+                  placeholder={`Add ${axis.label.toLowerCase()}`}
+                  className="h-8 text-sm"
+                  maxLength={50}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => addValue(axis.key, drafts[axis.key] ?? "")}
+                  aria-label={`Add ${axis.label.toLowerCase()}`}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                {activeAxes.map((axis) => (
+                  <th key={axis.key} className="px-3 py-2 font-medium">
+                    {axis.label}
+                  </th>
+                ))}
+                <th className="px-3 py-2 font-medium">SKU</th>
+                <th className="px-3 py-2 font-medium">Stock</th>
+                <th className="px-3 py-2 font-medium">Price (₹)</th>
+                <th className="px-3 py-2 font-medium">Sale (₹)</th>
+                <th className="px-3 py-2 font-medium">Photo</th>
+                {hasDemand && <th className="px-3 py-2 font-medium">Waiting</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {variants.map((variant) => (
+                <tr key={variant.key}>
+                  {activeAxes.map((axis) => (
+                    <td key={axis.key} className="px-3 py-2 font-medium whitespace-nowrap">
+                      {variant.options[axis.key]}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2">
+                    <Input
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(variant.key, { sku: e.target.value })}
+                      placeholder="SKU"
+                      aria-label={`SKU for ${Object.values(variant.options).join(" / ")}`}
+                      className="h-8 min-w-28 text-sm"
+                      maxLength={64}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <Input
+                      type="number"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(variant.key, { stock: parseInt(e.target.value) || 0 })}
+                      min="0"
+                      aria-label={`Stock for ${Object.values(variant.options).join(" / ")}`}
+                      className="h-8 w-20 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <Input
+                      type="number"
+                      value={variant.price}
+                      onChange={(e) => updateVariant(variant.key, { price: e.target.value })}
+                      min="0"
+                      step="0.01"
+                      placeholder="Default"
+                      aria-label={`Price for ${Object.values(variant.options).join(" / ")}`}
+                      className="h-8 w-24 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <Input
+                      type="number"
+                      value={variant.salePrice}
+                      onChange={(e) => updateVariant(variant.key, { salePrice: e.target.value })}
+                      min="0"
+                      step="0.01"
+                      placeholder="Default"
+                      aria-label={`Sale price for ${Object.values(variant.options).join(" / ")}`}
+                      className="h-8 w-24 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <Select
+                      value={variant.imageId ? String(variant.imageId) : NO_IMAGE}
+                      onValueChange={(value) =>
+                        updateVariant(variant.key, { imageId: value === NO_IMAGE ? null : parseInt(value) })
+                      }
+                      disabled={images.length === 0}
+                    >
+                      <SelectTrigger className="h-8 w-28 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_IMAGE}>None</SelectItem>
+                        {images.map((image, index) => (
+                          <SelectItem key={image.id} value={String(image.id)}>
+                            <span className="flex items-center gap-2">
+                              <img src={image.preview} alt="" className="w-5 h-5 rounded object-cover" />
+                              Photo {index + 1}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  {hasDemand && (
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {variant.id && demand[variant.id] ? (
+                        <span
+                          className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800"
+                          title="Shoppers notified when this variant is restocked"
+                        >
+                          <Bell className="w-3 h-3" />
+                          {demand[variant.id]}
+                        </span>
+                      ) : (
+                        <span className="text-slate-400">—</span>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {variants.length > 0 && images.length === 0 && (
+        <p className="text-xs text-slate-500">Save the product with its photos to link a photo to a variant.</p>
+      )}
+
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+export default ProductVariantsField;
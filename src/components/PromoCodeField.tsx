@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Loader2, Tag, X } from "lucide-react";
+import FieldError from "@/components/FieldError";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { describeCoupon } from "@/lib/coupons";
+import type { CouponQuote } from "@/lib/schemas";
+
+interface PromoCodeFieldProps {
+  // Accepted coupon for the current cart
+  coupon?: CouponQuote;
+  checking?: boolean;
+  error?: string;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+/** Promo code entry for the order summary, or the applied coupon with a way to remove it */
+const PromoCodeField = ({ coupon, checking = false, error, onApply, onRemove }: PromoCodeFieldProps) => {
+  const [code, setCode] = useState("");
+
+  if (coupon) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-md border border-dashed border-green-600/40 bg-green-50 px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <Tag className="h-4 w-4 flex-shrink-0 text-green-700" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium font-mono">{coupon.code}</p>
+            <p className="truncate text-xs text-muted-foreground">{coupon.description || describeCoupon(coupon)}</p>
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 flex-shrink-0"
+          onClick={() => {
+            setCode("");
+            onRemove();
+          }}
+          aria-label={`Remove code ${coupon.code}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed) onApply(trimmed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <Label htmlFor="promo-code" className="text-sm text-muted-foreground">
+        Promo code
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Enter code"
+          className="font-mono uppercase placeholder:font-sans placeholder:normal-case"
+          autoComplete="off"
+          maxLength={50}
+          aria-invalid={!!error}
+        />
+        <Button type="submit" variant="outline" disabled={checking || !code.trim()}>
+          {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+        </Button>
+      </div>
+      <FieldError message={error} />
+    </form>
+  );
+};
+
+export default PromoCodeField;
@@ -1,28 +1,42 @@
-import { Navigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { loginPath } from "@/lib/redirect";
+import Forbidden from "@/pages/Forbidden";
 
 interface ProtectedRouteProps {
-  children: React.ReactNode;
+  // Rendered when allowed; nested routes render through <Outlet /> otherwise
+  children?: React.ReactNode;
   requiredRole?: "manager" | "customer" | "admin";
 }
 
 /**
  * ProtectedRoute component that redirects to login if user is not authenticated
- * Optionally checks for specific roles
+ * Optionally checks for specific roles, rendering a 403 page on mismatch.
+ * Nothing is decided until the stored session has been restored.
  */
 export function ProtectedRoute({
   children,
   requiredRole,
 }: ProtectedRouteProps) {
-  const { isAuthenticated, user } = useAuth();
+  const { isAuthenticated, user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to={loginPath(location)} replace />;
   }
 
   if (requiredRole && user?.role !== requiredRole) {
-    return <Navigate to="/" replace />;
+    return <Forbidden />;
   }
 
-  return <>{children}</>;
+  return <>{children ?? <Outlet />}</>;
 }
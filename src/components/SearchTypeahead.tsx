@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Clock, Loader2, Search, Tag, TrendingUp, X } from "lucide-react";
+import PriceTag from "@/components/PriceTag";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import {
+  MIN_SUGGESTION_QUERY_LENGTH,
+  useCategories,
+  usePopularSearches,
+  useProductSuggestions,
+} from "@/hooks/use-catalog";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from "@/lib/recent-searches";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_CATEGORY_SUGGESTIONS = 4;
+
+interface SearchTypeaheadProps {
+  onClose: () => void;
+}
+
+/**
+ * Header search with live suggestions. Arrow keys move through the results;
+ * Enter opens the highlighted product or category, or searches for the term.
+ */
+const SearchTypeahead = ({ onClose }: SearchTypeaheadProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [recentSearches, setRecentSearches] = useState(getRecentSearches);
+  const term = query.trim();
+  const debouncedTerm = useDebouncedValue(term, SEARCH_DEBOUNCE_MS);
+
+  const suggestionsEnabled = debouncedTerm.length >= MIN_SUGGESTION_QUERY_LENGTH;
+  const { data: products = [], isFetching } = useProductSuggestions(debouncedTerm);
+  const { data: categories = [] } = useCategories();
+  const { data: popularSearches = [] } = usePopularSearches();
+
+  const matchingCategories = term
+    ? categories
+        .filter((category) => category.name.toLowerCase().includes(term.toLowerCase()))
+        .slice(0, MAX_CATEGORY_SUGGESTIONS)
+    : [];
+  const showProducts = term.length >= MIN_SUGGESTION_QUERY_LENGTH && suggestionsEnabled;
+  const searching = term !== debouncedTerm || isFetching;
+
+  const go = (path: string) => {
+    navigate(path);
+    onClose();
+  };
+
+  const searchFor = (value: string) => {
+    addRecentSearch(value);
+    go(`/products?search=${encodeURIComponent(value.trim())}`);
+  };
+
+  const handleClearRecent = () => {
+    clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const hasSuggestions = term || recentSearches.length > 0 || popularSearches.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className="relative w-full max-w-2xl overflow-visible bg-transparent"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onClose();
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search for products..."
+            className="h-12 text-lg placeholder:text-muted-foreground/50"
+            autoFocus
+          />
+        </div>
+        <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close search">
+          <X className="h-6 w-6" />
+        </Button>
+      </div>
+
+      {hasSuggestions && (
+        <CommandList className="absolute left-0 right-0 top-full mt-2 max-h-[70vh] rounded-md border bg-popover shadow-lg">
+          {term && (
+            <CommandGroup>
+              <CommandItem value={`search:${term}`} onSelect={() => searchFor(term)} className="gap-2">
+                <Search className="h-4 w-4 text-muted-foreground" />
+                <span className="truncate">
+                  Search for <span className="font-medium">&ldquo;{term}&rdquo;</span>
+                </span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {showProducts && (products.length > 0 || searching) && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Products">
+                {products.length === 0 && (
+                  <div className="flex items-center gap-2 px-2 py-3 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Searching...
+                  </div>
+                )}
+                {products.map((product) => (
+                  <CommandItem
+                    key={product.id}
+                    value={`product:${product.id}`}
+                    onSelect={() => {
+                      addRecentSearch(term);
+                      go(`/product/${product.id}`);
+                    }}
+                    className="gap-3"
+                  >
+                    <img
+                      src={mediaUrl(product.image, PRODUCT_IMAGE_PLACEHOLDER)}
+                      alt=""
+                      className="h-10 w-10 flex-shrink-0 rounded-sm object-cover bg-secondary/30"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">{product.name}</p>
+                      {product.category && (
+                        <p className="truncate text-xs text-muted-foreground">{product.category.name}</p>
+                      )}
+                    </div>
+                    <PriceTag item={product} className="flex-col items-end font-medium" />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+
+          {showProducts && !searching && products.length === 0 && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">No products match &ldquo;{term}&rdquo;.</p>
+          )}
+
+          {matchingCategories.length > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Categories">
+                {matchingCategories.map((category) => (
+                  <CommandItem
+                    key={category.id}
+                    value={`category:${category.id}`}
+                    onSelect={() => go(`/products?category=${category.id}`)}
+                    className="gap-2"
+                  >
+                    <Tag className="h-4 w-4 text-muted-foreground" />
+                    {category.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+
+          {!term && recentSearches.length > 0 && (
+            <CommandGroup
+              heading={
+                <div className="flex items-center justify-between">
+                  Recent searches
+                  <button
+                    type="button"
+                    onClick={handleClearRecent}
+                    className="text-xs font-normal hover:text-foreground"
+                  >
+                    Clear
+                  </button>
+                </div>
+              }
+            >
+              {recentSearches.map((recent) => (
+                <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => searchFor(recent)} className="gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  {recent}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {!term && popularSearches.length > 0 && (
+            <>
+              {recentSearches.length > 0 && <CommandSeparator />}
+              <CommandGroup heading="Popular searches">
+                {popularSearches.map((popular) => (
+                  <CommandItem
+                    key={popular}
+                    value={`popular:${popular}`}
+                    onSelect={() => searchFor(popular)}
+                    className="gap-2"
+                  >
+                    <TrendingUp className="h-4 w-4 text-muted-foreground" />
+                    {popular}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default SearchTypeahead;
@@ -0,0 +1,62 @@
+import { Clock } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useIdleTimer } from "@/hooks/use-idle-timer";
+
+const IDLE_TIMEOUT_MS = 15 * 60_000;
+const IDLE_WARNING_MS = 2 * 60_000;
+
+interface SessionTimeoutDialogProps {
+  enabled: boolean;
+  onSignOut: () => void;
+  onTimeout: () => void;
+}
+
+function formatCountdown(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Warns an inactive user before signing them out. Keeps its own idle timer so
+ * the once-a-second countdown does not re-render the surrounding layout.
+ */
+const SessionTimeoutDialog = ({ enabled, onSignOut, onTimeout }: SessionTimeoutDialogProps) => {
+  const { isWarning, remainingMs, reset } = useIdleTimer({
+    enabled,
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: IDLE_WARNING_MS,
+    onIdle: onTimeout,
+  });
+
+  return (
+    <AlertDialog open={isWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You&apos;ve been inactive for a while. For security you will be signed out in{" "}
+            <span className="font-semibold tabular-nums">{formatCountdown(remainingMs)}</span>.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={reset}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SessionTimeoutDialog;
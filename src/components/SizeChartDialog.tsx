@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Plus, RefreshCw, Ruler, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { deleteCategorySizeChart, getCategorySizeChart, saveCategorySizeChart } from "@/lib/api";
+import { queryKeys } from "@/lib/queries";
+import type { MeasurementUnit, NumberBounds } from "@/lib/schemas";
+import { parseBounds } from "@/lib/size-chart";
+
+const STANDARD_SIZES = ["XS", "S", "M", "L", "XL", "XXL"];
+const DEFAULT_MEASUREMENTS = ["Chest", "Waist", "Length"];
+
+interface ChartRow {
+  size: string;
+  // Cell text as typed, e.g. "86-91"
+  values: Record<string, string>;
+}
+
+const formatCell = (bounds: NumberBounds | null | undefined) =>
+  !bounds ? "" : bounds.min === bounds.max ? `${bounds.min}` : `${bounds.min}-${bounds.max}`;
+
+interface SizeChartDialogProps {
+  category: { id: number; name: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Admin editor for a category's size chart: measurement columns, one row
+ * per size, and each cell either a single figure or a `min-max` range.
+ */
+const SizeChartDialog = ({ category, onClose }: SizeChartDialogProps) => {
+  const { tokens } = useAuth();
+  const access = tokens?.access || "";
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [exists, setExists] = useState(false);
+  const [unit, setUnit] = useState<MeasurementUnit>("cm");
+  const [measurements, setMeasurements] = useState<string[]>([]);
+  const [rows, setRows] = useState<ChartRow[]>([]);
+  const [newMeasurement, setNewMeasurement] = useState("");
+
+  useEffect(() => {
+    if (!category) return;
+    let cancelled = false;
+    setLoading(true);
+    getCategorySizeChart(category.id)
+      .then((res) => {
+        if (cancelled) return;
+        const chart = res.data.size_chart;
+        setExists(!!chart);
+        setUnit(chart?.unit ?? "cm");
+        setMeasurements(chart?.measurements ?? DEFAULT_MEASUREMENTS);
+        setRows(
+          (chart?.sizes ?? []).map((row) => ({
+            size: row.size,
+            values: Object.fromEntries(Object.entries(row.values).map(([name, bounds]) => [name, formatCell(bounds)])),
+          }))
+        );
+      })
+      .catch((e) => {
+        if (!cancelled) toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [category, toast]);
+
+  const addMeasurement = () => {
+    const name = newMeasurement.trim();
+    setNewMeasurement("");
+    if (!name || measurements.some((m) => m.toLowerCase() === name.toLowerCase())) return;
+    setMeasurements([...measurements, name]);
+  };
+
+  const addStandardSizes = () => {
+    const missing = STANDARD_SIZES.filter((size) => !rows.some((row) => row.size === size));
+    setRows([...rows, ...missing.map((size) => ({ size, values: {} }))]);
+  };
+
+  const updateRow = (index: number, changes: Partial<ChartRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const invalidate = () => {
+    if (category) queryClient.invalidateQueries({ queryKey: queryKeys.categories.sizeChart(category.id) });
+  };
+
+  const handleSave = async () => {
+    if (!category) return;
+    const sizes = rows.filter((row) => row.size.trim());
+    if (measurements.length === 0 || sizes.length === 0) {
+      toast({ variant: "destructive", title: "Error", description: "Add at least one measurement and one size" });
+      return;
+    }
+    if (new Set(sizes.map((row) => row.size.trim())).size !== sizes.length) {
+      toast({ variant: "destructive", title: "Error", description: "Each size can only appear once" });
+      return;
+    }
+
+    const invalid: string[] = [];
+    const chartSizes = sizes.map((row) => ({
+      size: row.size.trim(),
+      values: Object.fromEntries(
+        measurements.map((name) => {
+          const text = row.values[name]?.trim() ?? "";
+          const bounds = parseBounds(text);
+          if (text && !bounds) invalid.push(`${row.size} ${name}`);
+          return [name, bounds];
+        })
+      ),
+    }));
+    if (invalid.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Use a number or a range like 86-91 for: ${invalid.join(", ")}`,
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveCategorySizeChart(access, category.id, { unit, measurements, sizes: chartSizes });
+      invalidate();
+      toast({ title: "Success", description: "Size chart saved" });
+      onClose();
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!category) return;
+    setSaving(true);
+    try {
+      await deleteCategorySizeChart(access, category.id);
+      invalidate();
+      toast({ title: "Success", description: "Size chart removed" });
+      onClose();
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!category} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl">
+            <Ruler className="w-6 h-6 text-indigo-600" />
+            Size Chart - {category?.name}
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Body measurements per size, shown in the size guide of every product in this category. Enter a single
+            figure or a range such as 86-91.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="py-12 text-center">
+            <RefreshCw className="w-8 h-8 mx-auto mb-4 text-indigo-600 animate-spin" />
+            <p className="text-slate-600">Loading size chart...</p>
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Unit</Label>
+                <Select value={unit} onValueChange={(value: MeasurementUnit) => setUnit(value)}>
+                  <SelectTrigger className="border-slate-300 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cm">Centimetres (cm)</SelectItem>
+                    <SelectItem value="in">Inches (in)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="new-measurement" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Add Measurement
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="new-measurement"
+                    value={newMeasurement}
+                    onChange={(e) => setNewMeasurement(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addMeasurement();
+                      }
+                    }}
+                    placeholder="e.g., Hip, Inseam, Sleeve"
+                    className="border-slate-300 bg-white"
+                    maxLength={50}
+                  />
+                  <Button type="button" variant="outline" onClick={addMeasurement}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Size</th>
+                    {measurements.map((name) => (
+                      <th key={name} className="px-3 py-2 font-medium whitespace-nowrap">
+                        <span className="inline-flex items-center gap-1">
+                          {name} ({unit})
+                          <button
+                            type="button"
+                            onClick={() => setMeasurements(measurements.filter((m) => m !== name))}
+                            aria-label={`Remove ${name}`}
+                            className="text-slate-400 hover:text-red-600"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      </th>
+                    ))}
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {rows.map((row, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">
+                        <Input
+                          value={row.size}
+                          onChange={(e) => updateRow(index, { size: e.target.value })}
+                          placeholder="Size"
+                          aria-label="Size"
+                          className="h-8 w-20 text-sm"
+                          maxLength={20}
+                        />
+                      </td>
+                      {measurements.map((name) => (
+                        <td key={name} className="px-3 py-2">
+                          <Input
+                            value={row.values[name] ?? ""}
+                            onChange={(e) => updateRow(index, { values: { ...row.values, [name]: e.target.value } })}
+                            placeholder="—"
+                            aria-label={`${name} for ${row.size || "size"}`}
+                            className="h-8 w-24 text-sm"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                          aria-label={`Remove size ${row.size}`}
+                          className="hover:bg-red-50 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, { size: "", values: {} }])}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Size
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={addStandardSizes}>
+                Add XS–XXL
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {exists && (
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              disabled={saving}
+              className="mr-auto hover:bg-red-50 hover:text-red-600 hover:border-red-300"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove Chart
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
+          >
+            {saving ? "Saving..." : "Save Chart"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SizeChartDialog;
@@ -0,0 +1,280 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Loader2, Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAuth } from "@/hooks/use-auth";
+import { useCategories, useSizeChart } from "@/hooks/use-catalog";
+import { useMeasurements, useSaveMeasurements } from "@/hooks/use-measurements";
+import { toast } from "@/hooks/use-toast";
+import { loginPath } from "@/lib/redirect";
+import type { BodyMeasurements, MeasurementUnit } from "@/lib/schemas";
+import { convertLength, formatBounds, recommendSize, type SizeRecommendation } from "@/lib/size-chart";
+
+interface SizeGuideDialogProps {
+  trigger: ReactNode;
+  // Fixed on the product page; picked inside the dialog from the footer
+  categoryId?: number;
+  // Offers to pick the recommended size when it is one of `sizes`
+  onSelectSize?: (size: string) => void;
+  sizes?: string[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Size chart for a category with a cm/inch toggle and a "find my size"
+ * helper. Signed-in shoppers can keep their measurements on their profile,
+ * and they are filled in the next time the guide opens.
+ */
+const SizeGuideDialog = ({ trigger, categoryId, onSelectSize, sizes = [] }: SizeGuideDialogProps) => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const [pickedCategoryId, setPickedCategoryId] = useState<number | undefined>(undefined);
+  const [unit, setUnit] = useState<MeasurementUnit>("cm");
+  // Read when saved measurements arrive, which should not rerun on a unit change
+  const unitRef = useRef(unit);
+  unitRef.current = unit;
+  // What the shopper typed, in the unit on display
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [recommendation, setRecommendation] = useState<SizeRecommendation | null | undefined>(undefined);
+
+  const { data: categories = [] } = useCategories();
+  const activeCategoryId = categoryId ?? pickedCategoryId;
+  const { data: chart, isPending: chartLoading } = useSizeChart(open ? activeCategoryId : undefined);
+  const { data: saved } = useMeasurements();
+  const saveMeasurements = useSaveMeasurements();
+
+  // Fill in saved measurements the shopper has not typed over
+  useEffect(() => {
+    if (!open || !saved) return;
+    setDraft((current) => {
+      const next = { ...current };
+      Object.entries(saved).forEach(([name, cm]) => {
+        if (!next[name]) next[name] = String(round(convertLength(cm, "cm", unitRef.current)));
+      });
+      return next;
+    });
+  }, [open, saved]);
+
+  const changeUnit = (next: string) => {
+    if (next !== "cm" && next !== "in") return;
+    setDraft((current) =>
+      Object.fromEntries(
+        Object.entries(current).map(([name, text]) => {
+          const value = parseFloat(text);
+          return [name, Number.isFinite(value) ? String(round(convertLength(value, unit, next))) : text];
+        })
+      )
+    );
+    setUnit(next);
+  };
+
+  // Entered measurements of the current chart, in centimetres
+  const enteredMeasurements = (): BodyMeasurements => {
+    const entered: BodyMeasurements = {};
+    (chart?.measurements ?? []).forEach((name) => {
+      const value = parseFloat(draft[name] ?? "");
+      if (Number.isFinite(value) && value > 0) entered[name] = convertLength(value, unit, "cm");
+    });
+    return entered;
+  };
+
+  const hasEntries = Object.keys(enteredMeasurements()).length > 0;
+
+  const handleFindSize = () => {
+    if (!chart) return;
+    setRecommendation(recommendSize(chart, enteredMeasurements()));
+  };
+
+  const handleSave = async () => {
+    try {
+      // Keep measurements saved from other categories' charts
+      await saveMeasurements.mutateAsync({ ...saved, ...enteredMeasurements() });
+      toast({ title: "Measurements saved", description: "We'll use them next time you open a size guide." });
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error", description: (error as Error).message });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setRecommendation(undefined);
+      }}
+    >
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-2xl">Size Guide</DialogTitle>
+          <DialogDescription>Body measurements for each size. Measure over light clothing.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          {categoryId === undefined ? (
+            <Select
+              value={pickedCategoryId ? String(pickedCategoryId) : ""}
+              onValueChange={(value) => {
+                setPickedCategoryId(parseInt(value));
+                setRecommendation(undefined);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span />
+          )}
+          <ToggleGroup type="single" value={unit} onValueChange={changeUnit} variant="outline" size="sm" aria-label="Units">
+            <ToggleGroupItem value="cm">cm</ToggleGroupItem>
+            <ToggleGroupItem value="in">inch</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {!activeCategoryId ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Choose a category to see its sizes.</p>
+        ) : chartLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !chart || chart.sizes.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">There is no size chart for this category yet.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Size</TableHead>
+                    {chart.measurements.map((name) => (
+                      <TableHead key={name}>
+                        {name} ({unit})
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {chart.sizes.map((row) => (
+                    <TableRow key={row.size} data-state={recommendation?.size === row.size ? "selected" : undefined}>
+                      <TableCell className="font-medium">{row.size}</TableCell>
+                      {chart.measurements.map((name) => (
+                        <TableCell key={name}>{formatBounds(row.values[name], chart.unit, unit)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-4 rounded-sm border p-4">
+              <div className="flex items-center gap-2">
+                <Ruler className="h-4 w-4" />
+                <h3 className="text-sm font-medium uppercase tracking-wide">Find my size</h3>
+              </div>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {chart.measurements.map((name) => (
+                  <div key={name} className="space-y-1">
+                    <Label htmlFor={`measure-${name}`} className="text-xs text-muted-foreground">
+                      {name} ({unit})
+                    </Label>
+                    <Input
+                      id={`measure-${name}`}
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.1"
+                      value={draft[name] ?? ""}
+                      onChange={(e) => {
+                        setDraft((current) => ({ ...current, [name]: e.target.value }));
+                        setRecommendation(undefined);
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" onClick={handleFindSize} disabled={!hasEntries}>
+                  Find my size
+                </Button>
+                {isAuthenticated ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleSave}
+                    disabled={!hasEntries || saveMeasurements.isPending}
+                  >
+                    {saveMeasurements.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save to my profile
+                  </Button>
+                ) : (
+                  <Button asChild variant="link" className="px-0">
+                    <Link to={loginPath(location)}>Sign in to save your measurements</Link>
+                  </Button>
+                )}
+              </div>
+
+              {recommendation === null && (
+                <p className="text-sm text-muted-foreground">Enter at least one measurement from the chart.</p>
+              )}
+              {recommendation && (
+                <div className="flex flex-wrap items-center justify-between gap-3 rounded-sm bg-secondary/40 p-3">
+                  <p className="text-sm">
+                    {recommendation.matched.length === recommendation.compared.length ? (
+                      <>
+                        We recommend <strong>{recommendation.size}</strong>.
+                      </>
+                    ) : (
+                      <>
+                        Your closest size is <strong>{recommendation.size}</strong>
+                        {recommendation.matched.length > 0 && ` — it fits your ${recommendation.matched.join(", ").toLowerCase()}`}.
+                      </>
+                    )}
+                  </p>
+                  {onSelectSize && sizes.includes(recommendation.size) && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => {
+                        onSelectSize(recommendation.size);
+                        setOpen(false);
+                        setRecommendation(undefined);
+                      }}
+                    >
+                      Select {recommendation.size}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SizeGuideDialog;
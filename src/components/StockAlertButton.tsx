@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Bell, BellRing, Loader2 } from "lucide-react";
+import FieldError from "@/components/FieldError";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/hooks/use-auth";
+import { useCreateStockAlert, useStockAlerts } from "@/hooks/use-stock-alerts";
+import { toast } from "@/hooks/use-toast";
+import type { ProductVariant } from "@/lib/schemas";
+import { formatOptions } from "@/lib/variants";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface StockAlertButtonProps {
+  productId: number;
+  productName: string;
+  // The sold-out variant; omitted for products without variants
+  variant?: ProductVariant;
+  // Still waiting for the shopper to pick a variant
+  disabled?: boolean;
+  disabledLabel?: string;
+  className?: string;
+}
+
+/**
+ * "Notify me" in place of Add to Cart for sold-out products and variants.
+ * Signed-in shoppers subscribe in one click; guests leave an email address.
+ */
+const StockAlertButton = ({
+  productId,
+  productName,
+  variant,
+  disabled = false,
+  disabledLabel,
+  className,
+}: StockAlertButtonProps) => {
+  const { isAuthenticated, user } = useAuth();
+  const { data: alerts = [] } = useStockAlerts();
+  const createAlert = useCreateStockAlert();
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [popoverOpen, setPopoverOpen] = useState(false);
+  // Guests have no alert list to check against
+  const [subscribedKeys, setSubscribedKeys] = useState<string[]>([]);
+
+  const key = `${productId}:${variant?.id ?? ""}`;
+  const subscribed =
+    subscribedKeys.includes(key) ||
+    alerts.some(
+      (alert) => alert.product.id === productId && (alert.variant_id ?? null) === (variant?.id ?? null) && !alert.notified_at
+    );
+  const label = variant ? `${productName} (${formatOptions(variant)})` : productName;
+
+  const subscribe = async (guestEmail?: string) => {
+    try {
+      await createAlert.mutateAsync({ productId, variantId: variant?.id, email: guestEmail });
+      setSubscribedKeys((current) => [...current, key]);
+      setPopoverOpen(false);
+      toast({
+        title: "We'll let you know",
+        description: `You'll get an email at ${guestEmail || user?.email} when ${label} is back in stock.`,
+      });
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error", description: (error as Error).message });
+    }
+  };
+
+  const handleGuestSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = email.trim();
+    if (!EMAIL_PATTERN.test(trimmed)) {
+      setEmailError("Please enter a valid email address");
+      return;
+    }
+    setEmailError(null);
+    subscribe(trimmed);
+  };
+
+  if (subscribed) {
+    return (
+      <Button variant="outline" size="lg" className={className} disabled>
+        <BellRing className="mr-2 h-5 w-5" />
+        We'll email you when it's back
+      </Button>
+    );
+  }
+
+  if (disabled) {
+    return (
+      <Button variant="outline" size="lg" className={className} disabled>
+        {disabledLabel ?? "Out of Stock"}
+      </Button>
+    );
+  }
+
+  if (isAuthenticated) {
+    return (
+      <Button size="lg" className={className} onClick={() => subscribe()} disabled={createAlert.isPending}>
+        {createAlert.isPending ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Bell className="mr-2 h-5 w-5" />}
+        Notify Me When Available
+      </Button>
+    );
+  }
+
+  return (
+    <Popover open={popoverOpen} onOpenChange={setPopoverOpen}>
+      <PopoverTrigger asChild>
+        <Button size="lg" className={className}>
+          <Bell className="mr-2 h-5 w-5" />
+          Notify Me When Available
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="center">
+        <form onSubmit={handleGuestSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Get a restock alert</p>
+            <p className="text-xs text-muted-foreground">We'll send one email when {label} is back.</p>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="stock-alert-email" className="sr-only">
+              Email
+            </Label>
+            <Input
+              id="stock-alert-email"
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+            />
+            <FieldError message={emailError ?? undefined} />
+          </div>
+          <Button type="submit" className="w-full" disabled={createAlert.isPending}>
+            {createAlert.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Notify Me
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StockAlertButton;
@@ -0,0 +1,100 @@
+import { Link } from "react-router-dom";
+import { Bell, BellRing, Loader2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useDeleteStockAlert, useStockAlerts } from "@/hooks/use-stock-alerts";
+import { toast } from "@/hooks/use-toast";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import type { StockAlert } from "@/lib/schemas";
+import { formatOptions, hasOptions } from "@/lib/variants";
+
+const StockAlertRow = ({ alert }: { alert: StockAlert }) => {
+  const deleteAlert = useDeleteStockAlert();
+
+  const handleRemove = async () => {
+    try {
+      await deleteAlert.mutateAsync(alert.id);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Error", description: (error as Error).message });
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="flex items-center gap-4 p-4">
+        <Link to={`/product/${alert.product.id}`} className="flex-shrink-0">
+          <img
+            src={mediaUrl(alert.product.image, PRODUCT_IMAGE_PLACEHOLDER)}
+            alt={alert.product.name}
+            className="h-20 w-16 object-cover bg-secondary/20"
+          />
+        </Link>
+        <div className="min-w-0 flex-1 space-y-1">
+          <Link to={`/product/${alert.product.id}`} className="font-serif text-lg hover:underline">
+            {alert.product.name}
+          </Link>
+          {hasOptions(alert) && <p className="text-xs text-muted-foreground">{formatOptions(alert)}</p>}
+          {alert.notified_at ? (
+            <Badge variant="secondary" className="gap-1">
+              <BellRing className="h-3 w-3" />
+              Back in stock · emailed {new Date(alert.notified_at).toLocaleDateString()}
+            </Badge>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Waiting since {new Date(alert.created_at).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label={`Stop alerts for ${alert.product.name}`}
+          onClick={handleRemove}
+          disabled={deleteAlert.isPending}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+/** Back-in-stock subscriptions, shown as a tab on the account page */
+const StockAlertsPanel = () => {
+  const { data: alerts = [], isPending } = useStockAlerts();
+
+  if (isPending) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (alerts.length === 0) {
+    return (
+      <Card className="border-dashed bg-secondary/5">
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <div className="w-16 h-16 bg-secondary/20 rounded-full flex items-center justify-center mb-4">
+            <Bell className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No stock alerts</h3>
+          <p className="text-muted-foreground text-center max-w-sm">
+            Pick a sold-out size on any product and tap "Notify Me" to hear when it's back.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      {alerts.map((alert) => (
+        <StockAlertRow key={alert.id} alert={alert} />
+      ))}
+    </div>
+  );
+};
+
+export default StockAlertsPanel;
@@ -0,0 +1,51 @@
+import { useCurrency } from "@/hooks/use-currency";
+import type { TaxBreakdown } from "@/lib/tax";
+import { cn } from "@/lib/utils";
+
+interface TaxSummaryProps {
+  breakdown: TaxBreakdown;
+  className?: string;
+}
+
+const Row = ({ label, amount }: { label: string; amount: number }) => {
+  const { formatPrice } = useCurrency();
+  return (
+    <div className="flex justify-between">
+      <span>{label}</span>
+      <span className="tabular-nums">{formatPrice(amount)}</span>
+    </div>
+  );
+};
+
+/** Value before GST and the GST included in a total, split by rate and by CGST/SGST or IGST */
+const TaxSummary = ({ breakdown, className }: TaxSummaryProps) => {
+  const { formatPrice } = useCurrency();
+  if (breakdown.tax === 0) return null;
+
+  return (
+    <div className={cn("space-y-1 text-xs text-muted-foreground", className)}>
+      <Row label="Value excl. GST" amount={breakdown.taxable} />
+      {breakdown.byRate.map((entry) =>
+        breakdown.supply === "intra" ? (
+          <div key={entry.rate} className="space-y-1">
+            <Row label={`CGST @ ${entry.rate / 2}%`} amount={entry.cgst} />
+            <Row label={`SGST @ ${entry.rate / 2}%`} amount={entry.sgst} />
+          </div>
+        ) : (
+          <Row
+            key={entry.rate}
+            label={`${breakdown.supply === "inter" ? "IGST" : "GST"} @ ${entry.rate}%`}
+            amount={entry.tax}
+          />
+        )
+      )}
+      <div className="flex justify-between font-medium text-foreground">
+        <span>GST included</span>
+        <span className="tabular-nums">{formatPrice(breakdown.tax)}</span>
+      </div>
+      {breakdown.supply === null && <p>Split into CGST/SGST or IGST once a delivery address is chosen.</p>}
+    </div>
+  );
+};
+
+export default TaxSummary;
@@ -0,0 +1,78 @@
+import type { ReactNode } from "react";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { ProductVariant } from "@/lib/schemas";
+import { isOptionAvailable, isOptionOffered, type VariantAxis, type VariantOptions } from "@/lib/variants";
+
+interface VariantSelectorProps {
+  variants: ProductVariant[];
+  axes: VariantAxis[];
+  selection: VariantOptions;
+  onSelect: (axis: string, value: string) => void;
+  // Shown beside the size axis heading
+  sizeGuide?: ReactNode;
+}
+
+/**
+ * One row of choices per option axis. A value is disabled only when no
+ * variant has it at all. One that does not combine with the picks on the
+ * other axes is dimmed but selectable, and picking it clears those picks.
+ * Values whose variants are sold out are struck through and stay selectable
+ * so shoppers can ask to be notified.
+ */
+const VariantSelector = ({ variants, axes, selection, onSelect, sizeGuide }: VariantSelectorProps) => (
+  <div className="space-y-6">
+    {axes.map((axis) => (
+      <div key={axis.key} className="space-y-4">
+        <div className="flex justify-between items-center">
+          <Label className="text-sm font-medium uppercase tracking-wide">
+            Select {axis.label}
+            {selection[axis.key] && (
+              <span className="ml-2 normal-case tracking-normal text-muted-foreground">{selection[axis.key]}</span>
+            )}
+          </Label>
+          {axis.key === "size" && sizeGuide}
+        </div>
+        <RadioGroup
+          value={selection[axis.key] ?? ""}
+          onValueChange={(value) => onSelect(axis.key, value)}
+          className="flex flex-wrap gap-3"
+          aria-label={axis.label}
+        >
+          {axis.values.map((value) => {
+            const id = `${axis.key}-${value}`;
+            const exists = variants.some((variant) => variant.options[axis.key] === value);
+            const isOffered = isOptionOffered(variants, selection, axis.key, value);
+            const isSoldOut = isOffered && !isOptionAvailable(variants, selection, axis.key, value);
+            return (
+              <div key={value}>
+                <RadioGroupItem value={value} id={id} className="peer sr-only" disabled={!exists} />
+                <Label
+                  htmlFor={id}
+                  title={
+                    exists && !isOffered
+                      ? "Unavailable with current picks — select to change them"
+                      : isSoldOut
+                      ? "Sold out — select to get a restock alert"
+                      : undefined
+                  }
+                  className={`flex items-center justify-center min-w-14 h-14 px-3 border rounded-sm cursor-pointer transition-all
+                    ${!exists
+                      ? "opacity-50 cursor-not-allowed bg-secondary/50 border-transparent"
+                      : `border-border hover:border-primary peer-data-[state=checked]:bg-primary peer-data-[state=checked]:text-primary-foreground peer-data-[state=checked]:border-primary ${
+                          !isOffered ? "border-dashed text-muted-foreground" : isSoldOut ? "text-muted-foreground line-through" : ""
+                        }`
+                    }`}
+                >
+                  {value}
+                </Label>
+              </div>
+            );
+          })}
+        </RadioGroup>
+      </div>
+    ))}
+  </div>
+);
+
+export default VariantSelector;
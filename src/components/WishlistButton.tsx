@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+  productId: number;
+  productName: string;
+  // Icon only on product cards, labelled on the product page
+  showLabel?: boolean;
+  className?: string;
+}
+
+const WishlistButton = ({ productId, productName, showLabel = false, className }: WishlistButtonProps) => {
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const [busy, setBusy] = useState(false);
+  const saved = isInWishlist(productId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Product cards are links; the heart must not open the product
+    e.preventDefault();
+    e.stopPropagation();
+
+    setBusy(true);
+    const wasSaved = saved;
+    const success = await toggleWishlist(productId);
+    setBusy(false);
+
+    if (success) {
+      toast({
+        title: wasSaved ? "Removed from wishlist" : "Saved to wishlist",
+        description: wasSaved
+          ? `${productName} has been removed from your wishlist`
+          : `${productName} has been added to your wishlist`,
+      });
+    }
+  };
+
+  const label = saved ? "Remove from wishlist" : "Save to wishlist";
+
+  return (
+    <Button
+      type="button"
+      variant={showLabel ? "outline" : "ghost"}
+      size={showLabel ? "lg" : "icon"}
+      onClick={handleClick}
+      disabled={busy}
+      aria-label={label}
+      aria-pressed={saved}
+      title={showLabel ? undefined : label}
+      className={className}
+    >
+      <Heart className={cn("h-5 w-5", showLabel && "mr-2", saved && "fill-current text-red-500")} />
+      {showLabel && (saved ? "Saved to Wishlist" : "Add to Wishlist")}
+    </Button>
+  );
+};
+
+export default WishlistButton;
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Heart, Loader2, ShoppingBag, Trash2 } from "lucide-react";
+import PriceTag from "@/components/PriceTag";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProduct } from "@/hooks/use-catalog";
+import { toast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import type { ProductVariant, WishlistItem } from "@/lib/schemas";
+import { describeOptions, variantAxes } from "@/lib/variants";
+
+// e.g. "M / Navy / Slim"
+const variantLabel = (variant: ProductVariant) =>
+  describeOptions(variant)
+    .map((option) => option.value)
+    .join(" / ");
+
+const WishlistRow = ({ item }: { item: WishlistItem }) => {
+  const { moveToCart, removeFromWishlist } = useWishlist();
+  // Variants and their stock only come with the product detail
+  const { data: detail, isPending: detailLoading } = useProduct(item.product.id);
+  const [variantId, setVariantId] = useState("");
+  const [moving, setMoving] = useState(false);
+
+  const variants = detail?.variants ?? [];
+  const hasVariants = variants.length > 0;
+  const variant = variants.find((v) => String(v.id) === variantId);
+  // "Size" for size-only products, "Options" once colour or fit come in
+  const axes = variantAxes(variants);
+  const pickLabel = axes.length === 1 ? axes[0].label : "Options";
+  const stock = hasVariants ? variants.reduce((sum, v) => sum + v.stock, 0) : detail?.stock ?? item.product.stock;
+  const outOfStock = stock === 0;
+
+  const handleMoveToCart = async () => {
+    setMoving(true);
+    const success = await moveToCart(item.product.id, variant);
+    setMoving(false);
+
+    if (success) {
+      toast({
+        title: "Moved to bag",
+        description: `${item.product.name}${variant ? ` (${variantLabel(variant)})` : ""} has been added to your bag`,
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: "Failed to add item to your bag. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="flex gap-4 p-4">
+        <Link to={`/product/${item.product.id}`} className="flex-shrink-0">
+          <img
+            src={mediaUrl(item.product.image, PRODUCT_IMAGE_PLACEHOLDER)}
+            alt={item.product.name}
+            className="h-28 w-20 object-cover bg-secondary/20"
+          />
+        </Link>
+        <div className="flex min-w-0 flex-1 flex-col gap-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <Link to={`/product/${item.product.id}`} className="font-serif text-lg hover:underline">
+                {item.product.name}
+              </Link>
+              {item.product.category && (
+                <p className="text-xs uppercase tracking-wider text-muted-foreground">{item.product.category.name}</p>
+              )}
+              <PriceTag item={item.product} showPercentOff className="mt-1 font-medium" />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Remove ${item.product.name} from wishlist`}
+              onClick={() => removeFromWishlist(item.product.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="mt-auto flex flex-wrap items-center gap-2">
+            {hasVariants && (
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger className="h-9 min-w-32 w-auto">
+                  <SelectValue placeholder={pickLabel} />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map((option) => (
+                    <SelectItem key={option.id} value={String(option.id)} disabled={option.stock === 0}>
+                      {variantLabel(option)}
+                      {option.stock === 0 && " — sold out"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              size="sm"
+              className="h-9"
+              onClick={handleMoveToCart}
+              disabled={moving || detailLoading || outOfStock || (hasVariants && !variant)}
+            >
+              {moving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ShoppingBag className="mr-2 h-4 w-4" />
+              )}
+              {outOfStock ? "Out of Stock" : hasVariants && !variant ? `Select ${pickLabel}` : "Move to Bag"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+/** Saved products with move-to-bag, shown as a tab on the account page */
+const WishlistPanel = () => {
+  const { items, loading } = useWishlist();
+
+  if (loading && items.length === 0) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card className="border-dashed bg-secondary/5">
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <div className="w-16 h-16 bg-secondary/20 rounded-full flex items-center justify-center mb-4">
+            <Heart className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">Your wishlist is empty</h3>
+          <p className="text-muted-foreground text-center max-w-sm mb-6">
+            Tap the heart on any product to save it for later.
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/products">Browse Products</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      {items.map((item) => (
+        <WishlistRow key={item.id} item={item} />
+      ))}
+    </div>
+  );
+};
+
+export default WishlistPanel;
@@ -1,25 +1,12 @@
-import React, { createContext, useContext, useReducer, useCallback, useEffect } from "react";
-import { User, AuthTokens } from "@/lib/api";
-
-interface AuthState {
-  isAuthenticated: boolean;
-  user: User | null;
-  tokens: AuthTokens | null;
-  loading: boolean;
-  error: string | null;
-}
-
-interface AuthContextType extends AuthState {
-  // `remember` determines whether auth is persisted to localStorage (true)
-  // or to sessionStorage (false). If omitted, defaults to true.
-  login: (user: User, tokens: AuthTokens, remember?: boolean) => void;
-  logout: () => void;
-  setError: (error: string | null) => void;
-  clearError: () => void;
-  updateUser: (user: User) => void;
-}
-
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
+import React, { useReducer, useCallback, useEffect, useMemo, useRef } from "react";
+import { User, AuthTokens, verifyToken } from "@/lib/api";
+import { NetworkError } from "@/lib/errors";
+import { refreshSession, registerSessionStore } from "@/lib/http";
+import { getTokenExpiry, isTokenExpired } from "@/lib/jwt";
+import { queryClient, queryKeys } from "@/lib/queries";
+import { broadcast, subscribe } from "@/lib/sync";
+import { toast } from "@/hooks/use-toast";
+import { AuthContext, type AuthState } from "@/hooks/use-auth";
 
 type AuthAction =
   | { type: "LOGIN"; user: User; tokens: AuthTokens }
@@ -27,6 +14,7 @@ type AuthAction =
   | { type: "SET_ERROR"; error: string }
   | { type: "CLEAR_ERROR" }
   | { type: "UPDATE_USER"; user: User }
+  | { type: "REFRESH_TOKENS"; tokens: AuthTokens }
   | { type: "RESTORE_SESSION"; user: User; tokens: AuthTokens }
   | { type: "INIT_COMPLETE" };
 
@@ -38,6 +26,47 @@ const initialState: AuthState = {
   error: null,
 };
 
+// Access tokens this close to expiry are treated as expired
+const EXPIRY_SKEW_MS = 30_000;
+// Silent refresh runs this long before the access token expires
+const REFRESH_AHEAD_MS = 60_000;
+const REFRESH_JITTER_MS = 10_000;
+// Largest delay setTimeout accepts (~24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Storage helpers shared by local actions and changes received from other tabs
+
+function storeSession(user: User, tokens: AuthTokens, remember: boolean) {
+  const authData = { user, tokens };
+  try {
+    if (remember) {
+      localStorage.setItem("auth", JSON.stringify(authData));
+    } else {
+      // sessionStorage will be cleared when the browser/tab is closed
+      sessionStorage.setItem("auth", JSON.stringify(authData));
+    }
+  } catch (e) {
+    // Fallback to localStorage on quota errors — still attempt to log in
+    localStorage.setItem("auth", JSON.stringify(authData));
+  }
+}
+
+function clearStoredSession() {
+  localStorage.removeItem("auth");
+  sessionStorage.removeItem("auth");
+}
+
+// Patch the stored session in whichever storage currently holds it
+function updateStoredSession(patch: Partial<{ user: User; tokens: AuthTokens }>) {
+  for (const storage of [localStorage, sessionStorage]) {
+    const stored = storage.getItem("auth");
+    if (stored) {
+      storage.setItem("auth", JSON.stringify({ ...JSON.parse(stored), ...patch }));
+      return;
+    }
+  }
+}
+
 function authReducer(state: AuthState, action: AuthAction): AuthState {
   switch (action.type) {
     case "LOGIN":
@@ -72,6 +101,11 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         ...state,
         user: action.user,
       };
+    case "REFRESH_TOKENS":
+      return {
+        ...state,
+        tokens: action.tokens,
+      };
     case "RESTORE_SESSION":
       return {
         ...state,
@@ -93,58 +127,185 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  // Mirrors state.tokens so the HTTP client reads the latest tokens between renders
+  const tokensRef = useRef<AuthTokens | null>(null);
+  tokensRef.current = state.tokens;
+
+  const applyLogout = useCallback(() => {
+    tokensRef.current = null;
+    clearStoredSession();
+    // Manager data must not outlive the session that fetched it
+    queryClient.removeQueries({ queryKey: queryKeys.admin.all });
+    dispatch({ type: "LOGOUT" });
+  }, []);
+
+  const login = useCallback((user: User, tokens: AuthTokens, remember = true) => {
+    storeSession(user, tokens, remember);
+    dispatch({ type: "LOGIN", user, tokens });
+    broadcast({ type: "auth:login", user, tokens, remember });
+  }, []);
+
+  const logout = useCallback(() => {
+    applyLogout();
+    broadcast({ type: "auth:logout" });
+  }, [applyLogout]);
+
+  const expireSession = useCallback(() => {
+    if (!tokensRef.current) return;
+    logout();
+    toast({
+      title: "Session expired",
+      description: "Please sign in again to continue.",
+      variant: "destructive",
+    });
+  }, [logout]);
+
+  // Let the HTTP client read and refresh tokens, and end the session when the
+  // refresh token itself has expired. Registered before the session is
+  // restored so a restore-time refresh can write its tokens back.
+  useEffect(() => {
+    registerSessionStore({
+      getTokens: () => tokensRef.current,
+      setTokens: (tokens: AuthTokens) => {
+        tokensRef.current = tokens;
+        updateStoredSession({ tokens });
+        dispatch({ type: "REFRESH_TOKENS", tokens });
+        broadcast({ type: "auth:tokens", tokens });
+      },
+      onSessionExpired: expireSession,
+    });
+    return () => registerSessionStore(null);
+  }, [expireSession]);
 
   // Restore session from localStorage first (persistent), then sessionStorage.
   // This allows support for "remember me" (localStorage) and non-remembered
-  // sessions (sessionStorage).
+  // sessions (sessionStorage). Stored tokens are checked before the session
+  // counts as authenticated: an expired access token is refreshed, and an
+  // expired refresh token discards the session.
   useEffect(() => {
-    const restore = (raw: string | null) => {
-      if (!raw) return false;
+    let cancelled = false;
+
+    const read = (raw: string | null): { user: User; tokens: AuthTokens } | null => {
+      if (!raw) return null;
       try {
         const { user, tokens } = JSON.parse(raw);
-        if (user && tokens) {
-          dispatch({ type: "RESTORE_SESSION", user, tokens });
-          return true;
-        }
+        return user && tokens ? { user, tokens } : null;
       } catch {
-        // ignore
+        return null;
       }
-      return false;
     };
 
-    const local = localStorage.getItem("auth");
-    if (restore(local)) return;
+    const restore = async () => {
+      const stored = read(localStorage.getItem("auth")) || read(sessionStorage.getItem("auth"));
+      if (!stored) {
+        // No session found — mark initialization complete to set loading to false
+        dispatch({ type: "INIT_COMPLETE" });
+        return;
+      }
 
-    const session = sessionStorage.getItem("auth");
-    if (restore(session)) return;
+      const { user, tokens } = stored;
+      const accessUsable =
+        getTokenExpiry(tokens.access) === null
+          ? await verifyToken(tokens.access)
+          : !isTokenExpired(tokens.access, EXPIRY_SKEW_MS);
+      if (cancelled) return;
 
-    // No session found — mark initialization complete to set loading to false
-    dispatch({ type: "INIT_COMPLETE" });
-  }, []);
+      if (accessUsable) {
+        dispatch({ type: "RESTORE_SESSION", user, tokens });
+        return;
+      }
 
-  const login = useCallback((user: User, tokens: AuthTokens, remember = true) => {
-    const authData = { user, tokens };
-    try {
-      if (remember) {
-        localStorage.setItem("auth", JSON.stringify(authData));
-      } else {
-        // sessionStorage will be cleared when the browser/tab is closed
-        sessionStorage.setItem("auth", JSON.stringify(authData));
+      if (isTokenExpired(tokens.refresh)) {
+        clearStoredSession();
+        dispatch({ type: "INIT_COMPLETE" });
+        return;
       }
-    } catch (e) {
-      // Fallback to localStorage on quota errors — still attempt to log in
-      localStorage.setItem("auth", JSON.stringify(authData));
-    }
 
-    dispatch({ type: "LOGIN", user, tokens });
-  }, []);
+      tokensRef.current = tokens;
+      try {
+        const access = await refreshSession();
+        if (cancelled) return;
+        if (access && tokensRef.current) {
+          dispatch({ type: "RESTORE_SESSION", user, tokens: tokensRef.current });
+        } else {
+          tokensRef.current = null;
+          clearStoredSession();
+          dispatch({ type: "INIT_COMPLETE" });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        if (error instanceof NetworkError) {
+          // Offline: keep the session and let the next request refresh it
+          dispatch({ type: "RESTORE_SESSION", user, tokens });
+        } else {
+          tokensRef.current = null;
+          clearStoredSession();
+          dispatch({ type: "INIT_COMPLETE" });
+        }
+      }
+    };
 
-  const logout = useCallback(() => {
-    localStorage.removeItem("auth");
-    sessionStorage.removeItem("auth");
-    dispatch({ type: "LOGOUT" });
+    restore();
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  // Refresh the access token shortly before it expires so requests never have
+  // to wait on a 401 round trip
+  useEffect(() => {
+    const expiry = getTokenExpiry(state.tokens?.access);
+    if (expiry === null) return;
+
+    // Jitter keeps several open tabs from refreshing at the same instant
+    const delay = Math.max(expiry - Date.now() - REFRESH_AHEAD_MS - Math.random() * REFRESH_JITTER_MS, 0);
+    // Beyond what setTimeout can represent; the 401 refresh still covers it
+    if (delay > MAX_TIMER_MS) return;
+
+    const timer = window.setTimeout(async () => {
+      try {
+        const access = await refreshSession();
+        if (!access) expireSession();
+      } catch {
+        // Offline — retried on the next request or when new tokens arrive
+      }
+    }, delay);
+    return () => window.clearTimeout(timer);
+  }, [state.tokens, expireSession]);
+
+  // Apply auth changes made in other tabs without re-broadcasting them
+  useEffect(() => {
+    return subscribe((message) => {
+      switch (message.type) {
+        case "auth:login":
+          storeSession(message.user, message.tokens, message.remember);
+          tokensRef.current = message.tokens;
+          dispatch({ type: "LOGIN", user: message.user, tokens: message.tokens });
+          break;
+        case "auth:logout":
+          if (tokensRef.current) applyLogout();
+          break;
+        case "auth:user":
+          if (!tokensRef.current) break;
+          updateStoredSession({ user: message.user });
+          dispatch({ type: "UPDATE_USER", user: message.user });
+          break;
+        case "auth:tokens":
+          // A refresh in another tab may have rotated the refresh token
+          if (!tokensRef.current) break;
+          tokensRef.current = message.tokens;
+          updateStoredSession({ tokens: message.tokens });
+          dispatch({ type: "REFRESH_TOKENS", tokens: message.tokens });
+          break;
+      }
+    });
+  }, [applyLogout]);
+
+  const sessionExpiresAt = useMemo(
+    () => getTokenExpiry(state.tokens?.refresh) ?? getTokenExpiry(state.tokens?.access),
+    [state.tokens]
+  );
+
   const setError = useCallback((error: string | null) => {
     if (error) {
       dispatch({ type: "SET_ERROR", error });
@@ -159,27 +320,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const updateUser = useCallback((user: User) => {
     dispatch({ type: "UPDATE_USER", user });
-    // Update localStorage
-    const storedLocal = localStorage.getItem("auth");
-    if (storedLocal) {
-      const authData = JSON.parse(storedLocal);
-      authData.user = user;
-      localStorage.setItem("auth", JSON.stringify(authData));
-      return;
-    }
-
-    const storedSession = sessionStorage.getItem("auth");
-    if (storedSession) {
-      const authData = JSON.parse(storedSession);
-      authData.user = user;
-      sessionStorage.setItem("auth", JSON.stringify(authData));
-    }
+    updateStoredSession({ user });
+    broadcast({ type: "auth:user", user });
   }, []);
 
   return (
     <AuthContext.Provider
       value={{
         ...state,
+        sessionExpiresAt,
         login,
         logout,
         setError,
@@ -191,11 +340,3 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     </AuthContext.Provider>
   );
 }
-
-export function useAuth() {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error("useAuth must be used within an AuthProvider");
-  }
-  return context;
-}
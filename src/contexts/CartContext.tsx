@@ -1,39 +1,108 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { useAuth } from './AuthContext'
-
-export interface CartItem {
-  id: number
-  product: {
-    id: number
-    name: string
-    price: string
-    discounted_price: string
-    image?: string
+import React, { useState, useEffect, useRef, ReactNode } from 'react'
+import { apiFetch, type RequestOptions } from '@/lib/http'
+import { getCart, getPublicProductDetail } from '@/lib/api'
+import { NetworkError } from '@/lib/errors'
+import type { CartItem, ProductVariant } from '@/lib/schemas'
+import { getPricing, variantPrices } from '@/lib/pricing'
+import { queryClient, queryKeys } from '@/lib/queries'
+import { useAuth } from '@/hooks/use-auth'
+import { CartContext, type CartContextType } from '@/hooks/use-cart'
+import { toast } from '@/hooks/use-toast'
+import { broadcast, subscribe } from '@/lib/sync'
+
+// Anonymous cart lines also remember the stock seen when they were added so
+// quantity changes can be capped without another request
+interface GuestCartItem extends CartItem {
+  stock: number
+}
+
+const GUEST_CART_KEY = 'guest_cart'
+
+const loadGuestCart = (): GuestCartItem[] => {
+  try {
+    const raw = localStorage.getItem(GUEST_CART_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
   }
-  quantity: number
-  size?: string
 }
 
-interface CartContextType {
-  items: CartItem[]
-  loading: boolean
-  addToCart: (productId: number, quantity?: number, size?: string) => Promise<boolean>
-  updateQuantity: (itemId: number, quantity: number) => Promise<boolean>
-  removeFromCart: (itemId: number) => Promise<boolean>
-  clearCart: () => Promise<boolean>
-  fetchCart: () => Promise<void>
-  getTotalItems: () => number
-  getTotalPrice: () => number
+const saveGuestCart = (items: GuestCartItem[]) => {
+  if (items.length > 0) {
+    localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items))
+  } else {
+    localStorage.removeItem(GUEST_CART_KEY)
+  }
+  broadcast({ type: 'cart:changed' })
 }
 
-const CartContext = createContext<CartContextType | undefined>(undefined)
+// Every open tab sees the same login, so the guest cart merge is serialised
+// across tabs; later tabs then find the guest cart already emptied
+const withMergeLock = (task: () => Promise<void>): Promise<void> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request('guest-cart-merge', task)
+    : task()
+
+// Guest lines have negative ids so they never collide with server cart items
+const nextGuestId = (items: GuestCartItem[]) =>
+  Math.min(0, ...items.map(item => item.id)) - 1
+
+type LineKey = Pick<CartItem, 'size' | 'variant_id'>
+
+// Lines are told apart by variant; older lines only carry a size
+const sameLine = (a: LineKey, b: LineKey) =>
+  a.variant_id && b.variant_id
+    ? a.variant_id === b.variant_id
+    : (a.size || '') === (b.size || '')
 
-export const useCart = () => {
-  const context = useContext(CartContext)
-  if (context === undefined) {
-    throw new Error('useCart must be used within a CartProvider')
+// Product detail through the shared query cache, used for guest lines and
+// for stock checks while merging
+const fetchProduct = (productId: number) =>
+  queryClient
+    .fetchQuery({
+      queryKey: queryKeys.products.detail(productId),
+      queryFn: () => getPublicProductDetail(productId),
+    })
+    .then(response => response.data)
+
+// Stock available for a product, or for one of its variants when it has them
+const availableStock = (
+  product: { stock: number; variants?: Array<{ id: number; size: string; stock: number }> },
+  line: LineKey = {}
+) => {
+  if ((line.variant_id || line.size) && product.variants?.length) {
+    return product.variants.find(v => line.variant_id ? v.id === line.variant_id : v.size === line.size)?.stock ?? 0
   }
-  return context
+  return product.stock ?? 0
+}
+
+// What the server needs to identify the variant of a new line
+const variantBody = (line: LineKey) => ({
+  ...(line.variant_id && { variant_id: line.variant_id }),
+  ...(line.size && { size: line.size })
+})
+
+const lineKey = (variant?: ProductVariant): LineKey =>
+  variant ? { variant_id: variant.id, ...(variant.size && { size: variant.size }) } : {}
+
+// Rapid +/- clicks on one line are coalesced into a single request carrying
+// the final quantity
+const QUANTITY_DEBOUNCE_MS = 400
+
+interface PendingQuantity {
+  // Latest quantity requested by the shopper
+  quantity: number
+  // Last quantity the server accepted, restored if the update fails
+  confirmed: number
+  timer?: ReturnType<typeof setTimeout>
+  inFlight?: Promise<void>
+  waiters: Array<(ok: boolean) => void>
+}
+
+const readMessage = async (response: Response) => {
+  const data = await response.json().catch(() => ({}))
+  return data.status === 'error' || !response.ok ? (data.message || null) : null
 }
 
 interface CartProviderProps {
@@ -44,162 +113,315 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   const [items, setItems] = useState<CartItem[]>([])
   const [loading, setLoading] = useState(false)
   const { tokens, isAuthenticated } = useAuth()
+  const mergingRef = useRef(false)
+  const pendingQuantities = useRef(new Map<number, PendingQuantity>())
+  // Guest cart until there is a token to call the API with
+  const isGuest = !isAuthenticated || !tokens
+  // Latest fetchCart for listeners registered once
+  const fetchCartRef = useRef<() => Promise<void>>()
 
-  const apiCall = async (url: string, options: RequestInit = {}) => {
-    const response = await fetch(`http://localhost:8000/api/${url}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(tokens && { Authorization: `Bearer ${tokens.access}` }),
-        ...options.headers,
-      },
-    })
-    return response
+  const apiCall = async (url: string, options: RequestOptions = {}) => {
+    return apiFetch(`/${url}`, { ...options, token: tokens?.access })
   }
 
+  // Background refresh of the server cart; `loading` is reserved for the
+  // first load after sign-in so the drawer never blanks out mid-session
   const fetchCart = async () => {
-    if (!isAuthenticated || !tokens) {
-      setItems([])
+    if (isGuest) {
+      setItems(loadGuestCart())
       return
     }
 
     try {
-      setLoading(true)
-      const response = await apiCall('cart/')
-      
-      if (response.ok) {
-        const data = await response.json()
-        if (data.status === 'success') {
-          setItems(data.data.cart?.items || [])
-        } else {
-          console.error('Cart fetch error:', data.message)
-          setItems([])
-        }
-      } else if (response.status === 401) {
-        // Authentication failed, clear items
-        setItems([])
+      const data = await getCart(tokens.access)
+      if (data.status === 'success') {
+        // Lines with queued quantity changes keep their optimistic value
+        const serverItems = data.data.cart?.items || []
+        setItems(serverItems.map(item => {
+          const pending = pendingQuantities.current.get(item.id)
+          return pending ? { ...item, quantity: pending.quantity } : item
+        }))
       } else {
-        console.error('Cart fetch failed with status:', response.status)
+        console.error('Cart fetch error:', data.message)
         setItems([])
       }
     } catch (error) {
       console.error('Error fetching cart:', error)
-      setItems([])
-    } finally {
-      setLoading(false)
+      // Offline: keep showing the last known cart
+      if (!(error instanceof NetworkError)) setItems([])
     }
   }
 
-  const addToCart = async (productId: number, quantity: number = 1, size?: string): Promise<boolean> => {
-    if (!isAuthenticated || !tokens) {
+  const setLineQuantity = (itemId: number, quantity: number) => {
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, quantity } : item))
+  }
+
+  const showCartError = (description: string) => {
+    toast({ variant: 'destructive', title: 'Could not update your bag', description })
+  }
+
+  // Drop queued quantity changes for a line, e.g. when it is removed
+  const cancelPendingQuantity = (itemId: number) => {
+    const entry = pendingQuantities.current.get(itemId)
+    if (!entry) return
+    if (entry.timer) clearTimeout(entry.timer)
+    entry.waiters.splice(0).forEach(resolve => resolve(false))
+    pendingQuantities.current.delete(itemId)
+  }
+
+  const flushQuantity = (itemId: number) => {
+    const entry = pendingQuantities.current.get(itemId)
+    if (!entry) return
+
+    entry.timer = undefined
+    const quantity = entry.quantity
+    const waiters = entry.waiters.splice(0)
+    const previous = entry.inFlight
+
+    const request = (async () => {
+      // Keep updates for one line in order
+      await previous
+
+      let ok = false
+      let message: string | null = null
+      try {
+        const response = await apiCall(`cart/item/${itemId}/`, {
+          method: 'PUT',
+          body: { quantity }
+        })
+        message = await readMessage(response)
+        ok = response.ok && !message
+      } catch (error) {
+        message = (error as Error).message
+      }
+
+      if (ok) {
+        entry.confirmed = quantity
+        broadcast({ type: 'cart:changed' })
+      } else if (pendingQuantities.current.get(itemId) === entry) {
+        // Roll the line back and discard anything queued after this change
+        if (entry.timer) clearTimeout(entry.timer)
+        entry.timer = undefined
+        entry.quantity = entry.confirmed
+        setLineQuantity(itemId, entry.confirmed)
+        entry.waiters.splice(0).forEach(resolve => resolve(false))
+        showCartError(message || 'The quantity could not be changed. Please try again.')
+      }
+      waiters.forEach(resolve => resolve(ok))
+    })()
+
+    entry.inFlight = request
+    request.finally(() => {
+      if (entry.inFlight === request && !entry.timer) {
+        pendingQuantities.current.delete(itemId)
+      }
+    })
+  }
+
+  const addGuestItem = async (productId: number, quantity: number, variant?: ProductVariant): Promise<boolean> => {
+    try {
+      const product = await fetchProduct(productId)
+      const line = lineKey(variant)
+      const stock = availableStock(product, line)
+      const guestItems = loadGuestCart()
+      const existing = guestItems.find(item => item.product.id === productId && sameLine(item, line))
+      const desired = (existing?.quantity || 0) + quantity
+
+      if (stock <= 0 || (existing && existing.quantity >= stock)) {
+        return false
+      }
+
+      const prices = variantPrices(product, variant)
+      const next = existing
+        ? guestItems.map(item => item === existing ? { ...item, quantity: Math.min(desired, stock), stock } : item)
+        : [
+            ...guestItems,
+            {
+              id: nextGuestId(guestItems),
+              // A variant's own price replaces the product price and its discount
+              product: {
+                id: product.id,
+                name: product.name,
+                ...prices,
+                discounted_price: prices.discounted_price || '',
+                image: variant?.image || product.image,
+                category: product.category
+              },
+              quantity: Math.min(quantity, stock),
+              ...line,
+              ...(variant && { options: variant.options }),
+              stock
+            }
+          ]
+      saveGuestCart(next)
+      setItems(next)
+      return true
+    } catch (error) {
+      console.error('Error adding to guest cart:', error)
       return false
     }
+  }
+
+  const addToCart = async (productId: number, quantity: number = 1, variant?: ProductVariant): Promise<boolean> => {
+    if (isGuest) {
+      return addGuestItem(productId, quantity, variant)
+    }
+
+    // Bump an existing line right away; new lines need the server's item id
+    const line = lineKey(variant)
+    const existing = items.find(item => item.product.id === productId && sameLine(item, line))
+    // Skipped while the line has its own quantity change in flight
+    const bumped = !!existing && !pendingQuantities.current.has(existing.id)
+    if (bumped) {
+      setLineQuantity(existing.id, existing.quantity + quantity)
+    }
+    const rollback = () => {
+      if (bumped) {
+        setItems(prev => prev.map(item =>
+          item.id === existing.id ? { ...item, quantity: item.quantity - quantity } : item
+        ))
+      }
+    }
 
     try {
-      setLoading(true)
       const response = await apiCall('cart/add/', {
         method: 'POST',
-        body: JSON.stringify({
+        body: {
           product_id: productId,
           quantity,
-          ...(size && { size })
-        })
+          ...variantBody(line)
+        }
       })
       
       if (response.ok) {
         const data = await response.json()
         if (data.status === 'success') {
-          await fetchCart() // Refresh cart after adding
+          await fetchCart() // Pick up the server's line item
+          broadcast({ type: 'cart:changed' })
           return true
         } else {
           console.error('Add to cart error:', data.message)
+          rollback()
           return false
         }
       } else {
         const errorData = await response.json().catch(() => ({}))
         console.error('Add to cart failed:', errorData)
+        rollback()
         return false
       }
     } catch (error) {
       console.error('Error adding to cart:', error)
+      rollback()
       return false
-    } finally {
-      setLoading(false)
     }
   }
 
+  /**
+   * Update a line's quantity immediately and sync it to the server after a
+   * short pause. Resolves once the server has accepted or rejected the
+   * final quantity.
+   */
   const updateQuantity = async (itemId: number, quantity: number): Promise<boolean> => {
-    if (!isAuthenticated) {
-      return false
+    if (isGuest) {
+      const guestItems = loadGuestCart()
+      const target = guestItems.find(item => item.id === itemId)
+      if (!target || quantity < 1 || quantity > target.stock) {
+        return false
+      }
+      const next = guestItems.map(item => item.id === itemId ? { ...item, quantity } : item)
+      saveGuestCart(next)
+      setItems(next)
+      return true
     }
 
-    try {
-      setLoading(true)
-      const response = await apiCall(`cart/item/${itemId}/`, {
-        method: 'PUT',
-        body: JSON.stringify({ quantity })
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        if (data.status === 'success') {
-          await fetchCart() // Refresh cart after update
-          return true
-        }
-      }
-      return false
-    } catch (error) {
-      console.error('Error updating cart item:', error)
+    const current = items.find(item => item.id === itemId)
+    if (!current || quantity < 1) {
       return false
-    } finally {
-      setLoading(false)
     }
+
+    let entry = pendingQuantities.current.get(itemId)
+    if (!entry) {
+      entry = { quantity, confirmed: current.quantity, waiters: [] }
+      pendingQuantities.current.set(itemId, entry)
+    }
+    entry.quantity = quantity
+    setLineQuantity(itemId, quantity)
+
+    if (entry.timer) clearTimeout(entry.timer)
+    entry.timer = setTimeout(() => flushQuantity(itemId), QUANTITY_DEBOUNCE_MS)
+
+    const waiting = entry
+    return new Promise<boolean>(resolve => waiting.waiters.push(resolve))
   }
 
   const removeFromCart = async (itemId: number): Promise<boolean> => {
-    if (!isAuthenticated) {
+    if (isGuest) {
+      const next = loadGuestCart().filter(item => item.id !== itemId)
+      saveGuestCart(next)
+      setItems(next)
+      return true
+    }
+
+    const index = items.findIndex(item => item.id === itemId)
+    if (index === -1) {
       return false
     }
+    const removed = items[index]
+    cancelPendingQuantity(itemId)
+    setItems(prev => prev.filter(item => item.id !== itemId))
 
+    let message: string | null = null
     try {
-      setLoading(true)
       const response = await apiCall(`cart/item/${itemId}/`, {
         method: 'DELETE'
       })
-
-      if (response.ok) {
-        const data = await response.json()
-        if (data.status === 'success') {
-          await fetchCart() // Refresh cart after removal
-          return true
-        }
+      message = await readMessage(response)
+      if (response.ok && !message) {
+        broadcast({ type: 'cart:changed' })
+        return true
       }
-      return false
     } catch (error) {
-      console.error('Error removing from cart:', error)
-      return false
-    } finally {
-      setLoading(false)
+      message = (error as Error).message
     }
+
+    // Put the line back where it was
+    setItems(prev => prev.some(item => item.id === itemId)
+      ? prev
+      : [...prev.slice(0, index), removed, ...prev.slice(index)]
+    )
+    showCartError(message || `${removed.product.name} could not be removed. Please try again.`)
+    return false
   }
 
   const clearCart = async (): Promise<boolean> => {
-    if (!isAuthenticated) {
-      return false
+    if (isGuest) {
+      saveGuestCart([])
+      setItems([])
+      return true
     }
 
+    const snapshot = items
+    snapshot.forEach(item => cancelPendingQuantity(item.id))
+    setItems([])
+
+    let message: string | null = null
     try {
-      setLoading(true)
-      // Remove all items one by one
-      const promises = items.map(item => removeFromCart(item.id))
-      await Promise.all(promises)
-      return true
+      const response = await apiCall('cart/clear/', {
+        method: 'DELETE'
+      })
+      message = await readMessage(response)
+      if (response.ok && !message) {
+        broadcast({ type: 'cart:changed' })
+        return true
+      }
     } catch (error) {
-      console.error('Error clearing cart:', error)
-      return false
-    } finally {
-      setLoading(false)
+      message = (error as Error).message
     }
+
+    setItems(snapshot)
+    showCartError(message || 'Your bag could not be cleared. Please try again.')
+    return false
   }
 
   const getTotalItems = (): number => {
@@ -208,19 +430,99 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
 
   const getTotalPrice = (): number => {
     return items.reduce((total, item) => {
-      const price = parseFloat(item.product.discounted_price || item.product.price)
-      return total + (price * item.quantity)
+      return total + (getPricing(item.product).price * item.quantity)
     }, 0)
   }
 
-  // Fetch cart when user authentication changes
+  /**
+   * Move the anonymous cart into the server cart after sign-in. Quantities
+   * are capped so the merged line never exceeds current stock; each guest
+   * line is dropped from storage once handled so a failure part-way through
+   * can resume without adding anything twice.
+   */
+  const mergeGuestCart = async () => {
+    if (loadGuestCart().length === 0 || mergingRef.current) return
+    mergingRef.current = true
+
+    let adjusted = 0
+    try {
+      await withMergeLock(async () => {
+        // Re-read under the lock: another tab may have merged it already
+        let guestItems = loadGuestCart()
+        if (guestItems.length === 0) return
+
+        const data = await getCart(tokens?.access).catch(() => null)
+        const serverItems = data?.data.cart?.items || []
+
+        for (const guestItem of [...guestItems]) {
+          const inCart = serverItems
+            .filter(item => item.product.id === guestItem.product.id && sameLine(item, guestItem))
+            .reduce((sum, item) => sum + item.quantity, 0)
+
+          let stock = guestItem.stock
+          try {
+            stock = availableStock(await fetchProduct(guestItem.product.id), guestItem)
+          } catch {
+            // Fall back to the stock seen when the item was added
+          }
+
+          const quantity = Math.min(guestItem.quantity, stock - inCart)
+          if (quantity < guestItem.quantity) adjusted++
+
+          if (quantity > 0) {
+            const addResponse = await apiCall('cart/add/', {
+              method: 'POST',
+              body: {
+                product_id: guestItem.product.id,
+                quantity,
+                ...variantBody(guestItem)
+              }
+            })
+            if (!addResponse.ok && quantity === guestItem.quantity) adjusted++
+          }
+
+          guestItems = guestItems.filter(item => item.id !== guestItem.id)
+          saveGuestCart(guestItems)
+        }
+      })
+    } catch (error) {
+      console.error('Error merging guest cart:', error)
+    } finally {
+      mergingRef.current = false
+    }
+
+    if (adjusted > 0) {
+      toast({
+        title: 'Bag updated',
+        description: `${adjusted} item${adjusted > 1 ? 's' : ''} from your bag ${adjusted > 1 ? 'were' : 'was'} reduced or removed to match available stock.`
+      })
+    }
+  }
+
+  // Load the cart when the user signs in or out. Token refreshes keep the
+  // same session, so they don't trigger a reload.
   useEffect(() => {
-    if (isAuthenticated && tokens) {
-      fetchCart()
+    pendingQuantities.current.forEach((_, itemId) => cancelPendingQuantity(itemId))
+    if (isGuest) {
+      setItems(loadGuestCart())
     } else {
-      setItems([])
+      setLoading(true)
+      mergeGuestCart()
+        .then(fetchCart)
+        .finally(() => setLoading(false))
     }
-  }, [isAuthenticated, tokens])
+  }, [isGuest])
+
+  fetchCartRef.current = fetchCart
+
+  // Another tab changed the cart (or the guest cart in localStorage)
+  useEffect(() => {
+    return subscribe(message => {
+      if (message.type === 'cart:changed') {
+        fetchCartRef.current?.()
+      }
+    })
+  }, [])
 
   const value: CartContextType = {
     items,
@@ -0,0 +1,47 @@
+import React, { useState, useEffect, ReactNode } from 'react'
+import { CurrencyContext, type CurrencyContextType } from '@/hooks/use-currency'
+import { formatMoney, isCurrencyCode, SETTLEMENT_CURRENCY, type CurrencyCode } from '@/lib/money'
+import { broadcast, subscribe } from '@/lib/sync'
+
+const CURRENCY_KEY = 'display_currency'
+
+const loadCurrency = (): CurrencyCode => {
+  try {
+    const saved = localStorage.getItem(CURRENCY_KEY)
+    return isCurrencyCode(saved) ? saved : SETTLEMENT_CURRENCY
+  } catch {
+    return SETTLEMENT_CURRENCY
+  }
+}
+
+interface CurrencyProviderProps {
+  children: ReactNode
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(loadCurrency)
+
+  const setCurrency = (next: CurrencyCode) => {
+    setCurrencyState(next)
+    localStorage.setItem(CURRENCY_KEY, next)
+    broadcast({ type: 'currency:changed', currency: next })
+  }
+
+  // Keep every open tab showing the same currency
+  useEffect(() => {
+    return subscribe(message => {
+      if (message.type === 'currency:changed') {
+        setCurrencyState(message.currency)
+      }
+    })
+  }, [])
+
+  const value: CurrencyContextType = {
+    currency,
+    setCurrency,
+    isConverted: currency !== SETTLEMENT_CURRENCY,
+    formatPrice: (amountInInr) => formatMoney(amountInInr, currency)
+  }
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>
+}
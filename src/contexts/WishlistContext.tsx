@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useRef, ReactNode } from 'react'
+import { useAuth } from '@/hooks/use-auth'
+import { useCart } from '@/hooks/use-cart'
+import { apiFetch, type RequestOptions } from '@/lib/http'
+import { getPublicProductDetail, getWishlist } from '@/lib/api'
+import { NetworkError } from '@/lib/errors'
+import type { ProductVariant, WishlistItem } from '@/lib/schemas'
+import { queryClient, queryKeys } from '@/lib/queries'
+import { toast } from '@/hooks/use-toast'
+import { WishlistContext, type WishlistContextType } from '@/hooks/use-wishlist'
+import { broadcast, subscribe } from '@/lib/sync'
+
+const GUEST_WISHLIST_KEY = 'guest_wishlist'
+
+const loadGuestWishlist = (): WishlistItem[] => {
+  try {
+    const raw = localStorage.getItem(GUEST_WISHLIST_KEY)
+    const parsed = raw ? JSON.parse(raw) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+const saveGuestWishlist = (items: WishlistItem[]) => {
+  if (items.length > 0) {
+    localStorage.setItem(GUEST_WISHLIST_KEY, JSON.stringify(items))
+  } else {
+    localStorage.removeItem(GUEST_WISHLIST_KEY)
+  }
+  broadcast({ type: 'wishlist:changed' })
+}
+
+// Serialised across tabs like the guest cart merge
+const withMergeLock = (task: () => Promise<void>): Promise<void> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request('guest-wishlist-merge', task)
+    : task()
+
+// Guest entries have negative ids so they never collide with server ones
+const nextGuestId = (items: WishlistItem[]) =>
+  Math.min(0, ...items.map(item => item.id)) - 1
+
+const fetchProduct = (productId: number) =>
+  queryClient
+    .fetchQuery({
+      queryKey: queryKeys.products.detail(productId),
+      queryFn: () => getPublicProductDetail(productId),
+    })
+    .then(response => response.data)
+
+const readMessage = async (response: Response) => {
+  const data = await response.json().catch(() => ({}))
+  return data.status === 'error' || !response.ok ? (data.message || null) : null
+}
+
+interface WishlistProviderProps {
+  children: ReactNode
+}
+
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const [items, setItems] = useState<WishlistItem[]>([])
+  const [loading, setLoading] = useState(false)
+  // Hearts the shopper toggled whose request is still in flight
+  const [pending, setPending] = useState<Record<number, boolean>>({})
+  const { tokens, isAuthenticated } = useAuth()
+  const { addToCart } = useCart()
+  const mergingRef = useRef(false)
+  const hasSession = isAuthenticated && !!tokens
+  // Latest handlers for effects that only rerun when the session starts or ends
+  const fetchWishlistRef = useRef<() => Promise<void>>()
+  const mergeGuestWishlistRef = useRef<() => Promise<void>>()
+
+  const apiCall = async (url: string, options: RequestOptions = {}) => {
+    return apiFetch(`/${url}`, { ...options, token: tokens?.access })
+  }
+
+  const fetchWishlist = async () => {
+    if (!isAuthenticated || !tokens) {
+      setItems(loadGuestWishlist())
+      return
+    }
+
+    try {
+      const data = await getWishlist(tokens.access)
+      setItems(data.data.items)
+    } catch (error) {
+      console.error('Error fetching wishlist:', error)
+      // Offline: keep showing the last known wishlist
+      if (!(error instanceof NetworkError)) setItems([])
+    }
+  }
+
+  const setPendingState = (productId: number, saved?: boolean) => {
+    setPending(prev => {
+      const next = { ...prev }
+      if (saved === undefined) {
+        delete next[productId]
+      } else {
+        next[productId] = saved
+      }
+      return next
+    })
+  }
+
+  const showWishlistError = (description: string) => {
+    toast({ variant: 'destructive', title: 'Could not update your wishlist', description })
+  }
+
+  const isInWishlist = (productId: number): boolean => {
+    if (productId in pending) return pending[productId]
+    return items.some(item => item.product.id === productId)
+  }
+
+  const addGuestItem = async (productId: number): Promise<boolean> => {
+    try {
+      const product = await fetchProduct(productId)
+      const guestItems = loadGuestWishlist()
+      if (guestItems.some(item => item.product.id === productId)) {
+        setItems(guestItems)
+        return true
+      }
+
+      const next = [
+        ...guestItems,
+        {
+          id: nextGuestId(guestItems),
+          product: {
+            id: product.id,
+            name: product.name,
+            price: product.price,
+            discounted_price: product.discounted_price,
+            category: product.category,
+            image: product.image,
+            stock: product.stock
+          },
+          added_at: new Date().toISOString()
+        }
+      ]
+      saveGuestWishlist(next)
+      setItems(next)
+      return true
+    } catch (error) {
+      console.error('Error adding to guest wishlist:', error)
+      showWishlistError('The item could not be saved. Please try again.')
+      return false
+    }
+  }
+
+  const addToWishlist = async (productId: number): Promise<boolean> => {
+    if (!isAuthenticated || !tokens) {
+      return addGuestItem(productId)
+    }
+    if (items.some(item => item.product.id === productId)) {
+      return true
+    }
+
+    // Fill the heart straight away; the entry itself arrives with the refetch
+    setPendingState(productId, true)
+    let message: string | null = null
+    try {
+      const response = await apiCall('wishlist/add/', {
+        method: 'POST',
+        body: { product_id: productId }
+      })
+      message = await readMessage(response)
+      if (response.ok && !message) {
+        await fetchWishlist()
+        broadcast({ type: 'wishlist:changed' })
+        return true
+      }
+    } catch (error) {
+      message = (error as Error).message
+    } finally {
+      setPendingState(productId)
+    }
+
+    showWishlistError(message || 'The item could not be saved. Please try again.')
+    return false
+  }
+
+  const removeFromWishlist = async (productId: number): Promise<boolean> => {
+    if (!isAuthenticated || !tokens) {
+      const next = loadGuestWishlist().filter(item => item.product.id !== productId)
+      saveGuestWishlist(next)
+      setItems(next)
+      return true
+    }
+
+    const index = items.findIndex(item => item.product.id === productId)
+    if (index === -1) {
+      return true
+    }
+    const removed = items[index]
+    setItems(prev => prev.filter(item => item.product.id !== productId))
+
+    let message: string | null = null
+    try {
+      const response = await apiCall(`wishlist/product/${productId}/`, {
+        method: 'DELETE'
+      })
+      message = await readMessage(response)
+      if (response.ok && !message) {
+        broadcast({ type: 'wishlist:changed' })
+        return true
+      }
+    } catch (error) {
+      message = (error as Error).message
+    }
+
+    // Put the entry back where it was
+    setItems(prev => prev.some(item => item.product.id === productId)
+      ? prev
+      : [...prev.slice(0, index), removed, ...prev.slice(index)]
+    )
+    showWishlistError(message || `${removed.product.name} could not be removed. Please try again.`)
+    return false
+  }
+
+  const toggleWishlist = (productId: number): Promise<boolean> =>
+    isInWishlist(productId) ? removeFromWishlist(productId) : addToWishlist(productId)
+
+  /**
+   * Add one of the product to the bag, as `variant` when it has variants, and
+   * drop it from the wishlist once the bag has accepted it.
+   */
+  const moveToCart = async (productId: number, variant?: ProductVariant): Promise<boolean> => {
+    const added = await addToCart(productId, 1, variant)
+    if (!added) {
+      return false
+    }
+    await removeFromWishlist(productId)
+    return true
+  }
+
+  /**
+   * Save the anonymous wishlist to the account after sign-in. Each guest
+   * entry is dropped from storage once saved so a failure part-way through
+   * can resume without saving anything twice; entries the server refused
+   * stay for the next sign-in.
+   */
+  const mergeGuestWishlist = async () => {
+    if (loadGuestWishlist().length === 0 || mergingRef.current) return
+    mergingRef.current = true
+    let failed = 0
+
+    try {
+      await withMergeLock(async () => {
+        // Re-read under the lock: another tab may have merged it already
+        let guestItems = loadGuestWishlist()
+        if (guestItems.length === 0) return
+
+        const data = await getWishlist(tokens?.access).catch(() => null)
+        const savedIds = new Set((data?.data.items || []).map(item => item.product.id))
+
+        for (const guestItem of [...guestItems]) {
+          if (!savedIds.has(guestItem.product.id)) {
+            const response = await apiCall('wishlist/add/', {
+              method: 'POST',
+              body: { product_id: guestItem.product.id }
+            }).catch(() => null)
+            if (!response?.ok) {
+              failed++
+              continue
+            }
+          }
+          guestItems = guestItems.filter(item => item.id !== guestItem.id)
+          saveGuestWishlist(guestItems)
+        }
+      })
+    } catch (error) {
+      console.error('Error merging guest wishlist:', error)
+    } finally {
+      mergingRef.current = false
+    }
+
+    if (failed > 0) {
+      toast({
+        title: 'Wishlist not fully saved',
+        description: `${failed} item${failed > 1 ? 's' : ''} could not be added to your account yet. We'll try again next time you sign in.`
+      })
+    }
+  }
+
+  // Load the wishlist when the user signs in or out
+  useEffect(() => {
+    setPending({})
+    if (hasSession) {
+      setLoading(true)
+      mergeGuestWishlistRef.current()
+        .then(() => fetchWishlistRef.current())
+        .finally(() => setLoading(false))
+    } else {
+      setItems(loadGuestWishlist())
+    }
+  }, [hasSession])
+
+  fetchWishlistRef.current = fetchWishlist
+  mergeGuestWishlistRef.current = mergeGuestWishlist
+
+  // Another tab changed the wishlist (or the guest wishlist in localStorage)
+  useEffect(() => {
+    return subscribe(message => {
+      if (message.type === 'wishlist:changed') {
+        fetchWishlistRef.current?.()
+      }
+    })
+  }, [])
+
+  const value: WishlistContextType = {
+    items,
+    loading,
+    isInWishlist,
+    addToWishlist,
+    removeFromWishlist,
+    toggleWishlist,
+    moveToCart,
+    fetchWishlist
+  }
+
+  return (
+    <WishlistContext.Provider value={value}>
+      {children}
+    </WishlistContext.Provider>
+  )
+}
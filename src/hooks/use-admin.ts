@@ -0,0 +1,391 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getAdminDashboardStats,
+  getAdminSalesChart,
+  getAdminOrders,
+  updateAdminOrder,
+  getCourierPartners,
+  getAdminProducts,
+  createAdminProduct,
+  updateAdminProduct,
+  updateProductVariants,
+  updateProductImages,
+  getStockAlertDemand,
+  deleteAdminProduct,
+  getAdminCategories,
+  getAdminAllCategories,
+  getCategoryAttributes,
+  adminListUsers,
+  adminUpdateUser,
+  adminDeleteUser,
+  registerUser,
+  adminGetReviews,
+  adminGetReviewStatistics,
+  adminApproveReview,
+  adminRejectReview,
+  adminDeleteReview,
+  getAdminCoupons,
+  createAdminCoupon,
+  updateAdminCoupon,
+  type AdminCouponInput,
+  type ProductSaleInput,
+  type ProductVariantInput,
+} from "@/lib/api";
+import {
+  queryKeys,
+  type AdminOrderFilters,
+  type AdminProductFilters,
+  type AdminReviewFilters,
+} from "@/lib/queries";
+
+// Admin endpoints all need a token; queries wait until one is available
+function useAccessToken() {
+  const { tokens } = useAuth();
+  return tokens?.access || "";
+}
+
+// ============================================================================
+// Dashboard
+// ============================================================================
+
+export function useAdminDashboardStats() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.stats(),
+    queryFn: () => getAdminDashboardStats(access),
+    select: (res) => res.data,
+    enabled: !!access,
+  });
+}
+
+export function useAdminSalesChart() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.salesChart(),
+    queryFn: () => getAdminSalesChart(access),
+    select: (res) => res.data,
+    enabled: !!access,
+  });
+}
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+export function useAdminOrders(filters: AdminOrderFilters = {}) {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.orders.list(filters),
+    queryFn: () => getAdminOrders(access, filters.status, filters.limit, filters.offset),
+    select: (res) => res.data,
+    enabled: !!access,
+  });
+}
+
+export function useCourierPartners() {
+  return useQuery({
+    queryKey: queryKeys.courierPartners,
+    queryFn: getCourierPartners,
+    select: (res) => (res.status === "success" ? res.data : []),
+    staleTime: Infinity,
+  });
+}
+
+export function useUpdateAdminOrder() {
+  const access = useAccessToken();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (vars: { id: number; status: string; awbNumber?: string; courierPartner?: string }) =>
+      updateAdminOrder(access, vars.id, vars.status, vars.awbNumber, vars.courierPartner),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.stats() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.salesChart() });
+    },
+  });
+}
+
+// ============================================================================
+// Products
+// ============================================================================
+
+export interface AdminProductInput {
+  // Updates the product when set, creates a new one otherwise
+  id?: number | null;
+  name: string;
+  description: string;
+  price: number;
+  stock: number;
+  categoryId: number | null;
+  attributes: Record<number, string>;
+  sale: ProductSaleInput;
+  variants: ProductVariantInput[];
+  // Full photo list in display order; omitted when the photos are unchanged
+  images?: Array<{ id?: number; file?: File }>;
+  primaryImageIndex?: number;
+}
+
+export function useAdminProducts(filters: AdminProductFilters = {}) {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.products.list(filters),
+    queryFn: () => getAdminProducts(access, filters.category, filters.search, filters.limit, filters.offset),
+    select: (res) => res.data,
+    enabled: !!access,
+  });
+}
+
+// Product changes show up in the storefront, admin lists and dashboard totals
+function useInvalidateProducts() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.products.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.stats() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    // Restocking notifies waiting shoppers and clears their alerts
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.stockAlertDemand() });
+  };
+}
+
+/**
+ * Create or update a product, then save its variants and photos. Resolves
+ * to the product id and how many back-in-stock subscribers the restock
+ * notified.
+ */
+export function useSaveAdminProduct() {
+  const access = useAccessToken();
+  const invalidateProducts = useInvalidateProducts();
+  return useMutation({
+    mutationFn: async (input: AdminProductInput) => {
+      let productId = input.id;
+      if (productId) {
+        await updateAdminProduct(
+          access,
+          productId,
+          {
+            name: input.name,
+            description: input.description,
+            price: input.price,
+            stock: input.stock,
+            category_id: input.categoryId,
+          },
+          undefined,
+          input.attributes,
+          input.sale
+        );
+      } else {
+        const result = await createAdminProduct(
+          access,
+          input.name,
+          input.description,
+          input.price,
+          input.stock,
+          input.categoryId,
+          undefined,
+          input.attributes,
+          input.sale
+        );
+        productId = result.data.id;
+      }
+
+      let notified = 0;
+      if (input.variants.length > 0 && productId) {
+        notified = await updateProductVariants(access, productId, input.variants);
+      }
+      if (input.images && productId) {
+        await updateProductImages(access, productId, input.images, input.primaryImageIndex ?? 0);
+      }
+      return { productId, notified };
+    },
+    onSettled: invalidateProducts,
+  });
+}
+
+/** Waiting shoppers per sold-out product and variant */
+export function useAdminStockAlertDemand() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.stockAlertDemand(),
+    queryFn: () => getStockAlertDemand(access),
+    select: (res) => res.data.demand,
+    enabled: !!access,
+  });
+}
+
+export function useDeleteAdminProduct() {
+  const access = useAccessToken();
+  const invalidateProducts = useInvalidateProducts();
+  return useMutation({
+    mutationFn: (id: number) => deleteAdminProduct(access, id),
+    onSettled: invalidateProducts,
+  });
+}
+
+// ============================================================================
+// Categories
+// ============================================================================
+
+export function useAdminCategories() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.categories.list(),
+    queryFn: () => getAdminCategories(access),
+    select: (res) => res.data || [],
+    enabled: !!access,
+  });
+}
+
+export function useAdminAllCategories() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.categories.listAll(),
+    queryFn: () => getAdminAllCategories(access),
+    select: (res) => res.data || [],
+    enabled: !!access,
+  });
+}
+
+export function useAdminCategoryAttributes(categoryId: number | undefined) {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.categories.attributes(categoryId ?? 0),
+    queryFn: () => getCategoryAttributes(access, categoryId as number),
+    select: (res) => res.data.attributes || [],
+    enabled: !!access && !!categoryId,
+  });
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+export function useAdminUsers() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.users.list(),
+    queryFn: () => adminListUsers(access),
+    select: (res) => res.data || [],
+    enabled: !!access,
+  });
+}
+
+function useInvalidateUsers() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.users.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.stats() });
+  };
+}
+
+export function useCreateAdminUser() {
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (vars: { username: string; email: string; password: string; role: "customer" | "manager" }) =>
+      registerUser(vars.username, vars.email, vars.password, vars.role),
+    onSettled: invalidateUsers,
+  });
+}
+
+export function useUpdateAdminUser() {
+  const access = useAccessToken();
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (vars: { id: number; updates: Record<string, unknown> }) =>
+      adminUpdateUser(access, vars.id, vars.updates),
+    onSettled: invalidateUsers,
+  });
+}
+
+export function useDeleteAdminUser() {
+  const access = useAccessToken();
+  const invalidateUsers = useInvalidateUsers();
+  return useMutation({
+    mutationFn: (id: number) => adminDeleteUser(access, id),
+    onSettled: invalidateUsers,
+  });
+}
+
+// ============================================================================
+// Coupons
+// ============================================================================
+
+export function useAdminCoupons() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.coupons.list(),
+    queryFn: () => getAdminCoupons(access),
+    select: (res) => res.data.coupons,
+    enabled: !!access,
+  });
+}
+
+function useInvalidateCoupons() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.coupons.all });
+  };
+}
+
+/** Create a coupon, or update it when an id is given */
+export function useSaveAdminCoupon() {
+  const access = useAccessToken();
+  const invalidateCoupons = useInvalidateCoupons();
+  return useMutation({
+    mutationFn: (vars: { id?: number | null; coupon: AdminCouponInput }) =>
+      vars.id ? updateAdminCoupon(access, vars.id, vars.coupon) : createAdminCoupon(access, vars.coupon),
+    onSettled: invalidateCoupons,
+  });
+}
+
+export function useSetAdminCouponActive() {
+  const access = useAccessToken();
+  const invalidateCoupons = useInvalidateCoupons();
+  return useMutation({
+    mutationFn: (vars: { id: number; isActive: boolean }) =>
+      updateAdminCoupon(access, vars.id, { is_active: vars.isActive }),
+    onSettled: invalidateCoupons,
+  });
+}
+
+// ============================================================================
+// Reviews
+// ============================================================================
+
+export function useAdminReviews(filters: AdminReviewFilters = {}) {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.reviews.list(filters),
+    queryFn: () => adminGetReviews(access, filters),
+    enabled: !!access,
+  });
+}
+
+export function useAdminReviewStats() {
+  const access = useAccessToken();
+  return useQuery({
+    queryKey: queryKeys.admin.reviews.stats(),
+    queryFn: () => adminGetReviewStatistics(access),
+    enabled: !!access,
+    meta: { silent: true },
+  });
+}
+
+export type ReviewModeration = "approve" | "reject" | "delete";
+
+const moderateReview = {
+  approve: adminApproveReview,
+  reject: adminRejectReview,
+  delete: adminDeleteReview,
+};
+
+export function useModerateReview() {
+  const access = useAccessToken();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (vars: { id: number; action: ReviewModeration }) => moderateReview[vars.action](access, vars.id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.admin.reviews.all });
+    },
+  });
+}
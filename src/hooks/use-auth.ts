@@ -0,0 +1,34 @@
+import { createContext, useContext } from "react";
+import type { AuthTokens, User } from "@/lib/api";
+
+export interface AuthState {
+  isAuthenticated: boolean;
+  user: User | null;
+  tokens: AuthTokens | null;
+  loading: boolean;
+  error: string | null;
+}
+
+export interface AuthContextType extends AuthState {
+  // When the session can no longer be refreshed (refresh token expiry, or the
+  // access token's when the refresh token has no readable expiry), in epoch ms
+  sessionExpiresAt: number | null;
+  // `remember` determines whether auth is persisted to localStorage (true)
+  // or to sessionStorage (false). If omitted, defaults to true.
+  login: (user: User, tokens: AuthTokens, remember?: boolean) => void;
+  logout: () => void;
+  setError: (error: string | null) => void;
+  clearError: () => void;
+  updateUser: (user: User) => void;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/** Signed-in user and session; needs an AuthProvider above it */
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
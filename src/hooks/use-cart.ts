@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import type { CartItem, ProductVariant } from "@/lib/schemas";
+
+export interface CartContextType {
+  items: CartItem[];
+  loading: boolean;
+  addToCart: (productId: number, quantity?: number, variant?: ProductVariant) => Promise<boolean>;
+  updateQuantity: (itemId: number, quantity: number) => Promise<boolean>;
+  removeFromCart: (itemId: number) => Promise<boolean>;
+  clearCart: () => Promise<boolean>;
+  fetchCart: () => Promise<void>;
+  getTotalItems: () => number;
+  getTotalPrice: () => number;
+}
+
+export const CartContext = createContext<CartContextType | undefined>(undefined);
+
+/** Cart of the shopper, kept locally for guests; needs a CartProvider above it */
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
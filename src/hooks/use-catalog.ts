@@ -0,0 +1,105 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  getPublicProducts,
+  getPublicProductDetail,
+  getPublicCategories,
+  getPublicCategoryAttributes,
+  getPopularSearches,
+  getCategorySizeChart,
+} from "@/lib/api";
+import { queryKeys, type ProductListFilters } from "@/lib/queries";
+
+/**
+ * Storefront product list. Keeps the previous page on screen while the next
+ * filter combination loads.
+ */
+export function useProducts(filters: ProductListFilters) {
+  return useQuery({
+    queryKey: queryKeys.products.list(filters),
+    queryFn: () =>
+      getPublicProducts(
+        filters.page,
+        filters.limit,
+        filters.categoryId,
+        filters.search,
+        filters.attributeFilters,
+        filters.minPrice,
+        filters.maxPrice,
+        filters.sort,
+        filters.onSale
+      ),
+    select: (response) => response.data,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useProduct(id: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(id ?? 0),
+    queryFn: () => getPublicProductDetail(id as number),
+    select: (response) => response.data,
+    enabled: !!id,
+    meta: { silent: true },
+  });
+}
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories.list(),
+    queryFn: getPublicCategories,
+    select: (response) => response.data.categories || [],
+    staleTime: 5 * 60_000,
+  });
+}
+
+export function useCategoryAttributes(categoryId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.categories.attributes(categoryId ?? 0),
+    queryFn: () => getPublicCategoryAttributes(categoryId as number),
+    select: (response) => response.data.attributes || [],
+    enabled: !!categoryId,
+    staleTime: 5 * 60_000,
+  });
+}
+
+const SUGGESTION_LIMIT = 5;
+// Shorter terms match too much of the catalog to be useful
+export const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
+/**
+ * Products for the search typeahead. Shares the product list cache, and
+ * failures stay quiet because submitting the search still works.
+ */
+export function useProductSuggestions(query: string) {
+  const filters = { page: 1, limit: SUGGESTION_LIMIT, search: query };
+  return useQuery({
+    queryKey: queryKeys.products.list(filters),
+    queryFn: () => getPublicProducts(filters.page, filters.limit, undefined, filters.search),
+    select: (response) => response.data.products,
+    enabled: query.length >= MIN_SUGGESTION_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    meta: { silent: true },
+  });
+}
+
+export function usePopularSearches() {
+  return useQuery({
+    queryKey: queryKeys.popularSearches,
+    queryFn: () => getPopularSearches(),
+    select: (response) => response.data.queries,
+    staleTime: 30 * 60_000,
+    retry: false,
+    meta: { silent: true },
+  });
+}
+
+/** A category's size chart; resolves to null when the category has none */
+export function useSizeChart(categoryId: number | undefined) {
+  return useQuery({
+    queryKey: queryKeys.categories.sizeChart(categoryId ?? 0),
+    queryFn: () => getCategorySizeChart(categoryId as number),
+    select: (response) => response.data.size_chart,
+    enabled: !!categoryId,
+    staleTime: 5 * 60_000,
+  });
+}
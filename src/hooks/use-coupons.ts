@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useCart } from "@/hooks/use-cart";
+import { validateCoupon } from "@/lib/api";
+import { queryKeys } from "@/lib/queries";
+
+/**
+ * Price a promo code against the cart. Checked again whenever lines or
+ * quantities change, since minimum spend and category coupons depend on them.
+ */
+export function useCouponQuote(code: string | null) {
+  const { tokens, user } = useAuth();
+  const { items } = useCart();
+  const cart = items.map((item) => `${item.id}x${item.quantity}`).join(",");
+  return useQuery({
+    queryKey: queryKeys.couponQuote(user?.id ?? 0, code ?? "", cart),
+    queryFn: () => validateCoupon(tokens?.access as string, code as string),
+    select: (response) => response.data.coupon,
+    enabled: !!code && !!tokens?.access && !!user && items.length > 0,
+    // The promo code field explains rejections itself
+    meta: { silent: true },
+  });
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import type { CurrencyCode } from "@/lib/money";
+
+export interface CurrencyContextType {
+  currency: CurrencyCode;
+  setCurrency: (currency: CurrencyCode) => void;
+  // True when prices are converted estimates rather than what is charged
+  isConverted: boolean;
+  // A rupee amount in the shopper's currency
+  formatPrice: (amountInInr: number | string | null | undefined) => string;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+/** Display currency chosen by the shopper; needs a CurrencyProvider above it */
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "wheel"] as const;
+// Shared across tabs so activity in one admin tab keeps the others alive too
+const LAST_ACTIVITY_KEY = "admin_last_activity";
+// Activity is recorded at most this often to keep storage writes cheap
+const ACTIVITY_THROTTLE_MS = 5_000;
+const TICK_MS = 1_000;
+
+interface IdleTimerOptions {
+  enabled: boolean;
+  // Total inactivity allowed before `onIdle` runs
+  timeoutMs: number;
+  // How long before the timeout the warning starts
+  warningMs: number;
+  onIdle: () => void;
+}
+
+function readLastActivity() {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
+/**
+ * Tracks user inactivity. Once the warning window is reached, ordinary
+ * activity no longer resets the timer — only `reset()` (or activity recorded
+ * by another tab) does, so a stray mouse movement cannot dismiss the warning.
+ */
+export function useIdleTimer({ enabled, timeoutMs, warningMs, onIdle }: IdleTimerOptions) {
+  const [remainingMs, setRemainingMs] = useState(timeoutMs);
+  const lastActivityRef = useRef(Date.now());
+  const warningRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  const record = useCallback(() => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+    try {
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    } catch {
+      // Storage unavailable — this tab still tracks its own activity
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    warningRef.current = false;
+    record();
+    setRemainingMs(timeoutMs);
+  }, [record, timeoutMs]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Opening the page counts as activity
+    warningRef.current = false;
+    record();
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      if (warningRef.current) return;
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastRecorded < ACTIVITY_THROTTLE_MS) return;
+      lastRecorded = now;
+      record();
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== LAST_ACTIVITY_KEY) return;
+      const stored = readLastActivity();
+      if (stored && stored > lastActivityRef.current) lastActivityRef.current = stored;
+    };
+
+    let fired = false;
+    const tick = () => {
+      const remaining = lastActivityRef.current + timeoutMs - Date.now();
+      warningRef.current = remaining <= warningMs;
+      setRemainingMs(Math.max(remaining, 0));
+      if (remaining <= 0 && !fired) {
+        fired = true;
+        onIdleRef.current();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    window.addEventListener("storage", handleStorage);
+    const interval = window.setInterval(tick, TICK_MS);
+    tick();
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      window.removeEventListener("storage", handleStorage);
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, record]);
+
+  return {
+    isWarning: enabled && remainingMs <= warningMs,
+    remainingMs,
+    reset,
+  };
+}
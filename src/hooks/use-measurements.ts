@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getMeasurements, saveMeasurements } from "@/lib/api";
+import { queryKeys } from "@/lib/queries";
+import type { BodyMeasurements } from "@/lib/schemas";
+
+/** Body measurements saved to the signed-in shopper's profile */
+export function useMeasurements() {
+  const { tokens, user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.measurements(user?.id ?? 0),
+    queryFn: () => getMeasurements(tokens?.access as string),
+    select: (response) => response.data.measurements,
+    enabled: !!tokens?.access && !!user,
+    meta: { silent: true },
+  });
+}
+
+export function useSaveMeasurements() {
+  const { tokens, user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (measurements: BodyMeasurements) => saveMeasurements(tokens?.access || "", measurements),
+    onSuccess: (_, measurements) => {
+      queryClient.setQueryData(queryKeys.measurements(user?.id ?? 0), {
+        status: "success",
+        data: { measurements },
+      });
+    },
+  });
+}
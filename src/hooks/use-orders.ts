@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getOrders } from "@/lib/api";
+import { queryKeys } from "@/lib/queries";
+
+/** Orders of the signed-in shopper */
+export function useOrders() {
+  const { tokens, user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.orders(user?.id ?? 0),
+    queryFn: () => getOrders(tokens?.access as string),
+    select: (response) => response.data.orders,
+    enabled: !!tokens?.access && !!user,
+    // Orders are placed outside the query cache, so refetch on every visit
+    staleTime: 0,
+  });
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigationType, type Location } from "react-router-dom";
+
+// Scroll offsets by history entry key, kept for the lifetime of the tab
+const positions = new Map<string, number>();
+
+/**
+ * Puts the window back where it was when the user returns to a history entry
+ * with Back/Forward. Content that loads asynchronously is not tall enough to
+ * scroll into straight away, so restoring waits until `ready` is true.
+ */
+export function useScrollRestoration(ready: boolean) {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  // Compared by identity: returning to the same entry twice yields a new location
+  const [restored, setRestored] = useState<Location | null>(null);
+  const pendingRestore = navigationType === "POP" && restored !== location;
+
+  useEffect(() => {
+    // The browser would restore before our content is rendered
+    const previous = window.history.scrollRestoration;
+    window.history.scrollRestoration = "manual";
+    return () => {
+      window.history.scrollRestoration = previous;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Layout shifts while waiting to restore must not overwrite the saved offset
+    if (pendingRestore) return;
+    const key = location.key;
+    const save = () => positions.set(key, window.scrollY);
+    save();
+    window.addEventListener("scroll", save, { passive: true });
+    return () => window.removeEventListener("scroll", save);
+  }, [location.key, pendingRestore]);
+
+  useEffect(() => {
+    if (!pendingRestore || !ready) return;
+    setRestored(location);
+    window.scrollTo(0, positions.get(location.key) ?? 0);
+  }, [location, pendingRestore, ready]);
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { createStockAlert, deleteStockAlert, getStockAlerts } from "@/lib/api";
+import { queryKeys } from "@/lib/queries";
+
+/** Back-in-stock alerts of the signed-in shopper */
+export function useStockAlerts() {
+  const { tokens, user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.stockAlerts(user?.id ?? 0),
+    queryFn: () => getStockAlerts(tokens?.access as string),
+    select: (response) => response.data.alerts,
+    enabled: !!tokens?.access && !!user,
+  });
+}
+
+/** Subscribe to a restock; guests pass the email to notify */
+export function useCreateStockAlert() {
+  const { tokens, user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alert: { productId: number; variantId?: number; email?: string }) =>
+      createStockAlert(tokens?.access, {
+        product_id: alert.productId,
+        ...(alert.variantId && { variant_id: alert.variantId }),
+        ...(alert.email && { email: alert.email }),
+      }),
+    onSuccess: () => {
+      if (user) queryClient.invalidateQueries({ queryKey: queryKeys.stockAlerts(user.id) });
+    },
+  });
+}
+
+export function useDeleteStockAlert() {
+  const { tokens, user } = useAuth();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alertId: number) => deleteStockAlert(tokens?.access || "", alertId),
+    onSettled: () => {
+      if (user) queryClient.invalidateQueries({ queryKey: queryKeys.stockAlerts(user.id) });
+    },
+  });
+}
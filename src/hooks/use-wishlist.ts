@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { ProductVariant, WishlistItem } from "@/lib/schemas";
+
+export interface WishlistContextType {
+  items: WishlistItem[];
+  loading: boolean;
+  isInWishlist: (productId: number) => boolean;
+  addToWishlist: (productId: number) => Promise<boolean>;
+  removeFromWishlist: (productId: number) => Promise<boolean>;
+  toggleWishlist: (productId: number) => Promise<boolean>;
+  moveToCart: (productId: number, variant?: ProductVariant) => Promise<boolean>;
+  fetchWishlist: () => Promise<void>;
+}
+
+export const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+/** Saved products of the shopper, kept locally for guests; needs a WishlistProvider above it */
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+};
@@ -1,9 +1,50 @@
 /**
  * API Service Layer
- * Handles all authentication-related API calls to the backend
+ * Handles all authentication-related API calls to the backend. Responses the
+ * UI renders from are validated against `lib/schemas.ts` before returning.
  */
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000/api";
+import { ApiError, type FieldErrors } from "@/lib/errors";
+import { apiFetch, apiRequest } from "@/lib/http";
+import {
+  parseResponse,
+  authResponseSchema,
+  adminUsersResponseSchema,
+  dashboardStatsResponseSchema,
+  salesChartResponseSchema,
+  productListResponseSchema,
+  featuredProductsResponseSchema,
+  productDetailResponseSchema,
+  categoriesResponseSchema,
+  categoryAttributesResponseSchema,
+  popularSearchesResponseSchema,
+  sizeChartResponseSchema,
+  measurementsResponseSchema,
+  cartResponseSchema,
+  ordersResponseSchema,
+  couponQuoteResponseSchema,
+  adminCouponsResponseSchema,
+  wishlistResponseSchema,
+  stockAlertsResponseSchema,
+  stockAlertDemandResponseSchema,
+  reviewsResponseSchema,
+  reviewStatsSchema,
+  adminReviewsResponseSchema,
+  adminReviewStatsSchema,
+  adminOrdersResponseSchema,
+  adminOrderDetailResponseSchema,
+  courierPartnersResponseSchema,
+  adminProductsResponseSchema,
+  adminProductDetailResponseSchema,
+  adminCategoriesResponseSchema,
+  adminAllCategoriesResponseSchema,
+  profileResponseSchema,
+  addressesResponseSchema,
+  type ApiEnvelope,
+  type BodyMeasurements,
+  type CouponType,
+  type SizeChart,
+} from "@/lib/schemas";
 
 export interface AuthTokens {
   access: string;
@@ -30,6 +71,7 @@ export interface AuthResponse {
 export interface ErrorResponse {
   status: string;
   message: string;
+  errors?: FieldErrors;
 }
 
 /**
@@ -41,81 +83,37 @@ export async function registerUser(
   password: string,
   role: "customer" | "manager" = "customer"
 ): Promise<AuthResponse> {
-  const response = await fetch(`${API_BASE_URL}/register/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+  const body = await apiRequest(
+    "/register/",
+    {
+      method: "POST",
+      credentials: "include",
+      body: {
+        username,
+        email,
+        password,
+        role,
+      },
     },
-    credentials: "include",
-    body: JSON.stringify({
-      username,
-      email,
-      password,
-      role,
-    }),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Registration failed");
-  }
-
-  return response.json();
+    "Registration failed"
+  );
+  return parseResponse(authResponseSchema, body, "POST /register/");
 }
 
 /**
  * Admin user management (manager-only endpoints)
  */
 export async function adminListUsers(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/users/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch users' }));
-    throw new Error(err.message || 'Failed to fetch users');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/users/", { token: accessToken }, "Failed to fetch users");
+  return parseResponse(adminUsersResponseSchema, body, "GET /admin/users/");
 }
 
 export async function adminUpdateUser(accessToken: string, id: number, body: Record<string, any>) {
-  const response = await fetch(`${API_BASE_URL}/admin/users/${id}/`, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update user' }));
-    throw new Error(err.message || 'Failed to update user');
-  }
-
-  return response.json();
+  return apiRequest(`/admin/users/${id}/`, { method: "PUT", token: accessToken, body }, "Failed to update user");
 }
 
 export async function adminDeleteUser(accessToken: string, id: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/users/${id}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete user' }));
-    throw new Error(err.message || 'Failed to delete user');
-  }
-
-  return response.json();
+  return apiRequest(`/admin/users/${id}/`, { method: "DELETE", token: accessToken }, "Failed to delete user");
 }
 
 /**
@@ -125,24 +123,19 @@ export async function loginUser(
   username: string,
   password: string
 ): Promise<AuthResponse> {
-  const response = await fetch(`${API_BASE_URL}/login/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+  const body = await apiRequest(
+    "/login/",
+    {
+      method: "POST",
+      credentials: "include",
+      body: {
+        username,
+        password,
+      },
     },
-    credentials: "include",
-    body: JSON.stringify({
-      username,
-      password,
-    }),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Login failed");
-  }
-
-  return response.json();
+    "Login failed"
+  );
+  return parseResponse(authResponseSchema, body, "POST /login/");
 }
 
 /**
@@ -162,21 +155,11 @@ export async function resetPassword(
     body.username = usernameOrEmail;
   }
 
-  const response = await fetch(`${API_BASE_URL}/reset-password/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    credentials: "include",
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Password reset failed");
-  }
-
-  return response.json();
+  return apiRequest<AuthResponse>(
+    "/reset-password/",
+    { method: "POST", credentials: "include", body },
+    "Password reset failed"
+  );
 }
 
 /**
@@ -184,12 +167,11 @@ export async function resetPassword(
  */
 export async function verifyToken(token: string): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/verify-token/`, {
+    // Sent as a plain header rather than `token` so a 401 is reported as
+    // "invalid" instead of triggering a refresh.
+    const response = await apiFetch("/verify-token/", {
       method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
+      headers: { Authorization: `Bearer ${token}` },
     });
 
     return response.ok;
@@ -204,21 +186,16 @@ export async function verifyToken(token: string): Promise<boolean> {
 export async function refreshAccessToken(
   refreshToken: string
 ): Promise<{ access: string }> {
-  const response = await fetch(`${API_BASE_URL}/token/refresh/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+  return apiRequest<{ access: string }>(
+    "/token/refresh/",
+    {
+      method: "POST",
+      body: {
+        refresh: refreshToken,
+      },
     },
-    body: JSON.stringify({
-      refresh: refreshToken,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error("Token refresh failed");
-  }
-
-  return response.json();
+    "Token refresh failed"
+  );
 }
 
 /**
@@ -239,21 +216,7 @@ export async function requestPasswordResetOTP(
     body.username = usernameOrEmail;
   }
 
-  const response = await fetch(`${API_BASE_URL}/request-otp/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    credentials: "include",
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Failed to request OTP");
-  }
-
-  return response.json();
+  return apiRequest("/request-otp/", { method: "POST", credentials: "include", body }, "Failed to request OTP");
 }
 
 /**
@@ -271,21 +234,7 @@ export async function verifyPasswordOTP(
     body.username = usernameOrEmail;
   }
 
-  const response = await fetch(`${API_BASE_URL}/verify-otp/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    credentials: "include",
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Invalid or expired OTP");
-  }
-
-  return response.json();
+  return apiRequest("/verify-otp/", { method: "POST", credentials: "include", body }, "Invalid or expired OTP");
 }
 
 /**
@@ -304,21 +253,7 @@ export async function resetPasswordWithOTP(
     body.username = usernameOrEmail;
   }
 
-  const response = await fetch(`${API_BASE_URL}/reset-password-otp/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    credentials: "include",
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json();
-    throw new Error(error.message || "Password reset failed");
-  }
-
-  return response.json();
+  return apiRequest("/reset-password-otp/", { method: "POST", credentials: "include", body }, "Password reset failed");
 }
 
 /**
@@ -328,40 +263,19 @@ export async function checkUsername(
   username: string
 ): Promise<{ available: boolean }>
 {
-  const url = `${API_BASE_URL}/check-username/?username=${encodeURIComponent(username)}`;
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const error: ErrorResponse = await response.json().catch(() => ({ status: 'error', message: 'Failed to check username' } as ErrorResponse));
-    throw new Error(error.message || "Username check failed");
-  }
-
-  return response.json();
+  return apiRequest(
+    `/check-username/?username=${encodeURIComponent(username)}`,
+    {},
+    "Username check failed"
+  );
 }
 
 /**
  * Admin Dashboard Stats
  */
 export async function getAdminDashboardStats(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/dashboard/stats/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch stats' }));
-    throw new Error(err.message || 'Failed to fetch stats');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/dashboard/stats/", { token: accessToken }, "Failed to fetch stats");
+  return parseResponse(dashboardStatsResponseSchema, body, "GET /admin/dashboard/stats/");
 }
 
 /**
@@ -378,20 +292,8 @@ export async function getAdminOrders(
   params.append('limit', limit.toString());
   params.append('offset', offset.toString());
 
-  const response = await fetch(`${API_BASE_URL}/admin/orders/?${params.toString()}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch orders' }));
-    throw new Error(err.message || 'Failed to fetch orders');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/admin/orders/?${params.toString()}`, { token: accessToken }, "Failed to fetch orders");
+  return parseResponse(adminOrdersResponseSchema, body, "GET /admin/orders/");
 }
 
 /**
@@ -410,135 +312,70 @@ export async function getAdminProducts(
   params.append('limit', limit.toString());
   params.append('offset', offset.toString());
 
-  const response = await fetch(`${API_BASE_URL}/admin/products/?${params.toString()}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch products' }));
-    throw new Error(err.message || 'Failed to fetch products');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/admin/products/?${params.toString()}`, { token: accessToken }, "Failed to fetch products");
+  return parseResponse(adminProductsResponseSchema, body, "GET /admin/products/");
 }
 
 /**
  * Admin Sales Chart Data
  */
 export async function getAdminSalesChart(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/sales-chart/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch chart data' }));
-    throw new Error(err.message || 'Failed to fetch chart data');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/sales-chart/", { token: accessToken }, "Failed to fetch chart data");
+  return parseResponse(salesChartResponseSchema, body, "GET /admin/sales-chart/");
 }
 
 /**
  * Admin Categories CRUD
  */
 export async function getAdminCategories(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch categories' }));
-    throw new Error(err.message || 'Failed to fetch categories');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/categories/", { token: accessToken }, "Failed to fetch categories");
+  return parseResponse(adminCategoriesResponseSchema, body, "GET /admin/categories/");
 }
 
 export async function getAdminAllCategories(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories-all/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch categories' }));
-    throw new Error(err.message || 'Failed to fetch categories');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/categories-all/", { token: accessToken }, "Failed to fetch categories");
+  return parseResponse(adminAllCategoriesResponseSchema, body, "GET /admin/categories-all/");
 }
 
 export async function createAdminCategory(accessToken: string, name: string, description: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({ name, description }),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to create category' }));
-    throw new Error(err.message || 'Failed to create category');
-  }
-
-  return response.json();
+  return apiRequest(
+    "/admin/categories/",
+    { method: "POST", token: accessToken, body: { name, description } },
+    "Failed to create category"
+  );
 }
 
 export async function updateAdminCategory(accessToken: string, id: number, name: string, description: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/${id}/`, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({ name, description }),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update category' }));
-    throw new Error(err.message || 'Failed to update category');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/admin/categories/${id}/`,
+    { method: "PUT", token: accessToken, body: { name, description } },
+    "Failed to update category"
+  );
 }
 
 export async function deleteAdminCategory(accessToken: string, id: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/${id}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete category' }));
-    throw new Error(err.message || 'Failed to delete category');
-  }
-
-  return response.json();
+  return apiRequest(`/admin/categories/${id}/`, { method: "DELETE", token: accessToken }, "Failed to delete category");
 }
 
 /**
  * Admin Products CRUD
  */
+
+/** Promotion fields of the admin product form; nulls clear them */
+export interface ProductSaleInput {
+  sale_price: number | null;
+  // ISO timestamps; no start means now, no end runs until removed
+  sale_starts_at: string | null;
+  sale_ends_at: string | null;
+}
+
+// FormData has no null, so cleared fields go as empty strings
+function appendSaleFields(formData: FormData, sale: ProductSaleInput) {
+  formData.append('sale_price', sale.sale_price != null ? sale.sale_price.toString() : '');
+  formData.append('sale_starts_at', sale.sale_starts_at ?? '');
+  formData.append('sale_ends_at', sale.sale_ends_at ?? '');
+}
+
 export async function createAdminProduct(
   accessToken: string,
   name: string,
@@ -547,7 +384,8 @@ export async function createAdminProduct(
   stock: number,
   category_id: number | null,
   image?: File,
-  attributes?: Record<number, string>
+  attributes?: Record<number, string>,
+  sale?: ProductSaleInput
 ) {
   const formData = new FormData();
   formData.append('name', name);
@@ -556,7 +394,8 @@ export async function createAdminProduct(
   formData.append('stock', stock.toString());
   if (category_id) formData.append('category_id', category_id.toString());
   if (image) formData.append('image', image);
-  
+  if (sale) appendSaleFields(formData, sale);
+
   // Add attributes with attr_ prefix
   if (attributes) {
     console.log('=== DEBUG: createAdminProduct API ===');
@@ -574,20 +413,11 @@ export async function createAdminProduct(
     console.log('No attributes provided to API');
   }
 
-  const response = await fetch(`${API_BASE_URL}/admin/products/create/`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to create product' }));
-    throw new Error(err.message || 'Failed to create product');
-  }
-
-  return response.json();
+  return apiRequest<ApiEnvelope<{ id: number }>>(
+    "/admin/products/create/",
+    { method: "POST", token: accessToken, body: formData },
+    "Failed to create product"
+  );
 }
 
 export async function updateAdminProduct(
@@ -595,14 +425,16 @@ export async function updateAdminProduct(
   id: number,
   updates: Record<string, any>,
   image?: File,
-  attributes?: Record<number, string>
+  attributes?: Record<number, string>,
+  sale?: ProductSaleInput
 ) {
   const formData = new FormData();
   Object.keys(updates).forEach((key) => {
     formData.append(key, updates[key]);
   });
   if (image) formData.append('image', image);
-  
+  if (sale) appendSaleFields(formData, sale);
+
   // Add attributes with attr_ prefix
   if (attributes) {
     Object.entries(attributes).forEach(([attrId, value]) => {
@@ -612,142 +444,170 @@ export async function updateAdminProduct(
     });
   }
 
-  const response = await fetch(`${API_BASE_URL}/admin/products/${id}/`, {
-    method: "PUT",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update product' }));
-    throw new Error(err.message || 'Failed to update product');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/admin/products/${id}/`,
+    { method: "PUT", token: accessToken, body: formData },
+    "Failed to update product"
+  );
 }
 
+/**
+ * Admin product with its images, variants and attributes
+ */
 export async function getAdminProductDetail(accessToken: string, id: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/products/${id}/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch product' }));
-    throw new Error(err.message || 'Failed to fetch product');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/admin/products/${id}/`, { token: accessToken }, "Failed to fetch product");
+  return parseResponse(adminProductDetailResponseSchema, body, "GET /admin/products/:id/");
 }
 
 export async function deleteAdminProduct(accessToken: string, id: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/products/${id}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete product' }));
-    throw new Error(err.message || 'Failed to delete product');
-  }
-
-  return response.json();
+  return apiRequest(`/admin/products/${id}/`, { method: "DELETE", token: accessToken }, "Failed to delete product");
 }
 
 /**
  * Admin Orders Detail
  */
 export async function getAdminOrderDetail(accessToken: string, id: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/orders/${id}/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch order' }));
-    throw new Error(err.message || 'Failed to fetch order');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/admin/orders/${id}/`, { token: accessToken }, "Failed to fetch order");
+  return parseResponse(adminOrderDetailResponseSchema, body, "GET /admin/orders/:id/");
 }
 
 export async function updateAdminOrder(accessToken: string, id: number, status: string, awbNumber?: string, courierPartner?: string) {
   const body: any = { status };
-  
+
   if (awbNumber) {
     body.awb_number = awbNumber;
   }
   if (courierPartner) {
     body.courier_partner = courierPartner;
   }
-  
-  const response = await fetch(`${API_BASE_URL}/admin/orders/${id}/`, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(body),
-  });
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update order' }));
-    throw new Error(err.message || 'Failed to update order');
-  }
+  const data = await apiRequest<ApiEnvelope<unknown>>(
+    `/admin/orders/${id}/`,
+    { method: "PUT", token: accessToken, body },
+    "Failed to update order"
+  );
 
-  const data = await response.json();
-  
   // Check if the API returned an error in the response body
   if (data.status === 'error') {
-    throw new Error(data.message || 'Failed to update order');
+    throw new ApiError(data.message || 'Failed to update order', { status: 200, code: data.status });
   }
 
   return data;
 }
 
 export async function getCourierPartners() {
-  const response = await fetch(`${API_BASE_URL}/orders/courier-partners/`);
+  const body = await apiRequest("/orders/courier-partners/", {}, "Failed to fetch courier partners");
+  return parseResponse(courierPartnersResponseSchema, body, "GET /orders/courier-partners/");
+}
 
-  if (!response.ok) {
-    throw new Error('Failed to fetch courier partners');
-  }
+/**
+ * Cart of the signed-in user
+ */
+export async function getCart(accessToken: string) {
+  const body = await apiRequest("/cart/", { token: accessToken }, "Failed to fetch cart");
+  return parseResponse(cartResponseSchema, body, "GET /cart/");
+}
+
+/**
+ * Products the signed-in user saved to their wishlist
+ */
+export async function getWishlist(accessToken: string) {
+  const body = await apiRequest("/wishlist/", { token: accessToken }, "Failed to load wishlist");
+  return parseResponse(wishlistResponseSchema, body, "GET /wishlist/");
+}
+
+/**
+ * Back-in-stock alerts the signed-in user subscribed to
+ */
+export async function getStockAlerts(accessToken: string) {
+  const body = await apiRequest("/stock-alerts/", { token: accessToken }, "Failed to load stock alerts");
+  return parseResponse(stockAlertsResponseSchema, body, "GET /stock-alerts/");
+}
+
+/**
+ * Ask to be emailed when a product, or one of its variants, is back in
+ * stock. Guests pass the address to notify; signed-in users get their
+ * account email.
+ */
+export async function createStockAlert(
+  accessToken: string | undefined,
+  alert: { product_id: number; variant_id?: number; email?: string }
+) {
+  return apiRequest(
+    "/stock-alerts/",
+    { method: "POST", token: accessToken, body: alert },
+    "Failed to set up the stock alert"
+  );
+}
+
+export async function deleteStockAlert(accessToken: string, alertId: number) {
+  return apiRequest(
+    `/stock-alerts/${alertId}/`,
+    { method: "DELETE", token: accessToken },
+    "Failed to remove the stock alert"
+  );
+}
+
+/**
+ * Orders placed by the signed-in user
+ */
+export async function getOrders(accessToken: string) {
+  const body = await apiRequest("/orders/", { token: accessToken }, "Failed to load orders");
+  return parseResponse(ordersResponseSchema, body, "GET /orders/");
+}
 
-  return response.json();
+/**
+ * Check a promo code against the signed-in shopper's cart. Rejections
+ * (unknown, expired, below the minimum spend, already used, no items in
+ * the coupon's category) come back as a ValidationError whose `code`
+ * field error explains why.
+ */
+export async function validateCoupon(accessToken: string, code: string) {
+  const body = await apiRequest(
+    "/coupons/validate/",
+    { method: "POST", token: accessToken, body: { code } },
+    "Could not apply this code"
+  );
+  return parseResponse(couponQuoteResponseSchema, body, "POST /coupons/validate/");
 }
 
 /**
  * Public Products API (no auth required)
  */
+/** Storefront orderings the product list endpoint accepts as `sort` */
+export type ProductSort =
+  | "price_asc"
+  | "price_desc"
+  | "newest"
+  | "best_selling"
+  | "top_rated"
+  | "most_reviewed"
+  | "discount_desc";
+
 export async function getPublicProducts(
-  page = 1, 
-  limit = 12, 
-  categoryId?: number, 
-  search?: string, 
+  page = 1,
+  limit = 12,
+  categoryId?: number,
+  search?: string,
   attributeFilters?: Record<number, string>,
   minPrice?: string,
-  maxPrice?: string
+  maxPrice?: string,
+  sort?: ProductSort,
+  onSale?: boolean
 ) {
   const params = new URLSearchParams({
     page: page.toString(),
     limit: limit.toString(),
   });
-  
+
   if (categoryId) params.append('category_id', categoryId.toString());
   if (search) params.append('search', search);
   if (minPrice && minPrice.trim()) params.append('min_price', minPrice.trim());
   if (maxPrice && maxPrice.trim()) params.append('max_price', maxPrice.trim());
-  
+  if (sort) params.append('sort', sort);
+  // Only products whose sale price is live right now
+  if (onSale) params.append('on_sale', 'true');
+
   // Add attribute filters (e.g., attr_1=Long Sleeve&attr_2=Cotton)
   if (attributeFilters) {
     Object.entries(attributeFilters).forEach(([attrId, value]) => {
@@ -757,139 +617,191 @@ export async function getPublicProducts(
     });
   }
 
-  const response = await fetch(`${API_BASE_URL}/products/?${params.toString()}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch products' }));
-    throw new Error(err.message || 'Failed to fetch products');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/products/?${params.toString()}`, {}, "Failed to fetch products");
+  return parseResponse(productListResponseSchema, body, "GET /products/");
 }
 
 export async function getFeaturedProducts(limit = 8) {
-  const response = await fetch(`${API_BASE_URL}/products/featured/?limit=${limit}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch featured products' }));
-    throw new Error(err.message || 'Failed to fetch featured products');
-  }
+  const body = await apiRequest(`/products/featured/?limit=${limit}`, {}, "Failed to fetch featured products");
+  return parseResponse(featuredProductsResponseSchema, body, "GET /products/featured/");
+}
 
-  return response.json();
+/**
+ * Public: Most searched storefront terms, most popular first
+ */
+export async function getPopularSearches(limit = 5) {
+  const body = await apiRequest(`/products/search/popular/?limit=${limit}`, {}, "Failed to fetch popular searches");
+  return parseResponse(popularSearchesResponseSchema, body, "GET /products/search/popular/");
 }
 
 export async function getPublicCategories() {
-  const response = await fetch(`${API_BASE_URL}/products/categories/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch categories' }));
-    throw new Error(err.message || 'Failed to fetch categories');
-  }
-
-  return response.json();
+  const body = await apiRequest("/products/categories/", {}, "Failed to fetch categories");
+  return parseResponse(categoriesResponseSchema, body, "GET /products/categories/");
 }
 
 /**
  * Public: Get category attributes for filtering
  */
 export async function getPublicCategoryAttributes(categoryId: number) {
-  const response = await fetch(`${API_BASE_URL}/products/categories/${categoryId}/attributes/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch category attributes' }));
-    throw new Error(err.message || 'Failed to fetch category attributes');
-  }
+  const body = await apiRequest(
+    `/products/categories/${categoryId}/attributes/`,
+    {},
+    "Failed to fetch category attributes"
+  );
+  return parseResponse(categoryAttributesResponseSchema, body, "GET /products/categories/:id/attributes/");
+}
 
-  return response.json();
+/**
+ * Public: Size chart for a category; `size_chart` is null when it has none
+ */
+export async function getCategorySizeChart(categoryId: number) {
+  const body = await apiRequest(
+    `/products/categories/${categoryId}/size-chart/`,
+    {},
+    "Failed to fetch size chart"
+  );
+  return parseResponse(sizeChartResponseSchema, body, "GET /products/categories/:id/size-chart/");
 }
 
 export async function getPublicProductDetail(productId: number) {
-  const response = await fetch(`${API_BASE_URL}/products/${productId}/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch product details' }));
-    throw new Error(err.message || 'Failed to fetch product details');
-  }
+  const body = await apiRequest(`/products/${productId}/`, {}, "Failed to fetch product details");
+  return parseResponse(productDetailResponseSchema, body, "GET /products/:id/");
+}
 
-  return response.json();
+/** One option combination as the admin product form saves it */
+export interface ProductVariantInput {
+  // Mirrors `options.size` for backends that predate option axes
+  size: string;
+  options: Record<string, string>;
+  sku: string;
+  stock: number;
+  // Falls back to the product price when null
+  price: number | null;
+  // Runs on the product's sale schedule
+  sale_price: number | null;
+  // One of the product's saved photos
+  image_id: number | null;
 }
 
 /**
- * Admin: Update product variants
+ * Admin: Replace product variants with the given combinations. Variants
+ * going from sold out to in stock email their back-in-stock subscribers;
+ * resolves to the number of shoppers notified.
  */
 export async function updateProductVariants(
   accessToken: string,
   productId: number,
-  variants: Array<{ size: string; stock: number }>
-) {
-  const response = await fetch(`${API_BASE_URL}/admin/products/${productId}/variants/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify({ variants }),
-  });
+  variants: ProductVariantInput[]
+): Promise<number> {
+  const body = await apiRequest<ApiEnvelope<{ notified?: number } | null>>(
+    `/admin/products/${productId}/variants/`,
+    { method: "POST", token: accessToken, body: { variants, notify_back_in_stock: true } },
+    "Failed to update variants"
+  );
+  const notified = Number(body?.data?.notified);
+  return Number.isFinite(notified) ? notified : 0;
+}
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update variants' }));
-    throw new Error(err.message || 'Failed to update variants');
-  }
+/** A discount code as the admin coupon form saves it */
+export interface AdminCouponInput {
+  code: string;
+  description: string;
+  discount_type: CouponType;
+  // Percent or rupees; 0 for free shipping
+  value: number;
+  min_order_value: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_customer_limit: number | null;
+  category_ids: number[];
+  product_ids: number[];
+  is_active: boolean;
+}
 
-  return response.json();
+/**
+ * Admin: Discount codes with how often each was redeemed
+ */
+export async function getAdminCoupons(accessToken: string) {
+  const body = await apiRequest("/admin/coupons/", { token: accessToken }, "Failed to load coupons");
+  return parseResponse(adminCouponsResponseSchema, body, "GET /admin/coupons/");
+}
+
+export async function createAdminCoupon(accessToken: string, coupon: AdminCouponInput) {
+  return apiRequest(
+    "/admin/coupons/",
+    { method: "POST", token: accessToken, body: coupon },
+    "Failed to create coupon"
+  );
 }
 
 /**
- * Admin: Get category attributes
+ * Admin: Change a coupon. Codes are deactivated rather than deleted so
+ * orders keep pointing at them.
  */
-export async function getCategoryAttributes(accessToken: string, categoryId: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/${categoryId}/attributes/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${accessToken}`,
-    },
-  });
+export async function updateAdminCoupon(accessToken: string, id: number, changes: Partial<AdminCouponInput>) {
+  return apiRequest(
+    `/admin/coupons/${id}/`,
+    { method: "PATCH", token: accessToken, body: changes },
+    "Failed to update coupon"
+  );
+}
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch category attributes' }));
-    throw new Error(err.message || 'Failed to fetch category attributes');
-  }
+/**
+ * Admin: Shoppers waiting for each sold-out product and variant
+ */
+export async function getStockAlertDemand(accessToken: string) {
+  const body = await apiRequest("/admin/stock-alerts/demand/", { token: accessToken }, "Failed to load stock alert demand");
+  return parseResponse(stockAlertDemandResponseSchema, body, "GET /admin/stock-alerts/demand/");
+}
+
+/**
+ * Admin: Replace a product's photos. `images` lists kept photos by id and
+ * new uploads by file, in display order; photos left out are deleted.
+ */
+export async function updateProductImages(
+  accessToken: string,
+  productId: number,
+  images: Array<{ id?: number; file?: File }>,
+  primaryIndex: number
+) {
+  const formData = new FormData();
+  let uploads = 0;
+  const order = images.map((image) => {
+    if (image.file) {
+      formData.append('uploads', image.file);
+      return { upload: uploads++ };
+    }
+    return { id: image.id };
+  });
+  formData.append('order', JSON.stringify(order));
+  formData.append('primary', primaryIndex.toString());
+
+  return apiRequest(
+    `/admin/products/${productId}/images/`,
+    { method: "PUT", token: accessToken, body: formData },
+    "Failed to update product images"
+  );
+}
 
-  return response.json();
+/**
+ * Admin: Get category attributes
+ */
+export async function getCategoryAttributes(accessToken: string, categoryId: number) {
+  const body = await apiRequest(
+    `/admin/categories/${categoryId}/attributes/`,
+    { token: accessToken },
+    "Failed to fetch category attributes"
+  );
+  return parseResponse(categoryAttributesResponseSchema, body, "GET /admin/categories/:id/attributes/");
 }
 
 /**
  * Admin: Create category attribute
  */
 export async function createCategoryAttribute(
-  accessToken: string, 
-  categoryId: number, 
+  accessToken: string,
+  categoryId: number,
   data: {
     name: string;
     field_type: 'text' | 'number' | 'select';
@@ -897,41 +809,44 @@ export async function createCategoryAttribute(
     options?: string[];
   }
 ) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/${categoryId}/attributes/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(data),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to create category attribute' }));
-    throw new Error(err.message || 'Failed to create category attribute');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/admin/categories/${categoryId}/attributes/`,
+    { method: "POST", token: accessToken, body: data },
+    "Failed to create category attribute"
+  );
 }
 
 /**
  * Admin: Delete category attribute
  */
 export async function deleteCategoryAttribute(accessToken: string, categoryId: number, attributeId: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/categories/${categoryId}/attributes/${attributeId}/delete/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${accessToken}`,
-    },
-  });
+  return apiRequest(
+    `/admin/categories/${categoryId}/attributes/${attributeId}/delete/`,
+    { method: "DELETE", token: accessToken },
+    "Failed to delete category attribute"
+  );
+}
 
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete category attribute' }));
-    throw new Error(err.message || 'Failed to delete category attribute');
-  }
+/**
+ * Admin: Create or replace a category's size chart
+ */
+export async function saveCategorySizeChart(accessToken: string, categoryId: number, chart: SizeChart) {
+  return apiRequest(
+    `/admin/categories/${categoryId}/size-chart/`,
+    { method: "PUT", token: accessToken, body: chart },
+    "Failed to save size chart"
+  );
+}
 
-  return response.json();
+/**
+ * Admin: Remove a category's size chart
+ */
+export async function deleteCategorySizeChart(accessToken: string, categoryId: number) {
+  return apiRequest(
+    `/admin/categories/${categoryId}/size-chart/`,
+    { method: "DELETE", token: accessToken },
+    "Failed to delete size chart"
+  );
 }
 
 // User Profile API Functions
@@ -940,20 +855,8 @@ export async function deleteCategoryAttribute(accessToken: string, categoryId: n
  * Get user profile
  */
 export async function getUserProfile(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/profile/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch profile' }));
-    throw new Error(err.message || 'Failed to fetch profile');
-  }
-
-  return response.json();
+  const body = await apiRequest("/profile/", { token: accessToken }, "Failed to fetch profile");
+  return parseResponse(profileResponseSchema, body, "GET /profile/");
 }
 
 /**
@@ -971,6 +874,7 @@ export async function updateUserProfile(
   avatar?: File
 ) {
   // Use FormData if avatar is provided, otherwise JSON
+  let body: FormData | typeof profileData = profileData;
   if (avatar) {
     const formData = new FormData();
     Object.entries(profileData).forEach(([key, value]) => {
@@ -979,58 +883,41 @@ export async function updateUserProfile(
       }
     });
     formData.append('avatar', avatar);
+    body = formData;
+  }
 
-    const response = await fetch(`${API_BASE_URL}/profile/`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const err = await response.json().catch(() => ({ message: 'Failed to update profile' }));
-      throw new Error(err.message || 'Failed to update profile');
-    }
-
-    return response.json();
-  } else {
-    const response = await fetch(`${API_BASE_URL}/profile/`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(profileData),
-    });
+  return apiRequest<ApiEnvelope<{ user?: User } | null>>(
+    "/profile/",
+    { method: "POST", token: accessToken, body },
+    "Failed to update profile"
+  );
+}
 
-    if (!response.ok) {
-      const err = await response.json().catch(() => ({ message: 'Failed to update profile' }));
-      throw new Error(err.message || 'Failed to update profile');
-    }
+/**
+ * Body measurements the user saved from a size guide, in centimetres
+ */
+export async function getMeasurements(accessToken: string) {
+  const body = await apiRequest("/profile/measurements/", { token: accessToken }, "Failed to load measurements");
+  return parseResponse(measurementsResponseSchema, body, "GET /profile/measurements/");
+}
 
-    return response.json();
-  }
+/**
+ * Replace the user's saved body measurements
+ */
+export async function saveMeasurements(accessToken: string, measurements: BodyMeasurements) {
+  return apiRequest(
+    "/profile/measurements/",
+    { method: "PUT", token: accessToken, body: { measurements } },
+    "Failed to save measurements"
+  );
 }
 
 /**
  * Get user addresses
  */
 export async function getUserAddresses(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/addresses/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch addresses' }));
-    throw new Error(err.message || 'Failed to fetch addresses');
-  }
-
-  return response.json();
+  const body = await apiRequest("/addresses/", { token: accessToken }, "Failed to fetch addresses");
+  return parseResponse(addressesResponseSchema, body, "GET /addresses/");
 }
 
 /**
@@ -1049,41 +936,18 @@ export async function createUserAddress(
     is_default?: boolean;
   }
 ) {
-  const response = await fetch(`${API_BASE_URL}/addresses/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(addressData),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to create address' }));
-    throw new Error(err.message || 'Failed to create address');
-  }
-
-  return response.json();
+  return apiRequest(
+    "/addresses/",
+    { method: "POST", token: accessToken, body: addressData },
+    "Failed to create address"
+  );
 }
 
 /**
  * Get specific address
  */
 export async function getUserAddress(accessToken: string, addressId: number) {
-  const response = await fetch(`${API_BASE_URL}/addresses/${addressId}/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch address' }));
-    throw new Error(err.message || 'Failed to fetch address');
-  }
-
-  return response.json();
+  return apiRequest(`/addresses/${addressId}/`, { token: accessToken }, "Failed to fetch address");
 }
 
 /**
@@ -1103,61 +967,29 @@ export async function updateUserAddress(
     is_default: boolean;
   }>
 ) {
-  const response = await fetch(`${API_BASE_URL}/addresses/${addressId}/`, {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(addressData),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update address' }));
-    throw new Error(err.message || 'Failed to update address');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/addresses/${addressId}/`,
+    { method: "PUT", token: accessToken, body: addressData },
+    "Failed to update address"
+  );
 }
 
 /**
  * Delete address
  */
 export async function deleteUserAddress(accessToken: string, addressId: number) {
-  const response = await fetch(`${API_BASE_URL}/addresses/${addressId}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete address' }));
-    throw new Error(err.message || 'Failed to delete address');
-  }
-
-  return response.json();
+  return apiRequest(`/addresses/${addressId}/`, { method: "DELETE", token: accessToken }, "Failed to delete address");
 }
 
 /**
  * Set default address
  */
 export async function setDefaultAddress(accessToken: string, addressId: number) {
-  const response = await fetch(`${API_BASE_URL}/addresses/${addressId}/set-default/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to set default address' }));
-    throw new Error(err.message || 'Failed to set default address');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/addresses/${addressId}/set-default/`,
+    { method: "POST", token: accessToken },
+    "Failed to set default address"
+  );
 }
 
 // ========================================
@@ -1201,47 +1033,28 @@ export interface ReviewStats {
 export async function getProductReviews(
   productId: number,
   params?: { rating?: number; verified_only?: boolean; page?: number }
-) {
+): Promise<Review[]> {
   const queryParams = new URLSearchParams();
   queryParams.append('product', productId.toString());
-  
+
   if (params?.rating) queryParams.append('rating', params.rating.toString());
   if (params?.verified_only) queryParams.append('verified_only', 'true');
   if (params?.page) queryParams.append('page', params.page.toString());
 
-  const response = await fetch(`${API_BASE_URL}/reviews/?${queryParams}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch reviews' }));
-    throw new Error(err.message || 'Failed to fetch reviews');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/reviews/?${queryParams}`, {}, "Failed to fetch reviews");
+  return parseResponse(reviewsResponseSchema, body, "GET /reviews/");
 }
 
 /**
  * Get review statistics for a product
  */
 export async function getProductReviewStats(productId: number): Promise<{ data: ReviewStats }> {
-  const response = await fetch(`${API_BASE_URL}/reviews/product_stats/?product=${productId}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch review stats' }));
-    throw new Error(err.message || 'Failed to fetch review stats');
-  }
-
-  const data = await response.json();
-  return { data };
+  const body = await apiRequest(
+    `/reviews/product_stats/?product=${productId}`,
+    {},
+    "Failed to fetch review stats"
+  );
+  return { data: parseResponse(reviewStatsSchema, body, "GET /reviews/product_stats/") };
 }
 
 /**
@@ -1257,21 +1070,7 @@ export async function createReview(
     order_item?: number;
   }
 ) {
-  const response = await fetch(`${API_BASE_URL}/reviews/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(reviewData),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to create review' }));
-    throw new Error(err.message || err.detail || 'Failed to create review');
-  }
-
-  return response.json();
+  return apiRequest("/reviews/", { method: "POST", token: accessToken, body: reviewData }, "Failed to create review");
 }
 
 /**
@@ -1286,81 +1085,36 @@ export async function updateReview(
     comment: string;
   }
 ) {
-  const response = await fetch(`${API_BASE_URL}/reviews/${reviewId}/`, {
-    method: "PATCH",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-    body: JSON.stringify(reviewData),
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to update review' }));
-    throw new Error(err.message || 'Failed to update review');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/reviews/${reviewId}/`,
+    { method: "PATCH", token: accessToken, body: reviewData },
+    "Failed to update review"
+  );
 }
 
 /**
  * Delete a review
  */
 export async function deleteReview(accessToken: string, reviewId: number) {
-  const response = await fetch(`${API_BASE_URL}/reviews/${reviewId}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete review' }));
-    throw new Error(err.message || 'Failed to delete review');
-  }
-
-  return response.status === 204 ? { success: true } : response.json();
+  return apiRequest(`/reviews/${reviewId}/`, { method: "DELETE", token: accessToken }, "Failed to delete review");
 }
 
 /**
  * Mark review as helpful
  */
 export async function markReviewHelpful(accessToken: string, reviewId: number) {
-  const response = await fetch(`${API_BASE_URL}/reviews/${reviewId}/mark_helpful/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to mark review as helpful' }));
-    throw new Error(err.message || 'Failed to mark review as helpful');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/reviews/${reviewId}/mark_helpful/`,
+    { method: "POST", token: accessToken },
+    "Failed to mark review as helpful"
+  );
 }
 
 /**
  * Get user's reviews
  */
 export async function getMyReviews(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/reviews/my_reviews/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch your reviews' }));
-    throw new Error(err.message || 'Failed to fetch your reviews');
-  }
-
-  return response.json();
+  return apiRequest("/reviews/my_reviews/", { token: accessToken }, "Failed to fetch your reviews");
 }
 
 // ========================================
@@ -1375,105 +1129,49 @@ export async function adminGetReviews(
   params?: { is_approved?: boolean; rating?: number; search?: string; page?: number }
 ) {
   const queryParams = new URLSearchParams();
-  
+
   if (params?.is_approved !== undefined) queryParams.append('is_approved', params.is_approved.toString());
   if (params?.rating) queryParams.append('rating', params.rating.toString());
   if (params?.search) queryParams.append('search', params.search);
   if (params?.page) queryParams.append('page', params.page.toString());
 
-  const response = await fetch(`${API_BASE_URL}/admin/reviews/?${queryParams}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch reviews' }));
-    throw new Error(err.message || 'Failed to fetch reviews');
-  }
-
-  return response.json();
+  const body = await apiRequest(`/admin/reviews/?${queryParams}`, { token: accessToken }, "Failed to fetch reviews");
+  return parseResponse(adminReviewsResponseSchema, body, "GET /admin/reviews/");
 }
 
 /**
  * Approve review (admin)
  */
 export async function adminApproveReview(accessToken: string, reviewId: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/reviews/${reviewId}/approve/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to approve review' }));
-    throw new Error(err.message || 'Failed to approve review');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/admin/reviews/${reviewId}/approve/`,
+    { method: "POST", token: accessToken },
+    "Failed to approve review"
+  );
 }
 
 /**
  * Reject review (admin)
  */
 export async function adminRejectReview(accessToken: string, reviewId: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/reviews/${reviewId}/reject/`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to reject review' }));
-    throw new Error(err.message || 'Failed to reject review');
-  }
-
-  return response.json();
+  return apiRequest(
+    `/admin/reviews/${reviewId}/reject/`,
+    { method: "POST", token: accessToken },
+    "Failed to reject review"
+  );
 }
 
 /**
  * Delete review (admin)
  */
 export async function adminDeleteReview(accessToken: string, reviewId: number) {
-  const response = await fetch(`${API_BASE_URL}/admin/reviews/${reviewId}/`, {
-    method: "DELETE",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to delete review' }));
-    throw new Error(err.message || 'Failed to delete review');
-  }
-
-  return response.status === 204 ? { success: true } : response.json();
+  return apiRequest(`/admin/reviews/${reviewId}/`, { method: "DELETE", token: accessToken }, "Failed to delete review");
 }
 
 /**
  * Get review statistics (admin)
  */
 export async function adminGetReviewStatistics(accessToken: string) {
-  const response = await fetch(`${API_BASE_URL}/admin/reviews/statistics/`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    const err = await response.json().catch(() => ({ message: 'Failed to fetch statistics' }));
-    throw new Error(err.message || 'Failed to fetch statistics');
-  }
-
-  return response.json();
+  const body = await apiRequest("/admin/reviews/statistics/", { token: accessToken }, "Failed to fetch statistics");
+  return parseResponse(adminReviewStatsSchema, body, "GET /admin/reviews/statistics/");
 }
-
@@ -0,0 +1,149 @@
+/**
+ * Catalog Filters
+ * Storefront filter state lives in the URL so filtered views can be
+ * bookmarked, shared and restored with Back/Forward, e.g.
+ *
+ *   /products?category=3&attr_5=Cotton&range_7=30-40&price=500-2000&sort=price_asc&page=2
+ *
+ * `sale=1` narrows any view to the Sale collection.
+ *
+ * Ranges are written as `min-max`; either end may be left empty.
+ */
+
+import type { ProductSort } from "@/lib/api";
+import type { ProductListFilters } from "@/lib/queries";
+
+export interface RangeFilter {
+  min: string;
+  max: string;
+}
+
+export interface CatalogFilters {
+  search: string;
+  categoryId?: number;
+  // Only products with a live sale price
+  onSale: boolean;
+  // Select and text attributes, keyed by attribute id
+  attributes: Record<number, string>;
+  // Number attributes, keyed by attribute id
+  ranges: Record<number, RangeFilter>;
+  price: RangeFilter;
+  // Backend default order when unset
+  sort?: ProductSort;
+  page: number;
+}
+
+export const PRODUCT_SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "newest", label: "Newest" },
+  { value: "best_selling", label: "Best Selling" },
+  { value: "top_rated", label: "Highest Rated" },
+  { value: "most_reviewed", label: "Most Reviewed" },
+  { value: "discount_desc", label: "Biggest Discount" },
+];
+
+/** The Sale collection, as linked from the footer */
+export const SALE_COLLECTION_PATH = "/products?sale=1";
+
+const ATTRIBUTE_PREFIX = "attr_";
+const RANGE_PREFIX = "range_";
+// Upper bound the backend expects when a number range has no max
+const OPEN_RANGE_MAX = "999999";
+
+export const EMPTY_RANGE: RangeFilter = { min: "", max: "" };
+
+function parsePositiveInt(value: string | null): number | undefined {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function parseRange(value: string | null): RangeFilter {
+  const match = value?.match(/^(\d*\.?\d*)-(\d*\.?\d*)$/);
+  return match ? { min: match[1], max: match[2] } : EMPTY_RANGE;
+}
+
+function parseSort(value: string | null): ProductSort | undefined {
+  return PRODUCT_SORT_OPTIONS.find((option) => option.value === value)?.value;
+}
+
+const isEmptyRange = (range: RangeFilter | undefined) => !range || (!range.min && !range.max);
+
+/** Filter state described by a `/products` query string */
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  const attributes: Record<number, string> = {};
+  const ranges: Record<number, RangeFilter> = {};
+
+  params.forEach((value, key) => {
+    if (key.startsWith(ATTRIBUTE_PREFIX)) {
+      const id = parsePositiveInt(key.slice(ATTRIBUTE_PREFIX.length));
+      if (id && value.trim()) attributes[id] = value;
+    } else if (key.startsWith(RANGE_PREFIX)) {
+      const id = parsePositiveInt(key.slice(RANGE_PREFIX.length));
+      const range = parseRange(value);
+      if (id && !isEmptyRange(range)) ranges[id] = range;
+    }
+  });
+
+  return {
+    search: params.get("search") || "",
+    categoryId: parsePositiveInt(params.get("category")),
+    onSale: params.get("sale") === "1",
+    attributes,
+    ranges,
+    price: parseRange(params.get("price")),
+    sort: parseSort(params.get("sort")),
+    page: parsePositiveInt(params.get("page")) ?? 1,
+  };
+}
+
+/** Query string for a filter state. Empty filters and page 1 are left out. */
+export function catalogFiltersToParams(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search.trim()) params.set("search", filters.search.trim());
+  if (filters.categoryId) params.set("category", String(filters.categoryId));
+  if (filters.onSale) params.set("sale", "1");
+  Object.entries(filters.attributes).forEach(([id, value]) => {
+    if (value.trim()) params.set(`${ATTRIBUTE_PREFIX}${id}`, value);
+  });
+  Object.entries(filters.ranges).forEach(([id, range]) => {
+    if (!isEmptyRange(range)) params.set(`${RANGE_PREFIX}${id}`, `${range.min}-${range.max}`);
+  });
+  if (!isEmptyRange(filters.price)) params.set("price", `${filters.price.min}-${filters.price.max}`);
+  if (filters.sort) params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+
+  return params;
+}
+
+/** True when anything other than the search term, category, Sale collection and page narrows the list */
+export function hasActiveFilters(filters: CatalogFilters): boolean {
+  return (
+    Object.keys(filters.attributes).length > 0 ||
+    Object.values(filters.ranges).some((range) => !isEmptyRange(range)) ||
+    !isEmptyRange(filters.price)
+  );
+}
+
+/** Product list query for a filter state */
+export function toProductListFilters(filters: CatalogFilters, limit: number): ProductListFilters {
+  // The backend takes number ranges through the same attribute map as `min-max`
+  const attributeFilters: Record<number, string> = { ...filters.attributes };
+  Object.entries(filters.ranges).forEach(([id, range]) => {
+    if (isEmptyRange(range)) return;
+    attributeFilters[Number(id)] = `${range.min || "0"}-${range.max || OPEN_RANGE_MAX}`;
+  });
+
+  return {
+    page: filters.page,
+    limit,
+    categoryId: filters.categoryId,
+    onSale: filters.onSale,
+    search: filters.search,
+    attributeFilters,
+    minPrice: filters.price.min,
+    maxPrice: filters.price.max,
+    sort: filters.sort,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * App Configuration
+ * Single source for backend and media URLs plus per-environment switches.
+ * Values come from Vite env vars at build time:
+ *
+ *   VITE_APP_ENV         development | staging | production (defaults to the Vite mode)
+ *   VITE_API_BASE_URL    API root, e.g. https://api.example.com/api
+ *   VITE_MEDIA_BASE_URL  Origin or CDN prefix for uploaded media (defaults to the API origin)
+ *
+ * Without VITE_API_BASE_URL, development talks to the local Django server and
+ * deployed builds expect the API under /api on their own origin.
+ */
+
+export type AppEnv = "development" | "staging" | "production";
+
+const APP_ENVS: AppEnv[] = ["development", "staging", "production"];
+
+function resolveAppEnv(): AppEnv {
+  const value = import.meta.env.VITE_APP_ENV || import.meta.env.MODE;
+  if (APP_ENVS.includes(value as AppEnv)) return value as AppEnv;
+  return import.meta.env.PROD ? "production" : "development";
+}
+
+const DEFAULT_API_BASE_URL: Record<AppEnv, string> = {
+  development: "http://localhost:8000/api",
+  staging: "/api",
+  production: "/api",
+};
+
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, "");
+
+const appEnv = resolveAppEnv();
+const apiBaseUrl = trimTrailingSlash(import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL[appEnv]);
+// Relative API roots resolve against the page, so same-origin deployments work
+const apiOrigin = new URL(apiBaseUrl, window.location.origin).origin;
+const mediaBaseUrl = trimTrailingSlash(import.meta.env.VITE_MEDIA_BASE_URL || apiOrigin);
+
+export const config = {
+  appEnv,
+  apiBaseUrl,
+  apiOrigin,
+  mediaBaseUrl,
+  // The /debug page exposes raw API calls; never ship it to customers
+  enableDebugPage: appEnv !== "production",
+} as const;
+
+// Shown wherever a product has no uploaded image yet
+export const PRODUCT_IMAGE_PLACEHOLDER =
+  "https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=800&q=80";
+
+/** Absolute URL for an API path such as "/orders/" */
+export function apiUrl(path: string) {
+  return `${apiBaseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/**
+ * Absolute URL for an uploaded file. The backend returns media as paths like
+ * "/media/products/1.jpg"; absolute, data and blob URLs are used as-is.
+ * Returns `fallback` when there is no file.
+ */
+export function mediaUrl(path: string | null | undefined, fallback?: string): string | undefined {
+  if (!path) return fallback;
+  if (/^(https?:|data:|blob:)/.test(path)) return path;
+  return `${mediaBaseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+}
@@ -0,0 +1,60 @@
+/**
+ * Coupons
+ * Order totals with a promo code applied. The backend works out what a
+ * coupon takes off the cart; these helpers combine that with the subtotal
+ * and describe the coupon to the shopper.
+ */
+
+import { isApiError } from "@/lib/errors";
+import { formatMoney } from "@/lib/money";
+import type { AdminCoupon, CouponQuote } from "@/lib/schemas";
+
+export interface OrderTotals {
+  subtotal: number;
+  // Taken off the items, never more than the subtotal
+  discount: number;
+  shipping: number;
+  freeShipping: boolean;
+  total: number;
+}
+
+/** Subtotal, discount, shipping and total for a cart with an optional coupon */
+export function orderTotals(subtotal: number, coupon?: CouponQuote | null, shipping = 0): OrderTotals {
+  const discount = coupon ? Math.min(parseFloat(coupon.discount_amount) || 0, subtotal) : 0;
+  const freeShipping = !!coupon?.free_shipping;
+  const shippingCost = freeShipping ? 0 : shipping;
+  return { subtotal, discount, shipping: shippingCost, freeShipping, total: subtotal - discount + shippingCost };
+}
+
+/** What a coupon gives, e.g. "20% off Shirts" or "Free shipping" */
+export function describeCoupon(coupon: Pick<CouponQuote, "discount_type" | "value" | "category">): string {
+  const value = parseFloat(coupon.value) || 0;
+  const offer =
+    coupon.discount_type === "percentage"
+      ? `${value}% off`
+      : coupon.discount_type === "flat"
+        ? `${formatMoney(value)} off`
+        : "Free shipping";
+  if (!coupon.category) return offer;
+  return coupon.discount_type === "free_shipping" ? `${offer} on ${coupon.category.name}` : `${offer} ${coupon.category.name}`;
+}
+
+/** Why a code was turned down, preferring the backend's message for the `code` field */
+export function couponErrorMessage(error: unknown): string {
+  if (isApiError(error)) return error.fieldError("code") ?? error.message;
+  return "Could not apply this code";
+}
+
+export type CouponStatus = "active" | "scheduled" | "expired" | "used_up" | "inactive";
+
+/** Whether shoppers can redeem a code right now, and if not, why */
+export function couponStatus(
+  coupon: Pick<AdminCoupon, "is_active" | "starts_at" | "ends_at" | "usage_limit" | "times_used">,
+  now = new Date()
+): CouponStatus {
+  if (!coupon.is_active) return "inactive";
+  if (coupon.starts_at && new Date(coupon.starts_at) > now) return "scheduled";
+  if (coupon.ends_at && new Date(coupon.ends_at) <= now) return "expired";
+  if (coupon.usage_limit != null && coupon.times_used >= coupon.usage_limit) return "used_up";
+  return "active";
+}
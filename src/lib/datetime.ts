@@ -0,0 +1,18 @@
+/**
+ * Date Inputs
+ * `datetime-local` inputs hold wall-clock time without a zone while the
+ * backend stores ISO timestamps; these convert between the two in the
+ * manager's own timezone.
+ */
+
+/** Value for a `datetime-local` input, "" when unset or unparseable */
+export function toDateTimeInput(iso?: string | null): string {
+  const date = iso ? new Date(iso) : null;
+  if (!date || isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+/** ISO timestamp for a `datetime-local` value, null when empty */
+export function fromDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
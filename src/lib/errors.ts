@@ -0,0 +1,160 @@
+/**
+ * API Errors
+ * Typed errors thrown by the HTTP client so callers can tell validation
+ * problems, auth failures, missing resources, outages and offline apart.
+ */
+
+// Django/DRF report field problems as { field: ["message", ...] }
+export type FieldErrors = Record<string, string[]>;
+
+export interface ApiErrorOptions {
+  // HTTP status code, 0 when the request never reached the server
+  status?: number;
+  // Backend `status` field, e.g. "error"
+  code?: string;
+  fieldErrors?: FieldErrors;
+  retryable?: boolean;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly fieldErrors: FieldErrors;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status ?? 0;
+    this.code = options.code;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.retryable = options.retryable ?? false;
+  }
+
+  /** First message for a field, if the backend rejected it */
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+}
+
+/** 400/422 — the request body failed backend validation */
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "ValidationError";
+  }
+}
+
+/** 401 — missing, expired or rejected credentials */
+export class AuthenticationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+/** 403 — signed in but not allowed to do this */
+export class PermissionError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "PermissionError";
+  }
+}
+
+/** 404 — the resource does not exist */
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+/** 5xx — the backend failed while handling the request */
+export class ServerError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { retryable: true, ...options });
+    this.name = "ServerError";
+  }
+}
+
+/** The request never got a response (offline, DNS, CORS, server down) */
+export class NetworkError extends ApiError {
+  constructor(message = "Unable to reach the server. Check your connection and try again.") {
+    super(message, { status: 0, retryable: true });
+    this.name = "NetworkError";
+  }
+}
+
+/** 2xx, but the body does not match the shape the frontend relies on */
+export class ResponseShapeError extends ApiError {
+  // One "path: problem" line per mismatch, for diagnostics
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[], options: ApiErrorOptions = {}) {
+    super(message, { code: "invalid_response", ...options });
+    this.name = "ResponseShapeError";
+    this.issues = issues;
+  }
+}
+
+// Keys DRF uses for errors that are not tied to a single field
+const NON_FIELD_KEYS = ["non_field_errors", "detail"];
+const ENVELOPE_KEYS = ["status", "message", "errors", "data", "code"];
+
+/**
+ * Extract per-field messages from a Django error body. Supports both the
+ * `{ status, message, errors: {...} }` envelope and bare DRF serializer errors.
+ */
+export function parseFieldErrors(body: Record<string, unknown>): FieldErrors {
+  const source =
+    body.errors && typeof body.errors === "object" && !Array.isArray(body.errors)
+      ? (body.errors as Record<string, unknown>)
+      : Object.fromEntries(Object.entries(body).filter(([key]) => !ENVELOPE_KEYS.includes(key)));
+
+  const fieldErrors: FieldErrors = {};
+  Object.entries(source).forEach(([field, value]) => {
+    if (NON_FIELD_KEYS.includes(field)) return;
+    if (Array.isArray(value)) {
+      const messages = value.filter((v): v is string => typeof v === "string");
+      if (messages.length > 0) fieldErrors[field] = messages;
+    } else if (typeof value === "string") {
+      fieldErrors[field] = [value];
+    }
+  });
+  return fieldErrors;
+}
+
+/**
+ * Build the matching ApiError subclass for a failed response body.
+ */
+export function createApiError(status: number, body: Record<string, unknown>, fallbackMessage: string): ApiError {
+  const fieldErrors = parseFieldErrors(body);
+  const nonField = Array.isArray(body.non_field_errors) ? body.non_field_errors[0] : undefined;
+  const firstFieldMessage = Object.values(fieldErrors)[0]?.[0];
+  const message =
+    (typeof body.message === "string" && body.message) ||
+    (typeof body.detail === "string" && body.detail) ||
+    (typeof nonField === "string" && nonField) ||
+    firstFieldMessage ||
+    fallbackMessage;
+  const options: ApiErrorOptions = {
+    status,
+    code: typeof body.status === "string" ? body.status : undefined,
+    fieldErrors,
+  };
+
+  if (status === 400 || status === 422) return new ValidationError(message, options);
+  if (status === 401) return new AuthenticationError(message, options);
+  if (status === 403) return new PermissionError(message, options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status >= 500) return new ServerError(message, options);
+  return new ApiError(message, { ...options, retryable: status === 408 || status === 429 });
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
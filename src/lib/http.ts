@@ -0,0 +1,200 @@
+/**
+ * HTTP Client
+ * Shared request layer for every backend call. Attaches the current access
+ * token, transparently refreshes it once on a 401 and ends the session when
+ * the refresh token is no longer accepted. Failures surface as typed
+ * ApiError subclasses from "@/lib/errors".
+ */
+
+import type { AuthTokens } from "@/lib/api";
+import { apiUrl } from "@/lib/config";
+import { NetworkError, createApiError } from "@/lib/errors";
+
+/**
+ * Bridge to the auth state. Registered by AuthProvider so the client always
+ * sees the live tokens, even between React renders.
+ */
+export interface SessionStore {
+  getTokens: () => AuthTokens | null;
+  setTokens: (tokens: AuthTokens) => void;
+  onSessionExpired: () => void;
+}
+
+let sessionStore: SessionStore | null = null;
+
+export function registerSessionStore(store: SessionStore | null) {
+  sessionStore = store;
+}
+
+export interface RequestOptions {
+  method?: string;
+  // Plain objects are sent as JSON, FormData is passed through untouched
+  body?: unknown;
+  // Access token for authenticated endpoints. The live session token takes
+  // precedence so callers holding a token from a previous render still work.
+  token?: string;
+  credentials?: RequestCredentials;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Reachability of the backend as seen by the last request. Lets the UI show
+ * an offline banner when requests fail before reaching the server.
+ */
+type ConnectivityListener = (reachable: boolean) => void;
+
+const connectivityListeners = new Set<ConnectivityListener>();
+let serverReachable = true;
+
+export function isServerReachable() {
+  return serverReachable;
+}
+
+export function subscribeConnectivity(listener: ConnectivityListener) {
+  connectivityListeners.add(listener);
+  return () => {
+    connectivityListeners.delete(listener);
+  };
+}
+
+function setServerReachable(reachable: boolean) {
+  if (serverReachable === reachable) return;
+  serverReachable = reachable;
+  connectivityListeners.forEach((listener) => listener(reachable));
+}
+
+// fetch only rejects when no response arrived at all
+async function send(url: string, init: RequestInit): Promise<Response> {
+  try {
+    const response = await fetch(url, init);
+    setServerReachable(true);
+    return response;
+  } catch {
+    setServerReachable(false);
+    throw new NetworkError();
+  }
+}
+
+// Single in-flight refresh shared by every request that hit a 401
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token and hand it to the
+ * session store. Concurrent callers share one request. Resolves to the new
+ * access token, or null when the refresh token was rejected; throws
+ * NetworkError when the server could not be reached.
+ */
+export async function refreshSession(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const current = sessionStore?.getTokens();
+      if (!current?.refresh) return null;
+
+      const response = await send(apiUrl("/token/refresh/"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh: current.refresh }),
+      });
+      if (!response.ok) {
+        // Another tab may have rotated the refresh token while this request
+        // was in flight; its new tokens arrive through the session store
+        const latest = sessionStore?.getTokens();
+        return latest && latest.refresh !== current.refresh ? latest.access : null;
+      }
+
+      const data = await response.json();
+      if (!data.access) return null;
+
+      // Backends with refresh rotation return a new refresh token as well
+      const tokens: AuthTokens = { access: data.access, refresh: data.refresh || current.refresh };
+      sessionStore?.setTokens(tokens);
+      return tokens.access;
+    })()
+      // Being offline is not a rejected session — let the caller see it
+      .catch((error) => {
+        if (error instanceof NetworkError) throw error;
+        return null;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+}
+
+function buildInit(options: RequestOptions, token?: string): RequestInit {
+  const isFormData = options.body instanceof FormData;
+  const headers: Record<string, string> = {
+    ...(isFormData ? {} : { "Content-Type": "application/json" }),
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    ...options.headers,
+  };
+
+  return {
+    method: options.method || "GET",
+    headers,
+    credentials: options.credentials,
+    body:
+      options.body === undefined
+        ? undefined
+        : isFormData
+        ? (options.body as FormData)
+        : JSON.stringify(options.body),
+  };
+}
+
+/**
+ * Send a request and return the raw Response, refreshing the access token
+ * and retrying once when an authenticated request comes back 401.
+ * Throws NetworkError when the server could not be reached.
+ */
+export async function apiFetch(path: string, options: RequestOptions = {}): Promise<Response> {
+  const url = apiUrl(path);
+  const token = options.token ? sessionStore?.getTokens()?.access || options.token : undefined;
+
+  const response = await send(url, buildInit(options, token));
+  if (response.status !== 401 || !token) {
+    return response;
+  }
+
+  // Another request may already have refreshed the session while this one
+  // was in flight — reuse that token instead of refreshing again.
+  const latest = sessionStore?.getTokens()?.access;
+  const freshToken = latest && latest !== token ? latest : await refreshSession();
+
+  if (!freshToken) {
+    sessionStore?.onSessionExpired();
+    return response;
+  }
+
+  const retried = await send(url, buildInit(options, freshToken));
+  if (retried.status === 401) {
+    sessionStore?.onSessionExpired();
+  }
+  return retried;
+}
+
+/**
+ * Send a request and parse the JSON body. Non-2xx responses throw the
+ * ApiError subclass for their status, carrying the backend message (or
+ * `fallbackMessage` when there is none) and any field errors.
+ */
+export async function apiRequest<T = unknown>(
+  path: string,
+  options: RequestOptions = {},
+  fallbackMessage = "Request failed"
+): Promise<T> {
+  const response = await apiFetch(path, options);
+
+  if (!response.ok) {
+    const err = await response.json().catch(() => ({}));
+    throw createApiError(response.status, err && typeof err === "object" ? err : {}, fallbackMessage);
+  }
+
+  if (response.status === 204) {
+    return { success: true } as T;
+  }
+
+  return response.json();
+}
@@ -0,0 +1,43 @@
+/**
+ * JWT helpers
+ * Reads claims from SimpleJWT tokens on the client. Nothing here verifies
+ * signatures — the backend stays the authority on whether a token is valid.
+ */
+
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  user_id?: number;
+  token_type?: "access" | "refresh";
+  [claim: string]: unknown;
+}
+
+export function decodeJwt(token: string): JwtPayload | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    // base64url → base64, padded to a multiple of 4
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded));
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry as epoch milliseconds, or null when the token has no readable `exp` */
+export function getTokenExpiry(token: string | null | undefined): number | null {
+  if (!token) return null;
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+/**
+ * Whether the token expires within `skewMs` from now. Tokens without a
+ * readable expiry are reported as not expired.
+ */
+export function isTokenExpired(token: string | null | undefined, skewMs = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+}
@@ -0,0 +1,65 @@
+/**
+ * Money
+ * Every amount from the API is in rupees, and orders are always charged in
+ * rupees. Shoppers can browse in another currency; those prices are
+ * converted with the rates in CURRENCIES and shown as estimates, while
+ * checkout still states the rupee amount that will be charged.
+ */
+
+export type CurrencyCode = "INR" | "USD" | "EUR" | "GBP" | "AED";
+
+// The currency orders are charged and stored in
+export const SETTLEMENT_CURRENCY: CurrencyCode = "INR";
+
+export const CURRENCIES: Record<CurrencyCode, { label: string; locale: string; rate: number }> = {
+  // Rate is units of the currency per rupee
+  INR: { label: "Indian Rupee", locale: "en-IN", rate: 1 },
+  USD: { label: "US Dollar", locale: "en-US", rate: 0.012 },
+  EUR: { label: "Euro", locale: "en-IE", rate: 0.011 },
+  GBP: { label: "British Pound", locale: "en-GB", rate: 0.0095 },
+  AED: { label: "UAE Dirham", locale: "en-AE", rate: 0.044 },
+};
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(CURRENCIES, value);
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatterFor(currency: CurrencyCode, fractionDigits: number): Intl.NumberFormat {
+  const key = `${currency}:${fractionDigits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(CURRENCIES[currency].locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** A decimal string or number from the API as a number, 0 when missing or malformed */
+export function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === "number" ? value : parseFloat(value ?? "");
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/** A rupee amount in another currency */
+export function convert(amountInInr: number | string, currency: CurrencyCode): number {
+  return toAmount(amountInInr) * CURRENCIES[currency].rate;
+}
+
+/**
+ * A rupee amount formatted for display, converted when another currency
+ * is given: formatMoney(2000) is "₹2,000.00", formatMoney(2000, "USD")
+ * is "$24.00".
+ */
+export function formatMoney(
+  amountInInr: number | string | null | undefined,
+  currency: CurrencyCode = SETTLEMENT_CURRENCY,
+  { fractionDigits = 2 }: { fractionDigits?: number } = {}
+): string {
+  return formatterFor(currency, fractionDigits).format(convert(toAmount(amountInInr), currency));
+}
@@ -0,0 +1,63 @@
+/**
+ * Sale Pricing
+ * `price` is the regular price and `discounted_price` the sale price. The
+ * backend only sends a sale price while its promotion window is open, so
+ * the storefront shows whatever it gets; the admin form also reads the
+ * scheduled `sale_price` with its start and end times.
+ */
+
+export interface PricedItem {
+  price: string;
+  discounted_price?: string | null;
+}
+
+export interface Pricing {
+  // What the shopper pays
+  price: number;
+  // Regular price to strike through, null when not on sale
+  compareAt: number | null;
+  // Whole percent off, 0 when not on sale
+  percentOff: number;
+}
+
+/** Price to charge and the compare-at price it replaces */
+export function getPricing(item: PricedItem): Pricing {
+  const regular = parseFloat(item.price) || 0;
+  const sale = item.discounted_price ? parseFloat(item.discounted_price) : NaN;
+  // A "sale" at or above the regular price is not one
+  if (!(sale >= 0 && sale < regular)) return { price: regular, compareAt: null, percentOff: 0 };
+  return { price: sale, compareAt: regular, percentOff: Math.round((1 - sale / regular) * 100) };
+}
+
+/**
+ * Price fields for a variant. A variant with its own price only takes its
+ * own sale price; one without keeps the product's unless it has its own.
+ */
+export function variantPrices(
+  product: PricedItem,
+  variant?: { price?: string | null; discounted_price?: string | null }
+): PricedItem {
+  if (variant?.price) return { price: variant.price, discounted_price: variant.discounted_price ?? null };
+  return { price: product.price, discounted_price: variant?.discounted_price || product.discounted_price || null };
+}
+
+export type SaleStatus = "none" | "scheduled" | "live" | "ended";
+
+/** Where a scheduled sale stands, for the admin product list */
+export function saleStatus(
+  sale: { sale_price?: string | number | null; sale_starts_at?: string | null; sale_ends_at?: string | null },
+  now = new Date()
+): SaleStatus {
+  if (sale.sale_price == null || sale.sale_price === "") return "none";
+  if (sale.sale_starts_at && new Date(sale.sale_starts_at) > now) return "scheduled";
+  if (sale.sale_ends_at && new Date(sale.sale_ends_at) <= now) return "ended";
+  return "live";
+}
+
+/** "Ends 24 Oct" for a sale end time, or null when it runs until removed */
+export function formatSaleEnd(endsAt?: string | null): string | null {
+  if (!endsAt) return null;
+  const date = new Date(endsAt);
+  if (isNaN(date.getTime())) return null;
+  return `Ends ${date.toLocaleDateString(undefined, { day: "numeric", month: "short" })}`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Query Client & Keys
+ * Shared TanStack Query client and the key factory every data hook builds
+ * on. Keys are hierarchical so a mutation can invalidate a whole family
+ * (e.g. every product list) with a single prefix.
+ */
+
+import { QueryCache, QueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import type { ProductSort } from "@/lib/api";
+import { NetworkError, isApiError } from "@/lib/errors";
+
+export interface ProductListFilters {
+  page: number;
+  limit: number;
+  categoryId?: number;
+  search?: string;
+  attributeFilters?: Record<number, string>;
+  minPrice?: string;
+  maxPrice?: string;
+  sort?: ProductSort;
+  onSale?: boolean;
+}
+
+export interface AdminProductFilters {
+  category?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AdminOrderFilters {
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AdminReviewFilters {
+  is_approved?: boolean;
+  rating?: number;
+  search?: string;
+  page?: number;
+}
+
+export const queryKeys = {
+  products: {
+    all: ["products"] as const,
+    lists: () => [...queryKeys.products.all, "list"] as const,
+    list: (filters: ProductListFilters) => [...queryKeys.products.lists(), filters] as const,
+    detail: (id: number) => [...queryKeys.products.all, "detail", id] as const,
+  },
+  categories: {
+    all: ["categories"] as const,
+    list: () => [...queryKeys.categories.all, "list"] as const,
+    attributes: (categoryId: number) => [...queryKeys.categories.all, "attributes", categoryId] as const,
+    sizeChart: (categoryId: number) => [...queryKeys.categories.all, "size-chart", categoryId] as const,
+  },
+  // Saved body measurements, per account
+  measurements: (userId: number) => ["measurements", userId] as const,
+  stockAlerts: (userId: number) => ["stock-alerts", userId] as const,
+  orders: (userId: number) => ["orders", userId] as const,
+  // A promo code priced against one state of the cart
+  couponQuote: (userId: number, code: string, cart: string) => ["coupon-quote", userId, code, cart] as const,
+  popularSearches: ["popular-searches"] as const,
+  courierPartners: ["courier-partners"] as const,
+  admin: {
+    all: ["admin"] as const,
+    stats: () => [...queryKeys.admin.all, "stats"] as const,
+    salesChart: () => [...queryKeys.admin.all, "sales-chart"] as const,
+    stockAlertDemand: () => [...queryKeys.admin.all, "stock-alert-demand"] as const,
+    orders: {
+      all: ["admin", "orders"] as const,
+      list: (filters: AdminOrderFilters) => [...queryKeys.admin.orders.all, "list", filters] as const,
+      detail: (id: number) => [...queryKeys.admin.orders.all, "detail", id] as const,
+    },
+    products: {
+      all: ["admin", "products"] as const,
+      list: (filters: AdminProductFilters) => [...queryKeys.admin.products.all, "list", filters] as const,
+      detail: (id: number) => [...queryKeys.admin.products.all, "detail", id] as const,
+    },
+    categories: {
+      all: ["admin", "categories"] as const,
+      list: () => [...queryKeys.admin.categories.all, "list"] as const,
+      // Includes categories without products, used for filters
+      listAll: () => [...queryKeys.admin.categories.all, "list-all"] as const,
+      attributes: (categoryId: number) => [...queryKeys.admin.categories.all, "attributes", categoryId] as const,
+    },
+    coupons: {
+      all: ["admin", "coupons"] as const,
+      list: () => [...queryKeys.admin.coupons.all, "list"] as const,
+    },
+    users: {
+      all: ["admin", "users"] as const,
+      list: () => [...queryKeys.admin.users.all, "list"] as const,
+    },
+    reviews: {
+      all: ["admin", "reviews"] as const,
+      list: (filters: AdminReviewFilters) => [...queryKeys.admin.reviews.all, "list", filters] as const,
+      stats: () => [...queryKeys.admin.reviews.all, "stats"] as const,
+    },
+  },
+};
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    queryMeta: {
+      // Skip the global error toast when the page renders its own error state
+      silent?: boolean;
+    };
+  }
+}
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      // Offline is reported by the banner, not once per failed query
+      if (query.meta?.silent || error instanceof NetworkError) return;
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      retry: (failureCount, error) => {
+        if (isApiError(error) && !error.retryable) return false;
+        return failureCount < 2;
+      },
+    },
+  },
+});
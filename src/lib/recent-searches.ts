@@ -0,0 +1,41 @@
+/**
+ * Recent Searches
+ * The shopper's last few search terms, kept in localStorage so the search
+ * typeahead can offer them again. Newest first, without duplicates.
+ */
+
+const RECENT_SEARCHES_KEY = "recent_searches";
+const MAX_RECENT_SEARCHES = 5;
+
+export function getRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((term): term is string => typeof term === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearches(terms: string[]) {
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(terms));
+  } catch {
+    // Storage unavailable — recent searches are a convenience only
+  }
+}
+
+/** Record a search and return the updated list */
+export function addRecentSearch(term: string): string[] {
+  const trimmed = term.trim();
+  if (!trimmed) return getRecentSearches();
+  const terms = [
+    trimmed,
+    ...getRecentSearches().filter((existing) => existing.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  saveRecentSearches(terms);
+  return terms;
+}
+
+export function clearRecentSearches() {
+  saveRecentSearches([]);
+}
@@ -0,0 +1,27 @@
+/**
+ * Post-login redirects
+ * Guarded routes send visitors to `/login?returnTo=…`; Login sends them back
+ * once they are signed in. Only same-origin paths are honoured so the query
+ * parameter cannot be used as an open redirect.
+ */
+
+import type { Location } from "react-router-dom";
+
+const RETURN_TO_PARAM = "returnTo";
+
+/** Login URL that brings the user back to `from` (a path or router location) afterwards */
+export function loginPath(from?: string | Pick<Location, "pathname" | "search" | "hash">) {
+  const returnTo = typeof from === "string" ? from : from && `${from.pathname}${from.search}${from.hash}`;
+  if (!returnTo || returnTo.startsWith("/login")) return "/login";
+  return `/login?${RETURN_TO_PARAM}=${encodeURIComponent(returnTo)}`;
+}
+
+/** The `returnTo` path from a query string, or null when absent or unsafe */
+export function readReturnTo(search: string): string | null {
+  const returnTo = new URLSearchParams(search).get(RETURN_TO_PARAM);
+  // Must be an absolute path on this site — not `//host` or `/\host`
+  if (!returnTo || !returnTo.startsWith("/") || returnTo.startsWith("//") || returnTo.startsWith("/\\")) {
+    return null;
+  }
+  return returnTo;
+}
@@ -0,0 +1,1097 @@
+/**
+ * Response Schemas
+ * zod schemas for the backend payloads the UI relies on, applied in
+ * `lib/api.ts`. Objects only describe the fields the frontend reads and pass
+ * everything else through untouched.
+ *
+ * Mismatches degrade instead of crashing pages: list entries that fail are
+ * dropped, non-essential fields fall back to a default, and only a payload
+ * missing essentials is rejected with a `ResponseShapeError`. In development
+ * every mismatch is logged with its path and the received body.
+ */
+
+import { z } from "zod";
+import { ResponseShapeError } from "@/lib/errors";
+import type { AuthResponse, AuthTokens, Review, ReviewStats, User } from "@/lib/api";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ApiEnvelope<T> {
+  status: string;
+  message?: string;
+  data: T;
+}
+
+export interface AdminUser extends Omit<User, "role"> {
+  // Admin listings may report roles the storefront doesn't model
+  role: string;
+  is_staff?: boolean;
+  is_superuser?: boolean;
+}
+
+export interface Category {
+  id: number;
+  name: string;
+}
+
+export interface CategoryAttribute {
+  id: number;
+  name: string;
+  field_type: "text" | "number" | "select";
+  is_required: boolean;
+  options: Array<{ id: number; value: string }>;
+}
+
+export interface ProductAttributeValue {
+  id?: number;
+  name: string;
+  value: string;
+  field_type?: string;
+}
+
+export interface ProductVariant {
+  id: number;
+  // Value on the size axis, "" when the variant has none
+  size: string;
+  stock: number;
+  // One value per option axis, e.g. { size: "M", colour: "Navy" }
+  options: Record<string, string>;
+  sku?: string | null;
+  // Replaces the product price when set
+  price?: string | null;
+  // Sale price while the product's promotion is running
+  discounted_price?: string | null;
+  // Photo to show when the variant is picked
+  image?: string | null;
+}
+
+export interface ProductSummary {
+  id: number;
+  name: string;
+  price: string;
+  // Sale price, only sent while the promotion is running
+  discounted_price?: string | null;
+  // When the running sale stops, null for open-ended sales
+  sale_ends_at?: string | null;
+  category: Category | null;
+  image: string | null;
+  stock: number;
+  attributes?: ProductAttributeValue[];
+}
+
+export interface ProductImage {
+  id: number;
+  image: string;
+  alt_text?: string | null;
+  is_primary?: boolean;
+}
+
+export interface ProductDetail extends ProductSummary {
+  description: string;
+  // In display order; `image` stays the primary one
+  images: ProductImage[];
+  variants: ProductVariant[];
+  attributes: ProductAttributeValue[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+export interface NumberBounds {
+  min: number;
+  max: number;
+}
+
+export interface AttributeFacet {
+  id: number;
+  // Select attributes: products matching each option
+  options: FacetOption[];
+  // Number attributes: smallest and largest value on offer
+  bounds?: NumberBounds | null;
+}
+
+/**
+ * Filter metadata for a product list. Each facet is computed with every
+ * other active filter applied but not its own, so counts show what picking
+ * that option would return.
+ */
+export interface ProductFacets {
+  attributes: AttributeFacet[];
+  price: NumberBounds | null;
+}
+
+export type MeasurementUnit = "cm" | "in";
+
+/**
+ * Body measurements per size for one category, e.g. chest and waist for
+ * shirts. Each value is the range the size fits, in the chart's `unit`;
+ * a single figure has `min` equal to `max`.
+ */
+export interface SizeChart {
+  unit: MeasurementUnit;
+  // Column order, e.g. ["Chest", "Waist", "Length"]
+  measurements: string[];
+  sizes: Array<{ size: string; values: Record<string, NumberBounds | null> }>;
+}
+
+// A shopper's own measurements in centimetres, keyed by measurement name
+export type BodyMeasurements = Record<string, number>;
+
+export interface ProductList {
+  products: ProductSummary[];
+  pagination: { page?: number; total_pages: number };
+  // Absent when the backend does not compute facets
+  facets?: ProductFacets;
+}
+
+export interface CartItem {
+  id: number;
+  product: {
+    id: number;
+    name: string;
+    price: string;
+    discounted_price: string;
+    image?: string;
+    // Shipping weight, when the product has one on file
+    weight_grams?: number | null;
+    // Sets the GST slab
+    category?: Category | null;
+  };
+  quantity: number;
+  size?: string;
+  variant_id?: number | null;
+  options?: Record<string, string> | null;
+}
+
+export interface WishlistItem {
+  id: number;
+  product: ProductSummary;
+  added_at?: string;
+}
+
+/** A request to be told when a sold-out product or variant is restocked */
+export interface StockAlert {
+  id: number;
+  product: {
+    id: number;
+    name: string;
+    image?: string | null;
+  };
+  // Null for products sold without variants
+  variant_id?: number | null;
+  size?: string | null;
+  options?: Record<string, string> | null;
+  created_at: string;
+  // Set once the restock email has gone out
+  notified_at?: string | null;
+}
+
+/** Shoppers waiting on one product or variant, for the admin */
+export interface StockAlertDemand {
+  product_id: number;
+  variant_id: number | null;
+  count: number;
+}
+
+export interface OrderItem {
+  id: number;
+  product_id?: number;
+  product_name: string;
+  product_image?: string;
+  quantity: number;
+  price: string;
+  total: string;
+  has_review?: boolean;
+  size?: string | null;
+  options?: Record<string, string> | null;
+  sku?: string | null;
+  category?: string | null;
+  // GST percent charged on the line when the order was placed
+  gst_rate?: number | null;
+}
+
+export type CouponType = "percentage" | "flat" | "free_shipping";
+
+/** A promo code checked against the shopper's current cart */
+export interface CouponQuote {
+  code: string;
+  discount_type: CouponType;
+  // Percent for percentage coupons, rupees for flat ones
+  value: string;
+  description?: string | null;
+  // Only items in this category count towards the discount
+  category?: Category | null;
+  // Taken off the items in this cart; shipping is covered by `free_shipping`
+  discount_amount: string;
+  free_shipping: boolean;
+}
+
+/** A discount code as managers configure it, with its redemption stats */
+export interface AdminCoupon {
+  id: number;
+  code: string;
+  description?: string | null;
+  discount_type: CouponType;
+  value: string;
+  // Cart value the items must reach, null for none
+  min_order_value?: string | null;
+  // Open ends mean "from now" and "until deactivated"
+  starts_at?: string | null;
+  ends_at?: string | null;
+  // Null for unlimited
+  usage_limit?: number | null;
+  per_customer_limit?: number | null;
+  // Both empty when the whole cart is eligible
+  category_ids: number[];
+  product_ids: number[];
+  is_active: boolean;
+  times_used: number;
+  customers: number;
+  // Total taken off orders with this code
+  discount_given: string;
+  created_at?: string;
+}
+
+/** A discount line on a placed order */
+export interface OrderDiscount {
+  code: string;
+  description?: string | null;
+  amount: string;
+  free_shipping: boolean;
+}
+
+export interface Order {
+  id: number;
+  status: string;
+  total_amount: string;
+  // Items before discounts; older orders only have the total
+  subtotal?: string | null;
+  discounts: OrderDiscount[];
+  shipping_method?: string | null;
+  // What the shopper paid for delivery
+  shipping_cost?: string | null;
+  created_at: string;
+  updated_at?: string;
+  invoice_pdf?: string;
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    pincode: string;
+  } | null;
+  items: OrderItem[];
+}
+
+/** A row of the admin orders table */
+export interface AdminOrderSummary {
+  id: number;
+  customer: string;
+  total_amount: string;
+  status: string;
+  created_at: string;
+  items_count: number;
+}
+
+export interface AdminOrderDetail extends Omit<AdminOrderSummary, "items_count"> {
+  email: string;
+  contact_phone?: string | null;
+  awb_number?: string | null;
+  courier_partner?: string | null;
+  updated_at?: string;
+  items: OrderItem[];
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    zip: string;
+  } | null;
+}
+
+export interface CourierPartner {
+  id: number;
+  name: string;
+}
+
+/** A row of the admin products table */
+export interface AdminProductSummary {
+  id: number;
+  name: string;
+  description: string;
+  price: string;
+  // Set whether or not the sale is running; see `saleStatus`
+  sale_price?: string | null;
+  sale_starts_at?: string | null;
+  sale_ends_at?: string | null;
+  stock: number;
+  // Category name, "" when the product has none
+  category: string;
+  created_at: string;
+}
+
+export interface AdminProductVariant {
+  id: number;
+  size?: string | null;
+  options?: Record<string, string> | null;
+  sku?: string | null;
+  stock: number;
+  price?: string | null;
+  sale_price?: string | null;
+  image_id?: number | null;
+}
+
+/** A product as the admin edit form loads it */
+export interface AdminProductDetail {
+  id: number;
+  name: string;
+  description: string;
+  price: string;
+  sale_price?: string | null;
+  sale_starts_at?: string | null;
+  sale_ends_at?: string | null;
+  stock: number;
+  category_id?: number | null;
+  images: ProductImage[];
+  variants: AdminProductVariant[];
+  attributes: Array<{ id: number; value: string }>;
+}
+
+export interface AdminCategory extends Category {
+  description: string;
+  created_at: string;
+}
+
+export interface AdminReview extends Review {
+  product_name: string;
+  product_image: string | null;
+}
+
+export interface AdminReviewStats {
+  total_reviews: number;
+  approved_reviews: number;
+  pending_reviews: number;
+  average_rating: number;
+}
+
+export interface DashboardStats {
+  total_revenue: number;
+  revenue_change: number;
+  new_users: number;
+  users_change: number;
+  page_views: number;
+  total_orders: number;
+  orders_change: number;
+}
+
+export interface SalesChartPoint {
+  day: string;
+  sales: number;
+}
+
+export interface UserProfile {
+  // Null until the user first saves their profile
+  id: number | null;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  phone_number: string;
+  avatar: string | null;
+  bio: string;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface ProfileResponse {
+  user: Pick<User, "id" | "username" | "email">;
+  profile: UserProfile;
+}
+
+export type AddressType = "home" | "work" | "billing" | "shipping" | "other";
+
+/** An address saved to the user's account */
+export interface UserAddress {
+  id: number;
+  address_type: AddressType;
+  street_address: string;
+  apartment_number?: string | null;
+  city: string;
+  state: string;
+  zip_code: string;
+  country: string;
+  is_default: boolean;
+  created_at?: string;
+}
+
+// ============================================================================
+// Diagnostics
+// ============================================================================
+
+// Issues recovered from during the current parse; parsing is synchronous so
+// one collector is enough
+let recovered: string[] | null = null;
+
+function formatPath(path: Array<string | number>) {
+  return path.reduce<string>(
+    (out, key) => (typeof key === "number" ? `${out}[${key}]` : out ? `${out}.${key}` : key),
+    ""
+  );
+}
+
+function formatIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${formatPath(issue.path) || "(root)"}: ${issue.message}`);
+}
+
+function reportMismatch(endpoint: string, issues: string[], body: unknown, fatal: boolean) {
+  const summary = `${endpoint}: response does not match the expected shape${fatal ? "" : " (recovered)"}`;
+  if (import.meta.env.DEV) {
+    console.error(`[api] ${summary}\n${issues.map((issue) => `  • ${issue}`).join("\n")}`, body);
+  } else {
+    console.warn(`[api] ${summary} — ${issues.length} issue(s)`);
+  }
+}
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Validate a response body. Returns the parsed data, or throws a
+ * `ResponseShapeError` when the body cannot be used at all.
+ */
+export function parseResponse<T>(schema: Schema<T>, body: unknown, endpoint: string): T {
+  recovered = [];
+  try {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      const issues = formatIssues(result.error);
+      reportMismatch(endpoint, issues, body, true);
+      throw new ResponseShapeError("Received an unexpected response from the server.", issues, { status: 200 });
+    }
+    if (recovered.length > 0) reportMismatch(endpoint, recovered, body, false);
+    return result.data;
+  } finally {
+    recovered = null;
+  }
+}
+
+// ============================================================================
+// Building blocks
+// ============================================================================
+
+// The app compiles without `strictNullChecks`, where z.infer reports every
+// key as optional, so exported schemas are pinned to the interfaces above
+const typed = <T>(schema: z.ZodTypeAny) => schema as Schema<T>;
+
+// Backend objects routinely carry more fields than we read; keep them all
+const record = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+/** Use `value` when the field is missing or malformed */
+function fallback<T extends z.ZodTypeAny>(schema: T, value: z.infer<T>) {
+  return schema.catch(({ error }) => {
+    recovered?.push(...formatIssues(error).map((issue) => `${issue} (using default)`));
+    return value;
+  });
+}
+
+// Marks list entries that failed validation until they are filtered out
+const DROPPED = Symbol("dropped");
+
+/** Array whose malformed entries are dropped rather than failing the whole list */
+function listOf(item: z.ZodTypeAny) {
+  return z
+    .array(
+      item.catch(({ error }) => {
+        recovered?.push(...formatIssues(error).map((issue) => `${issue} (entry dropped)`));
+        return DROPPED;
+      })
+    )
+    .transform((entries) => entries.filter((entry) => entry !== DROPPED));
+}
+
+// The standard `{ status, message, data }` envelope
+const envelope = (data: z.ZodTypeAny) =>
+  record({
+    status: z.string(),
+    message: z.string().optional(),
+    data,
+  });
+
+const id = z.number();
+// DRF serialises decimals as strings; some endpoints send plain numbers
+const decimal = z.union([z.string(), z.number()]).transform(String);
+const count = z.coerce.number();
+const timestamp = z.string();
+
+// ============================================================================
+// Auth & users
+// ============================================================================
+
+const userObject = record({
+  id,
+  username: z.string(),
+  email: z.string(),
+  role: z.enum(["manager", "customer"]),
+  phone_number: z.string().nullish(),
+});
+
+export const userSchema = typed<User>(userObject);
+
+export const authTokensSchema = typed<AuthTokens>(
+  record({
+    access: z.string(),
+    refresh: z.string(),
+  })
+);
+
+export const authResponseSchema = typed<AuthResponse>(
+  envelope(record({ user: userSchema, tokens: authTokensSchema }).optional())
+);
+
+export const adminUsersResponseSchema = typed<ApiEnvelope<AdminUser[]>>(
+  envelope(
+    listOf(
+      userObject.extend({
+        role: z.string(),
+        is_staff: z.boolean().optional(),
+        is_superuser: z.boolean().optional(),
+      })
+    )
+  )
+);
+
+export const profileResponseSchema = typed<ApiEnvelope<ProfileResponse>>(
+  envelope(
+    record({
+      user: record({ id, username: z.string(), email: z.string() }),
+      profile: record({
+        id: fallback(id.nullable(), null),
+        first_name: fallback(z.string(), ""),
+        last_name: fallback(z.string(), ""),
+        date_of_birth: fallback(z.string().nullable(), null),
+        phone_number: fallback(z.string(), ""),
+        avatar: fallback(z.string().nullable(), null),
+        bio: fallback(z.string(), ""),
+        created_at: fallback(timestamp.nullable(), null),
+        updated_at: fallback(timestamp.nullable(), null),
+      }),
+    })
+  )
+);
+
+export const addressesResponseSchema = typed<ApiEnvelope<UserAddress[]>>(
+  envelope(
+    listOf(
+      record({
+        id,
+        address_type: fallback(z.enum(["home", "work", "billing", "shipping", "other"]), "other"),
+        street_address: z.string(),
+        apartment_number: z.string().nullish(),
+        city: z.string(),
+        state: z.string(),
+        zip_code: z.string(),
+        country: fallback(z.string(), ""),
+        is_default: fallback(z.boolean(), false),
+        created_at: timestamp.optional(),
+      })
+    )
+  )
+);
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+const categoryObject = record({
+  id,
+  name: z.string(),
+});
+
+export const categoryAttributeSchema = typed<CategoryAttribute>(
+  record({
+    id,
+    name: z.string(),
+    field_type: z.enum(["text", "number", "select"]),
+    is_required: fallback(z.boolean(), false),
+    // Only select attributes carry options
+    options: listOf(record({ id, value: z.string() })).default([]),
+  })
+);
+
+const attributeValueObject = record({
+  name: z.string(),
+  value: z.string(),
+});
+
+const productSummaryObject = record({
+  id,
+  name: z.string(),
+  price: decimal,
+  discounted_price: decimal.nullish(),
+  sale_ends_at: timestamp.nullish(),
+  category: categoryObject.nullish(),
+  image: z.string().nullish(),
+  stock: count,
+  attributes: listOf(attributeValueObject).optional(),
+});
+
+export const productSummarySchema = typed<ProductSummary>(productSummaryObject);
+
+const productImageObject = record({
+  id,
+  image: z.string(),
+  alt_text: z.string().nullish(),
+  is_primary: z.boolean().optional(),
+});
+
+const optionsObject = z.record(z.string());
+
+const productVariantObject = record({
+  id,
+  size: fallback(z.string().nullish(), ""),
+  stock: count,
+  options: fallback(optionsObject.nullish(), null),
+  sku: z.string().nullish(),
+  price: decimal.nullish(),
+  discounted_price: decimal.nullish(),
+  image: z.string().nullish(),
+}).transform((variant) => {
+  // Variants from before option axes only have a size
+  const options =
+    variant.options && Object.keys(variant.options).length > 0
+      ? variant.options
+      : variant.size
+        ? { size: variant.size }
+        : {};
+  return { ...variant, options, size: variant.size || options.size || "" };
+});
+
+export const productDetailSchema = typed<ProductDetail>(
+  productSummaryObject.extend({
+    description: fallback(z.string(), ""),
+    images: fallback(listOf(productImageObject), []),
+    variants: fallback(listOf(productVariantObject), []),
+    attributes: fallback(listOf(attributeValueObject), []),
+  })
+);
+
+const adminProductSummaryObject = record({
+  id,
+  name: z.string(),
+  description: fallback(z.string(), ""),
+  price: decimal,
+  sale_price: decimal.nullish(),
+  sale_starts_at: timestamp.nullish(),
+  sale_ends_at: timestamp.nullish(),
+  stock: count,
+  category: fallback(z.string(), ""),
+  created_at: timestamp,
+});
+
+export const adminProductsResponseSchema = typed<ApiEnvelope<AdminProductSummary[]>>(
+  envelope(listOf(adminProductSummaryObject))
+);
+
+export const adminProductDetailResponseSchema = typed<ApiEnvelope<AdminProductDetail>>(
+  envelope(
+    record({
+      id,
+      name: z.string(),
+      description: fallback(z.string(), ""),
+      price: decimal,
+      sale_price: decimal.nullish(),
+      sale_starts_at: timestamp.nullish(),
+      sale_ends_at: timestamp.nullish(),
+      stock: count,
+      category_id: id.nullish(),
+      images: fallback(listOf(productImageObject), []),
+      variants: fallback(
+        listOf(
+          record({
+            id,
+            size: z.string().nullish(),
+            options: fallback(optionsObject.nullish(), null),
+            sku: z.string().nullish(),
+            stock: count,
+            price: decimal.nullish(),
+            sale_price: decimal.nullish(),
+            image_id: id.nullish(),
+          })
+        ),
+        []
+      ),
+      attributes: fallback(listOf(record({ id, value: z.string() })), []),
+    })
+  )
+);
+
+export const adminCategoriesResponseSchema = typed<ApiEnvelope<AdminCategory[]>>(
+  envelope(
+    listOf(
+      categoryObject.extend({
+        description: fallback(z.string(), ""),
+        created_at: timestamp,
+      })
+    )
+  )
+);
+
+// Every category, including those without products
+export const adminAllCategoriesResponseSchema = typed<ApiEnvelope<Category[]>>(envelope(listOf(categoryObject)));
+
+const boundsObject = record({
+  min: z.coerce.number(),
+  max: z.coerce.number(),
+});
+
+const productFacetsObject = record({
+  attributes: fallback(
+    listOf(
+      record({
+        id,
+        options: fallback(listOf(record({ value: z.string(), count })), []),
+        bounds: fallback(boundsObject.nullish(), null),
+      })
+    ),
+    []
+  ),
+  price: fallback(boundsObject.nullish(), null),
+});
+
+const sizeChartObject = record({
+  unit: fallback(z.enum(["cm", "in"]), "cm"),
+  measurements: listOf(z.string()),
+  sizes: listOf(
+    record({
+      size: z.string(),
+      values: fallback(z.record(boundsObject.nullable()), {}),
+    })
+  ),
+});
+
+export const sizeChartResponseSchema = typed<ApiEnvelope<{ size_chart: SizeChart | null }>>(
+  envelope(record({ size_chart: fallback(sizeChartObject.nullish(), null) }))
+);
+
+export const measurementsResponseSchema = typed<ApiEnvelope<{ measurements: BodyMeasurements }>>(
+  envelope(record({ measurements: fallback(z.record(z.coerce.number()), {}) }))
+);
+
+export const productListResponseSchema = typed<ApiEnvelope<ProductList>>(
+  envelope(
+    record({
+      products: listOf(productSummaryObject),
+      pagination: fallback(record({ page: count.optional(), total_pages: count }), { total_pages: 1 }),
+      facets: fallback(productFacetsObject.optional(), undefined),
+    })
+  )
+);
+
+export const featuredProductsResponseSchema = typed<ApiEnvelope<{ products: ProductSummary[] }>>(
+  envelope(record({ products: listOf(productSummaryObject) }))
+);
+
+export const productDetailResponseSchema = typed<ApiEnvelope<ProductDetail>>(envelope(productDetailSchema));
+
+export const categoriesResponseSchema = typed<ApiEnvelope<{ categories: Category[] }>>(
+  envelope(record({ categories: listOf(categoryObject) }))
+);
+
+export const categoryAttributesResponseSchema = typed<ApiEnvelope<{ attributes: CategoryAttribute[] }>>(
+  envelope(record({ attributes: listOf(categoryAttributeSchema) }))
+);
+
+export const popularSearchesResponseSchema = typed<ApiEnvelope<{ queries: string[] }>>(
+  envelope(record({ queries: listOf(z.string()) }))
+);
+
+// ============================================================================
+// Cart & orders
+// ============================================================================
+
+export const cartItemSchema = typed<CartItem>(
+  record({
+    id,
+    product: record({
+      id,
+      name: z.string(),
+      price: decimal,
+      discounted_price: decimal.nullish(),
+      image: z.string().nullish(),
+      weight_grams: count.nullish(),
+      category: categoryObject.nullish(),
+    }),
+    quantity: count,
+    size: z.string().nullish(),
+    variant_id: id.nullish(),
+    options: fallback(optionsObject.nullish(), null),
+  })
+);
+
+export const cartResponseSchema = typed<ApiEnvelope<{ cart: { items: CartItem[] } | null }>>(
+  envelope(
+    record({
+      cart: record({ items: listOf(cartItemSchema) }).nullish(),
+    })
+  )
+);
+
+export const wishlistItemSchema = typed<WishlistItem>(
+  record({
+    id,
+    product: productSummaryObject,
+    added_at: timestamp.optional(),
+  })
+);
+
+export const wishlistResponseSchema = typed<ApiEnvelope<{ items: WishlistItem[] }>>(
+  envelope(record({ items: listOf(wishlistItemSchema) }))
+);
+
+export const stockAlertsResponseSchema = typed<ApiEnvelope<{ alerts: StockAlert[] }>>(
+  envelope(
+    record({
+      alerts: listOf(
+        record({
+          id,
+          product: record({ id, name: z.string(), image: z.string().nullish() }),
+          variant_id: id.nullish(),
+          size: z.string().nullish(),
+          options: fallback(optionsObject.nullish(), null),
+          created_at: timestamp,
+          notified_at: timestamp.nullish(),
+        })
+      ),
+    })
+  )
+);
+
+export const stockAlertDemandResponseSchema = typed<ApiEnvelope<{ demand: StockAlertDemand[] }>>(
+  envelope(
+    record({
+      demand: listOf(record({ product_id: id, variant_id: fallback(id.nullable(), null), count })),
+    })
+  )
+);
+
+const orderItemObject = record({
+  id,
+  product_id: id.optional(),
+  product_name: z.string(),
+  product_image: z.string().nullish(),
+  quantity: count,
+  price: decimal,
+  total: decimal,
+  has_review: z.boolean().optional(),
+  size: z.string().nullish(),
+  options: fallback(optionsObject.nullish(), null),
+  sku: z.string().nullish(),
+  category: z.string().nullish(),
+  gst_rate: z.coerce.number().nullish(),
+});
+
+export const orderSchema = typed<Order>(
+  record({
+    id,
+    status: z.string(),
+    total_amount: decimal,
+    created_at: timestamp,
+    updated_at: timestamp.optional(),
+    invoice_pdf: z.string().nullish(),
+    subtotal: decimal.nullish(),
+    discounts: fallback(
+      listOf(
+        record({
+          code: z.string(),
+          description: z.string().nullish(),
+          amount: decimal,
+          free_shipping: fallback(z.boolean(), false),
+        })
+      ),
+      []
+    ),
+    shipping_method: z.string().nullish(),
+    shipping_cost: decimal.nullish(),
+    address: fallback(
+      record({
+        street: z.string(),
+        city: z.string(),
+        state: z.string(),
+        pincode: z.string(),
+      }).nullable(),
+      null
+    ),
+    items: listOf(orderItemObject),
+  })
+);
+
+export const couponQuoteResponseSchema = typed<ApiEnvelope<{ coupon: CouponQuote }>>(
+  envelope(
+    record({
+      coupon: record({
+        code: z.string(),
+        discount_type: z.enum(["percentage", "flat", "free_shipping"]),
+        value: fallback(decimal, "0"),
+        description: z.string().nullish(),
+        category: categoryObject.nullish(),
+        discount_amount: fallback(decimal, "0"),
+        free_shipping: fallback(z.boolean(), false),
+      }),
+    })
+  )
+);
+
+export const adminCouponSchema = typed<AdminCoupon>(
+  record({
+    id,
+    code: z.string(),
+    description: z.string().nullish(),
+    discount_type: z.enum(["percentage", "flat", "free_shipping"]),
+    value: fallback(decimal, "0"),
+    min_order_value: decimal.nullish(),
+    starts_at: timestamp.nullish(),
+    ends_at: timestamp.nullish(),
+    usage_limit: count.nullish(),
+    per_customer_limit: count.nullish(),
+    category_ids: fallback(listOf(id), []),
+    product_ids: fallback(listOf(id), []),
+    is_active: fallback(z.boolean(), true),
+    times_used: fallback(count, 0),
+    customers: fallback(count, 0),
+    discount_given: fallback(decimal, "0"),
+    created_at: timestamp.optional(),
+  })
+);
+
+export const adminCouponsResponseSchema = typed<ApiEnvelope<{ coupons: AdminCoupon[] }>>(
+  envelope(record({ coupons: listOf(adminCouponSchema) }))
+);
+
+export const ordersResponseSchema = typed<ApiEnvelope<{ orders: Order[] }>>(
+  envelope(record({ orders: listOf(orderSchema) }))
+);
+
+const adminOrderFields = {
+  id,
+  customer: fallback(z.string(), ""),
+  total_amount: decimal,
+  status: z.string(),
+  created_at: timestamp,
+};
+
+export const adminOrdersResponseSchema = typed<ApiEnvelope<AdminOrderSummary[]>>(
+  envelope(listOf(record({ ...adminOrderFields, items_count: fallback(count, 0) })))
+);
+
+export const adminOrderDetailResponseSchema = typed<ApiEnvelope<AdminOrderDetail>>(
+  envelope(
+    record({
+      ...adminOrderFields,
+      email: fallback(z.string(), ""),
+      contact_phone: z.string().nullish(),
+      awb_number: z.string().nullish(),
+      courier_partner: z.string().nullish(),
+      updated_at: timestamp.optional(),
+      items: listOf(orderItemObject),
+      address: fallback(
+        record({
+          street: z.string(),
+          city: z.string(),
+          state: z.string(),
+          zip: fallback(z.string(), ""),
+        }).nullable(),
+        null
+      ),
+    })
+  )
+);
+
+export const courierPartnersResponseSchema = typed<ApiEnvelope<CourierPartner[]>>(
+  envelope(listOf(record({ id, name: z.string() })))
+);
+
+// ============================================================================
+// Reviews
+// ============================================================================
+
+const reviewObject = record({
+  id,
+  product: id,
+  user: record({
+    id,
+    username: z.string(),
+  }),
+  rating: count,
+  title: fallback(z.string(), ""),
+  comment: fallback(z.string(), ""),
+  verified_purchase: fallback(z.boolean(), false),
+  is_approved: fallback(z.boolean(), false),
+  helpful_count: fallback(count, 0),
+  user_has_voted: fallback(z.boolean(), false),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+export const reviewSchema = typed<Review>(reviewObject);
+
+export const reviewsResponseSchema = typed<Review[]>(listOf(reviewObject));
+
+// Admin listings add the product's name and image
+export const adminReviewsResponseSchema = typed<AdminReview[]>(
+  listOf(
+    reviewObject.extend({
+      product_name: fallback(z.string(), ""),
+      product_image: z.string().nullish(),
+    })
+  )
+);
+
+const ratingCount = fallback(count, 0);
+
+export const reviewStatsSchema = typed<ReviewStats>(
+  record({
+    total_reviews: count,
+    // null when a product has no reviews yet
+    average_rating: fallback(count, 0),
+    rating_distribution: fallback(
+      z.object({ "5": ratingCount, "4": ratingCount, "3": ratingCount, "2": ratingCount, "1": ratingCount }),
+      { "5": 0, "4": 0, "3": 0, "2": 0, "1": 0 }
+    ),
+    verified_purchases: fallback(count, 0),
+  })
+);
+
+export const adminReviewStatsSchema = typed<AdminReviewStats>(
+  record({
+    total_reviews: count,
+    approved_reviews: fallback(count, 0),
+    pending_reviews: fallback(count, 0),
+    average_rating: fallback(count, 0),
+  })
+);
+
+// ============================================================================
+// Admin dashboard
+// ============================================================================
+
+const metric = fallback(count, 0);
+
+export const dashboardStatsResponseSchema = typed<ApiEnvelope<DashboardStats>>(
+  envelope(
+    record({
+      total_revenue: metric,
+      revenue_change: metric,
+      new_users: metric,
+      users_change: metric,
+      page_views: metric,
+      total_orders: metric,
+      orders_change: metric,
+    })
+  )
+);
+
+export const salesChartResponseSchema = typed<ApiEnvelope<SalesChartPoint[]>>(
+  envelope(listOf(record({ day: z.string(), sales: count })))
+);
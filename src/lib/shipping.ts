@@ -0,0 +1,152 @@
+/**
+ * Shipping
+ * Delivery fees and estimates for a cart. Rates live in SHIPPING_RATES:
+ * a base fee per method covering the first kilo, a fee for every extra
+ * half kilo, and a surcharge and delivery window per pincode zone.
+ * Standard shipping is free once the cart passes the threshold. The
+ * backend charges the same rates when the order is placed, so these
+ * figures are what the shopper pays.
+ */
+
+export type ShippingMethod = "standard" | "express";
+
+interface ShippingZone {
+  id: string;
+  label: string;
+  // Leading digits of the pincodes in the zone; the longest match wins
+  prefixes: string[];
+  surcharge: number;
+  // Business days to deliver, null where the method is not offered
+  days: Record<ShippingMethod, [number, number] | null>;
+}
+
+export const SHIPPING_RATES = {
+  // Cart value (after sale prices, before promo codes) for free standard shipping
+  freeShippingThreshold: 2000,
+  // Grams assumed for an item without a weight on file
+  defaultItemWeight: 400,
+  // Weight covered by the base fee, and the step each extra fee covers
+  baseWeight: 1000,
+  extraWeightStep: 500,
+  methods: {
+    standard: { label: "Standard", base: 79, perExtraStep: 25 },
+    express: { label: "Express", base: 199, perExtraStep: 40 },
+  } as Record<ShippingMethod, { label: string; base: number; perExtraStep: number }>,
+  zones: [
+    {
+      id: "metro",
+      label: "Metro",
+      prefixes: ["11", "400", "411", "560", "600", "500", "700", "380"],
+      surcharge: 0,
+      days: { standard: [2, 4], express: [1, 2] },
+    },
+    {
+      id: "remote",
+      label: "Remote",
+      // Jammu & Kashmir, Ladakh, the north-east and the islands
+      prefixes: ["18", "19", "737", "744", "78", "79", "682555"],
+      surcharge: 80,
+      days: { standard: [6, 9], express: null },
+    },
+  ] as ShippingZone[],
+  // Everywhere else
+  defaultZone: {
+    id: "national",
+    label: "Rest of India",
+    prefixes: [],
+    surcharge: 30,
+    days: { standard: [3, 5], express: [2, 3] },
+  } as ShippingZone,
+};
+
+export interface ShippingCart {
+  // Item total after sale prices
+  subtotal: number;
+  items: Array<{ quantity: number; product: { weight_grams?: number | null } }>;
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  label: string;
+  cost: number;
+  // Standard shipping waived because the cart passed the threshold
+  waived: boolean;
+  minDays: number;
+  maxDays: number;
+}
+
+const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+/** Zone for a delivery pincode; unknown or missing pincodes get the national rates */
+function shippingZone(pincode?: string | null): ShippingZone {
+  const code = pincode?.replace(/\s/g, "") ?? "";
+  if (!PINCODE_PATTERN.test(code)) return SHIPPING_RATES.defaultZone;
+  let best: ShippingZone | null = null;
+  let bestLength = 0;
+  for (const zone of SHIPPING_RATES.zones) {
+    for (const prefix of zone.prefixes) {
+      if (code.startsWith(prefix) && prefix.length > bestLength) {
+        best = zone;
+        bestLength = prefix.length;
+      }
+    }
+  }
+  return best ?? SHIPPING_RATES.defaultZone;
+}
+
+/** Total cart weight in grams */
+export function cartWeight(items: ShippingCart["items"]): number {
+  return items.reduce(
+    (sum, item) => sum + (item.product.weight_grams || SHIPPING_RATES.defaultItemWeight) * item.quantity,
+    0
+  );
+}
+
+/** Delivery methods available to a pincode, cheapest first */
+export function shippingOptions(cart: ShippingCart, pincode?: string | null): ShippingOption[] {
+  const zone = shippingZone(pincode);
+  const extraSteps = Math.max(
+    0,
+    Math.ceil((cartWeight(cart.items) - SHIPPING_RATES.baseWeight) / SHIPPING_RATES.extraWeightStep)
+  );
+
+  return (Object.keys(SHIPPING_RATES.methods) as ShippingMethod[]).flatMap((method) => {
+    const days = zone.days[method];
+    if (!days) return [];
+    const rate = SHIPPING_RATES.methods[method];
+    const waived = method === "standard" && cart.subtotal >= SHIPPING_RATES.freeShippingThreshold;
+    const cost = waived ? 0 : rate.base + rate.perExtraStep * extraSteps + zone.surcharge;
+    return [{ method, label: rate.label, cost, waived, minDays: days[0], maxDays: days[1] }];
+  });
+}
+
+/** The chosen method, or standard when the pincode cannot have it */
+export function selectShipping(
+  cart: ShippingCart,
+  pincode: string | null | undefined,
+  method: ShippingMethod
+): ShippingOption {
+  const options = shippingOptions(cart, pincode);
+  return options.find((option) => option.method === method) ?? options[0];
+}
+
+/** How far the cart is from free standard shipping */
+export function freeShippingProgress(subtotal: number): { remaining: number; percent: number } {
+  const threshold = SHIPPING_RATES.freeShippingThreshold;
+  return {
+    remaining: Math.max(0, threshold - subtotal),
+    percent: Math.min(100, Math.round((subtotal / threshold) * 100)),
+  };
+}
+
+/** "3-5 business days" */
+export function formatDeliveryEstimate(option: Pick<ShippingOption, "minDays" | "maxDays">): string {
+  const range = option.minDays === option.maxDays ? `${option.minDays}` : `${option.minDays}-${option.maxDays}`;
+  return `${range} business day${option.maxDays === 1 ? "" : "s"}`;
+}
+
+/** Delivery window for a method where no pincode is known yet */
+export function defaultDeliveryEstimate(method: ShippingMethod): string {
+  const [minDays, maxDays] = SHIPPING_RATES.defaultZone.days[method];
+  return formatDeliveryEstimate({ minDays, maxDays });
+}
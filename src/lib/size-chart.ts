@@ -0,0 +1,85 @@
+/**
+ * Size Charts
+ * Unit conversion and size recommendation for category size charts. Charts
+ * are stored in whichever unit the admin entered them in; shopper
+ * measurements are always kept in centimetres.
+ */
+
+import type { BodyMeasurements, MeasurementUnit, NumberBounds, SizeChart } from "@/lib/schemas";
+
+const CM_PER_INCH = 2.54;
+
+export function convertLength(value: number, from: MeasurementUnit, to: MeasurementUnit): number {
+  if (from === to) return value;
+  return from === "in" ? value * CM_PER_INCH : value / CM_PER_INCH;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** e.g. "86–91", or "88" for a single figure */
+export function formatBounds(bounds: NumberBounds | null | undefined, from: MeasurementUnit, to: MeasurementUnit): string {
+  if (!bounds) return "—";
+  const min = round(convertLength(bounds.min, from, to));
+  const max = round(convertLength(bounds.max, from, to));
+  return min === max ? `${min}` : `${min}–${max}`;
+}
+
+/** Parse "86-91" or "88" as typed in the admin editor; null when blank or invalid */
+export function parseBounds(text: string): NumberBounds | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(?:[-–]\s*(\d+(?:\.\d+)?))?$/);
+  if (!match) return null;
+  const min = parseFloat(match[1]);
+  const max = match[2] ? parseFloat(match[2]) : min;
+  return min <= max ? { min, max } : null;
+}
+
+export interface SizeRecommendation {
+  size: string;
+  // Measurements that fall inside the size's range
+  matched: string[];
+  // Measurements that were compared at all
+  compared: string[];
+}
+
+/**
+ * The size whose ranges fit the shopper best: the most measurements inside
+ * their range, then the smallest total distance outside it. Null when the
+ * chart shares no measurement with what the shopper entered.
+ */
+export function recommendSize(chart: SizeChart, measurements: BodyMeasurements): SizeRecommendation | null {
+  let best: (SizeRecommendation & { distance: number }) | null = null;
+
+  for (const row of chart.sizes) {
+    const matched: string[] = [];
+    const compared: string[] = [];
+    let distance = 0;
+
+    for (const name of chart.measurements) {
+      const bounds = row.values[name];
+      const value = measurements[name];
+      if (!bounds || value === undefined) continue;
+
+      compared.push(name);
+      const min = convertLength(bounds.min, chart.unit, "cm");
+      const max = convertLength(bounds.max, chart.unit, "cm");
+      if (value >= min && value <= max) {
+        matched.push(name);
+      } else {
+        distance += value < min ? min - value : value - max;
+      }
+    }
+
+    if (compared.length === 0) continue;
+    if (
+      !best ||
+      matched.length > best.matched.length ||
+      (matched.length === best.matched.length && distance < best.distance)
+    ) {
+      best = { size: row.size, matched, compared, distance };
+    }
+  }
+
+  if (!best) return null;
+  const { size, matched, compared } = best;
+  return { size, matched, compared };
+}
@@ -0,0 +1,80 @@
+/**
+ * Cross-tab Sync
+ * Relays auth, cart, wishlist and currency changes to every other open tab of the
+ * store. Uses BroadcastChannel where available and falls back to `storage`
+ * events.
+ * Messages are never delivered back to the tab that sent them.
+ */
+
+import type { AuthTokens, User } from "@/lib/api";
+import type { CurrencyCode } from "@/lib/money";
+
+export type SyncMessage =
+  | { type: "auth:login"; user: User; tokens: AuthTokens; remember: boolean }
+  | { type: "auth:logout" }
+  | { type: "auth:user"; user: User }
+  | { type: "auth:tokens"; tokens: AuthTokens }
+  | { type: "cart:changed" }
+  | { type: "wishlist:changed" }
+  | { type: "currency:changed"; currency: CurrencyCode };
+
+type SyncListener = (message: SyncMessage) => void;
+
+const CHANNEL_NAME = "noted-store";
+// Written and immediately removed; other tabs see it through the storage event
+const STORAGE_KEY = "noted-sync";
+
+const listeners = new Set<SyncListener>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+function deliver(message: SyncMessage) {
+  listeners.forEach((listener) => listener(message));
+}
+
+function handleStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY || !event.newValue) return;
+  try {
+    deliver(JSON.parse(event.newValue).message);
+  } catch {
+    // ignore malformed payloads
+  }
+}
+
+function connect() {
+  if (connected || typeof window === "undefined") return;
+  connected = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => deliver(event.data);
+  } else {
+    window.addEventListener("storage", handleStorage);
+  }
+}
+
+/** Send a message to all other tabs */
+export function broadcast(message: SyncMessage) {
+  connect();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  try {
+    // The timestamp makes repeated identical messages still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, at: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode, quota) — other tabs catch up on reload
+  }
+}
+
+/** Listen for messages from other tabs. Returns an unsubscribe function. */
+export function subscribe(listener: SyncListener) {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
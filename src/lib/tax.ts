@@ -0,0 +1,167 @@
+/**
+ * GST
+ * Catalogue prices include GST, so tax is worked back out of what the
+ * shopper pays. Each category has slabs by the price of a single piece;
+ * apparel, for example, is taxed lower up to ₹2500 a piece. Deliveries
+ * inside the store's own state split the tax into CGST and SGST, and
+ * everything else is IGST.
+ */
+
+import type { OrderTotals } from "@/lib/coupons";
+import { getPricing } from "@/lib/pricing";
+import type { CartItem, Order } from "@/lib/schemas";
+
+interface GstSlab {
+  // Highest price per piece (GST inclusive) at this rate, null for no limit
+  upTo: number | null;
+  rate: number;
+}
+
+export const GST_RATES = {
+  // State the store ships from
+  originState: "Maharashtra",
+  // Slabs by lower-cased category name
+  categories: {
+    accessories: [{ upTo: null, rate: 18 }],
+    bags: [{ upTo: null, rate: 18 }],
+    jewellery: [{ upTo: null, rate: 3 }],
+  } as Record<string, GstSlab[]>,
+  // Apparel and footwear, and any category not listed above
+  defaultSlabs: [
+    { upTo: 2500, rate: 5 },
+    { upTo: null, rate: 18 },
+  ] as GstSlab[],
+};
+
+export type SupplyType = "intra" | "inter";
+
+export interface TaxLine {
+  // What the shopper pays for the line, GST included
+  amount: number;
+  rate: number;
+}
+
+export interface TaxAmounts {
+  // Value before GST
+  taxable: number;
+  tax: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface TaxBreakdown extends TaxAmounts {
+  // Null until a delivery state is known
+  supply: SupplyType | null;
+  // Amounts per rate, highest first
+  byRate: Array<TaxAmounts & { rate: number }>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const normaliseState = (state: string) => state.trim().toLowerCase().replace(/&/g, "and").replace(/\s+/g, " ");
+
+/** GST rate for one piece at this price in this category */
+export function gstRate(unitPrice: number, category?: string | null): number {
+  const slabs = (category && GST_RATES.categories[category.trim().toLowerCase()]) || GST_RATES.defaultSlabs;
+  const slab = slabs.find((s) => s.upTo === null || unitPrice <= s.upTo) ?? slabs[slabs.length - 1];
+  return slab.rate;
+}
+
+/** Intra-state when delivering inside the store's state, inter-state otherwise */
+export function supplyType(deliveryState?: string | null): SupplyType | null {
+  if (!deliveryState?.trim()) return null;
+  return normaliseState(deliveryState) === normaliseState(GST_RATES.originState) ? "intra" : "inter";
+}
+
+/**
+ * Tax lines for an order: each item at its own rate with any discount
+ * shared out by value, and shipping at the highest item rate since it is
+ * part of supplying those goods.
+ */
+export function orderTaxLines(
+  items: Array<{ unitPrice: number; quantity: number; category?: string | null; rate?: number | null }>,
+  discount = 0,
+  shipping = 0
+): TaxLine[] {
+  const gross = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  const share = gross > 0 ? Math.min(discount, gross) / gross : 0;
+  const lines = items.map((item) => ({
+    amount: item.unitPrice * item.quantity * (1 - share),
+    rate: item.rate ?? gstRate(item.unitPrice, item.category),
+  }));
+  if (shipping > 0 && lines.length > 0) {
+    lines.push({ amount: shipping, rate: Math.max(...lines.map((line) => line.rate)) });
+  }
+  return lines;
+}
+
+/** GST contained in the lines, split for the delivery state */
+export function taxBreakdown(lines: TaxLine[], deliveryState?: string | null): TaxBreakdown {
+  const supply = supplyType(deliveryState);
+  const rates = new Map<number, number>();
+  for (const line of lines) {
+    rates.set(line.rate, (rates.get(line.rate) ?? 0) + line.amount);
+  }
+
+  const byRate = [...rates.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([rate, amount]) => {
+      const tax = round((amount * rate) / (100 + rate));
+      // CGST and SGST are equal halves; any odd paisa goes to SGST
+      const cgst = supply === "intra" ? Math.floor(Math.round(tax * 100) / 2) / 100 : 0;
+      return {
+        rate,
+        taxable: round(amount - tax),
+        tax,
+        cgst,
+        sgst: supply === "intra" ? round(tax - cgst) : 0,
+        igst: supply === "inter" ? tax : 0,
+      };
+    });
+  const total = (key: keyof TaxAmounts) => round(byRate.reduce((sum, entry) => sum + entry[key], 0));
+
+  return {
+    supply,
+    taxable: total("taxable"),
+    tax: total("tax"),
+    cgst: total("cgst"),
+    sgst: total("sgst"),
+    igst: total("igst"),
+    byRate,
+  };
+}
+
+/** GST in a cart at checkout, after the promo code and with shipping */
+export function cartTax(
+  items: CartItem[],
+  totals: Pick<OrderTotals, "discount" | "shipping">,
+  deliveryState?: string | null
+): TaxBreakdown {
+  const lines = orderTaxLines(
+    items.map((item) => ({
+      unitPrice: getPricing(item.product).price,
+      quantity: item.quantity,
+      category: item.product.category?.name,
+    })),
+    totals.discount,
+    totals.shipping
+  );
+  return taxBreakdown(lines, deliveryState);
+}
+
+/** GST in a placed order, at the rates recorded on its lines where there are any */
+export function orderTax(order: Order): TaxBreakdown {
+  const discount = order.discounts.reduce((sum, entry) => sum + (parseFloat(entry.amount) || 0), 0);
+  const lines = orderTaxLines(
+    order.items.map((item) => ({
+      unitPrice: parseFloat(item.price) || 0,
+      quantity: item.quantity,
+      category: item.category,
+      rate: item.gst_rate,
+    })),
+    discount,
+    parseFloat(order.shipping_cost ?? "0") || 0
+  );
+  return taxBreakdown(lines, order.address?.state);
+}
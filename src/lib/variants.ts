@@ -0,0 +1,153 @@
+/**
+ * Product Variants
+ * A product is sold in combinations of option values on up to three axes
+ * (size, colour, fit), e.g. `{ size: "M", colour: "Navy" }`. Each
+ * combination is one variant with its own SKU and stock, and optionally its
+ * own price and photo. Products from before option axes only carry `size`,
+ * which the schema maps onto the size axis.
+ */
+
+import type { ProductVariant } from "@/lib/schemas";
+
+export type VariantOptions = Record<string, string>;
+
+export const VARIANT_AXES = [
+  { key: "size", label: "Size" },
+  { key: "colour", label: "Colour" },
+  { key: "fit", label: "Fit" },
+] as const;
+
+export interface VariantAxis {
+  key: string;
+  label: string;
+  // In the order the variants list them
+  values: string[];
+}
+
+export function axisLabel(key: string): string {
+  const known = VARIANT_AXES.find((axis) => axis.key === key);
+  return known ? known.label : key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+/** Axes a product's variants use, known axes first */
+export function variantAxes(variants: Pick<ProductVariant, "options">[]): VariantAxis[] {
+  const values = new Map<string, string[]>();
+  for (const variant of variants) {
+    for (const [key, value] of Object.entries(variant.options)) {
+      if (!value) continue;
+      const seen = values.get(key) ?? [];
+      if (!seen.includes(value)) seen.push(value);
+      values.set(key, seen);
+    }
+  }
+
+  const order = (key: string) => {
+    const index = VARIANT_AXES.findIndex((axis) => axis.key === key);
+    return index === -1 ? VARIANT_AXES.length : index;
+  };
+  return [...values.keys()]
+    .sort((a, b) => order(a) - order(b))
+    .map((key) => ({ key, label: axisLabel(key), values: values.get(key) ?? [] }));
+}
+
+const matches = (options: VariantOptions, selection: VariantOptions) =>
+  Object.entries(selection).every(([key, value]) => !value || options[key] === value);
+
+/** The variant for a selection, once every axis has a value */
+export function findVariant<T extends Pick<ProductVariant, "options">>(
+  variants: T[],
+  axes: VariantAxis[],
+  selection: VariantOptions
+): T | undefined {
+  if (axes.some((axis) => !selection[axis.key])) return undefined;
+  return variants.find((variant) => matches(variant.options, selection));
+}
+
+/** Whether any variant, sold out or not, has `value` alongside the other picks */
+export function isOptionOffered(
+  variants: ProductVariant[],
+  selection: VariantOptions,
+  axis: string,
+  value: string
+): boolean {
+  const candidate = { ...selection, [axis]: value };
+  return variants.some((variant) => matches(variant.options, candidate));
+}
+
+/**
+ * Whether picking `value` on `axis` can still lead to an in-stock variant,
+ * given what is selected on the other axes.
+ */
+export function isOptionAvailable(
+  variants: ProductVariant[],
+  selection: VariantOptions,
+  axis: string,
+  value: string
+): boolean {
+  const candidate = { ...selection, [axis]: value };
+  return variants.some((variant) => variant.stock > 0 && matches(variant.options, candidate));
+}
+
+/**
+ * Select `value` on `axis`. Choices on other axes are kept while some variant
+ * still has that combination; otherwise they are cleared so the shopper is
+ * never left on a combination that does not exist.
+ */
+export function selectOption(
+  variants: ProductVariant[],
+  selection: VariantOptions,
+  axis: string,
+  value: string
+): VariantOptions {
+  const next: VariantOptions = { [axis]: value };
+  for (const [key, current] of Object.entries(selection)) {
+    if (key === axis || !current) continue;
+    if (variants.some((variant) => matches(variant.options, { ...next, [key]: current }))) {
+      next[key] = current;
+    }
+  }
+  return next;
+}
+
+/** Stable identity for a combination, independent of key order */
+export function optionsKey(options: VariantOptions): string {
+  return Object.keys(options)
+    .filter((key) => options[key])
+    .sort()
+    .map((key) => `${key}=${options[key]}`)
+    .join("|");
+}
+
+/** Every combination of the given axis values, first axis varying slowest */
+export function combineOptions(axes: Array<{ key: string; values: string[] }>): VariantOptions[] {
+  return axes
+    .filter((axis) => axis.values.length > 0)
+    .reduce<VariantOptions[]>(
+      (combos, axis) => combos.flatMap((combo) => axis.values.map((value) => ({ ...combo, [axis.key]: value }))),
+      [{}]
+    )
+    .filter((combo) => Object.keys(combo).length > 0);
+}
+
+/**
+ * Chosen options as label/value pairs for carts and orders. Lines saved
+ * before option axes only know their size.
+ */
+export function describeOptions(line: {
+  options?: VariantOptions | null;
+  size?: string | null;
+}): Array<{ label: string; value: string }> {
+  const options = line.options && Object.keys(line.options).length > 0 ? line.options : { size: line.size ?? "" };
+  return variantAxes([{ options }]).map((axis) => ({ label: axis.label, value: axis.values[0] }));
+}
+
+export function hasOptions(line: { options?: VariantOptions | null; size?: string | null }): boolean {
+  return describeOptions(line).length > 0;
+}
+
+/** e.g. "Size: M · Colour: Navy" */
+export function formatOptions(line: { options?: VariantOptions | null; size?: string | null }): string {
+  return describeOptions(line)
+    .map(({ label, value }) => `${label}: ${value}`)
+    .join(" · ");
+}
@@ -1,13 +1,15 @@
-import React, { useEffect, useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import React, { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
-  getAdminDashboardStats,
-  getAdminOrders,
-  getAdminProducts,
-  getAdminSalesChart,
-  getAdminAllCategories,
-} from "@/lib/api";
-import { useToast } from "@/hooks/use-toast";
+  useAdminDashboardStats,
+  useAdminOrders,
+  useAdminProducts,
+  useAdminSalesChart,
+  useAdminAllCategories,
+} from "@/hooks/use-admin";
+import { queryKeys } from "@/lib/queries";
+import { formatMoney } from "@/lib/money";
+import type { AdminOrderSummary, AdminProductSummary, Category } from "@/lib/schemas";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -39,73 +41,33 @@ type StatCard = {
   bgColor: string;
 };
 
-type OrderItem = {
-  id: number;
-  customer: string;
-  total_amount: number;
-  status: string;
-  created_at: string;
-  items_count: number;
-};
-
-type ProductItem = {
-  id: number;
-  name: string;
-  price: number;
-  stock: number;
-  category: string;
-  created_at: string;
-};
-
-type Category = {
-  id: number;
-  name: string;
-};
-
 const AdminAnalytics = () => {
-  const { tokens } = useAuth();
-  const access = tokens?.access || "";
-  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const [stats, setStats] = useState<any>(null);
-  const [orders, setOrders] = useState<OrderItem[]>([]);
-  const [products, setProducts] = useState<ProductItem[]>([]);
-  const [chartData, setChartData] = useState<any[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
   const [orderStatus, setOrderStatus] = useState("all");
   const [productCategory, setProductCategory] = useState("all");
   const [productSearch, setProductSearch] = useState("");
 
-  const fetchData = async () => {
-    setLoading(true);
-    try {
-      const [statsRes, ordersRes, productsRes, chartRes, categoriesRes] = await Promise.all([
-        getAdminDashboardStats(access),
-        getAdminOrders(access, orderStatus === "all" ? undefined : orderStatus),
-        getAdminProducts(access, productCategory === "all" ? undefined : productCategory, productSearch),
-        getAdminSalesChart(access),
-        getAdminAllCategories(access),
-      ]);
+  const statsQuery = useAdminDashboardStats();
+  const ordersQuery = useAdminOrders({ status: orderStatus === "all" ? undefined : orderStatus });
+  const productsQuery = useAdminProducts({
+    category: productCategory === "all" ? undefined : productCategory,
+    search: productSearch,
+  });
+  const chartQuery = useAdminSalesChart();
+  const categoriesQuery = useAdminAllCategories();
 
-      setStats(statsRes.data);
-      setOrders(ordersRes.data);
-      setProducts(productsRes.data);
-      setChartData(chartRes.data);
-      setCategories(categoriesRes.data || []);
-    } catch (e) {
-      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setLoading(false);
-    }
-  };
+  const stats = statsQuery.data;
+  const orders: AdminOrderSummary[] = ordersQuery.data ?? [];
+  const products: AdminProductSummary[] = productsQuery.data ?? [];
+  const chartData = chartQuery.data ?? [];
+  const categories: Category[] = categoriesQuery.data ?? [];
+  const loading = [statsQuery, ordersQuery, productsQuery, chartQuery, categoriesQuery].some((q) => q.isFetching);
 
-  useEffect(() => {
-    if (access) fetchData();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [access, orderStatus, productCategory, productSearch]);
+  const refreshAll = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.admin.all });
+  };
 
-  const formatCurrency = (val: number) => `₹${val.toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
 
   const COLORS = ["#6366f1", "#8b5cf6", "#ec4899", "#f59e0b", "#10b981"];
 
@@ -130,7 +92,7 @@ const AdminAnalytics = () => {
     ? [
         {
           label: "Total Revenue",
-          value: formatCurrency(stats.total_revenue),
+          value: formatMoney(stats.total_revenue),
           icon: <DollarSign className="w-7 h-7" />,
           change: formatTrend(stats.revenue_change),
           changeType: getTrendType(stats.revenue_change),
@@ -175,7 +137,7 @@ const AdminAnalytics = () => {
           <p className="text-slate-500 mt-1">Track your business performance and insights</p>
         </div>
         <Button
-          onClick={fetchData}
+          onClick={refreshAll}
           disabled={loading}
           className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
         >
@@ -248,7 +210,7 @@ const AdminAnalytics = () => {
                   <XAxis dataKey="day" stroke="#64748b" style={{ fontSize: '12px' }} />
                   <YAxis stroke="#64748b" style={{ fontSize: '12px' }} />
                   <Tooltip 
-                    formatter={(value) => formatCurrency(Number(value))}
+                    formatter={(value) => formatMoney(Number(value))}
                     contentStyle={{ 
                       backgroundColor: 'white', 
                       border: 'none', 
@@ -365,7 +327,7 @@ const AdminAnalytics = () => {
                     <tr key={order.id} className="hover:bg-slate-50 transition-colors">
                       <td className="px-6 py-4 text-sm font-medium text-slate-900">#{order.id}</td>
                       <td className="px-6 py-4 text-sm text-slate-900">{order.customer}</td>
-                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatCurrency(order.total_amount)}</td>
+                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatMoney(order.total_amount)}</td>
                       <td className="px-6 py-4 text-sm">
                         <span
                           className={`px-3 py-1 rounded-full text-xs font-semibold ${
@@ -448,7 +410,7 @@ const AdminAnalytics = () => {
                     <tr key={product.id} className="hover:bg-slate-50 transition-colors">
                       <td className="px-6 py-4 text-sm font-medium text-slate-900">{product.name}</td>
                       <td className="px-6 py-4 text-sm text-slate-600">{product.category}</td>
-                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatCurrency(product.price)}</td>
+                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatMoney(product.price)}</td>
                       <td className="px-6 py-4 text-sm">
                         <span
                           className={`px-3 py-1 rounded-full text-xs font-semibold ${
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import { getAdminCategories, createAdminCategory, updateAdminCategory, deleteAdminCategory, getCategoryAttributes, createCategoryAttribute, deleteCategoryAttribute } from "@/lib/api";
+import type { AdminCategory } from "@/lib/schemas";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,14 +10,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Edit2, Trash2, Settings, X, FolderTree, FileText, Hash, List, RefreshCw, Tag } from "lucide-react";
-
-type Category = {
-  id: number;
-  name: string;
-  description: string;
-  created_at: string;
-};
+import SizeChartDialog from "@/components/SizeChartDialog";
+import { Plus, Edit2, Trash2, Settings, X, FolderTree, FileText, Hash, List, RefreshCw, Tag, Ruler } from "lucide-react";
 
 type CategoryAttribute = {
   id: number;
@@ -31,7 +26,7 @@ const AdminCategories = () => {
   const access = tokens?.access || "";
   const { toast } = useToast();
 
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [categories, setCategories] = useState<AdminCategory[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
@@ -51,11 +46,14 @@ const AdminCategories = () => {
     options: "" // For select type, comma-separated values
   });
 
+  // Size chart editor
+  const [sizeChartCategory, setSizeChartCategory] = useState<AdminCategory | null>(null);
+
   const fetchCategories = async () => {
     setLoading(true);
     try {
       const res = await getAdminCategories(access);
-      setCategories(res.data as Category[]);
+      setCategories(res.data);
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
     } finally {
@@ -91,7 +89,7 @@ const AdminCategories = () => {
     }
   };
 
-  const handleEdit = (cat: Category) => {
+  const handleEdit = (cat: AdminCategory) => {
     setForm({ name: cat.name, description: cat.description });
     setEditingId(cat.id);
     setShowModal(true);
@@ -119,7 +117,7 @@ const AdminCategories = () => {
   };
 
   // Attributes management functions
-  const openAttributesModal = async (category: Category) => {
+  const openAttributesModal = async (category: AdminCategory) => {
     setSelectedCategoryId(category.id);
     setSelectedCategoryName(category.name);
     setShowAttributesModal(true);
@@ -337,6 +335,16 @@ const AdminCategories = () => {
                       <Settings className="w-3 h-3 mr-1" />
                       Attributes
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setSizeChartCategory(cat)}
+                      title="Size chart"
+                      aria-label={`Size chart for ${cat.name}`}
+                      className="hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-300"
+                    >
+                      <Ruler className="w-3 h-3" />
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
@@ -455,6 +463,8 @@ const AdminCategories = () => {
         </DialogContent>
       </Dialog>
 
+      <SizeChartDialog category={sizeChartCategory} onClose={() => setSizeChartCategory(null)} />
+
       {/* Category Attributes Modal */}
       <Dialog open={showAttributesModal} onOpenChange={(open) => { if (!open) resetAttributesModal(); }}>
         <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
@@ -0,0 +1,624 @@
+import { useState } from "react";
+import {
+  useAdminCoupons,
+  useAdminAllCategories,
+  useAdminProducts,
+  useSaveAdminCoupon,
+  useSetAdminCouponActive,
+} from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+import { ValidationError, type FieldErrors } from "@/lib/errors";
+import { couponStatus, describeCoupon, type CouponStatus } from "@/lib/coupons";
+import { fromDateTimeInput, toDateTimeInput } from "@/lib/datetime";
+import { formatMoney } from "@/lib/money";
+import type { AdminCoupon, CouponType } from "@/lib/schemas";
+import FieldError from "@/components/FieldError";
+import CouponEligibilityField from "@/components/CouponEligibilityField";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit2, Plus, RefreshCw, Search, TicketPercent } from "lucide-react";
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+const STATUS_BADGES: Record<CouponStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-800" },
+  scheduled: { label: "Scheduled", className: "bg-sky-100 text-sky-800" },
+  expired: { label: "Expired", className: "bg-slate-100 text-slate-600" },
+  used_up: { label: "Used up", className: "bg-amber-100 text-amber-800" },
+  inactive: { label: "Inactive", className: "bg-red-100 text-red-800" },
+};
+
+const TYPE_LABELS: Record<CouponType, string> = {
+  percentage: "Percentage off",
+  flat: "Flat amount off",
+  free_shipping: "Free shipping",
+};
+
+const EMPTY_FORM = {
+  code: "",
+  description: "",
+  discount_type: "percentage" as CouponType,
+  value: "",
+  min_order_value: "",
+  starts_at: "",
+  ends_at: "",
+  usage_limit: "",
+  per_customer_limit: "",
+  category_ids: [] as number[],
+  product_ids: [] as number[],
+  is_active: true,
+};
+
+type CouponForm = typeof EMPTY_FORM;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+const isPositiveInt = (value: string) => /^\d+$/.test(value) && parseInt(value) > 0;
+
+// Problems with the form, keyed like the backend's field errors
+const validateCoupon = (form: CouponForm): FieldErrors => {
+  const errors: FieldErrors = {};
+  const value = parseFloat(form.value);
+
+  if (!CODE_PATTERN.test(form.code)) {
+    errors.code = ["Use 3-32 letters, numbers, dashes or underscores"];
+  }
+  if (form.discount_type === "percentage" && !(value > 0 && value <= 100)) {
+    errors.value = ["Enter a percentage between 1 and 100"];
+  }
+  if (form.discount_type === "flat" && !(value > 0)) {
+    errors.value = ["Enter an amount greater than zero"];
+  }
+  if (form.min_order_value && !(parseFloat(form.min_order_value) >= 0)) {
+    errors.min_order_value = ["Minimum order value cannot be negative"];
+  }
+  if (form.starts_at && form.ends_at && new Date(form.ends_at) <= new Date(form.starts_at)) {
+    errors.ends_at = ["The code must expire after it starts"];
+  }
+  if (form.usage_limit && !isPositiveInt(form.usage_limit)) {
+    errors.usage_limit = ["Enter a whole number, or leave empty for unlimited"];
+  }
+  if (form.per_customer_limit && !isPositiveInt(form.per_customer_limit)) {
+    errors.per_customer_limit = ["Enter a whole number, or leave empty for unlimited"];
+  } else if (
+    form.per_customer_limit &&
+    form.usage_limit &&
+    parseInt(form.per_customer_limit) > parseInt(form.usage_limit)
+  ) {
+    errors.per_customer_limit = ["Cannot be more than the total limit"];
+  }
+  return errors;
+};
+
+const AdminCoupons = () => {
+  const { toast } = useToast();
+
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<CouponStatus | "all">("all");
+  const [togglingId, setTogglingId] = useState<number | null>(null);
+
+  const couponsQuery = useAdminCoupons();
+  const coupons: AdminCoupon[] = couponsQuery.data ?? [];
+  const loading = couponsQuery.isPending;
+  const categories: Array<{ id: number; name: string }> = useAdminAllCategories().data ?? [];
+  const products: Array<{ id: number; name: string; category: string }> =
+    useAdminProducts({ search: "", limit: 100 }).data ?? [];
+  const saveCoupon = useSaveAdminCoupon();
+  const setCouponActive = useSetAdminCouponActive();
+
+  const now = new Date();
+  const filteredCoupons = coupons.filter((coupon) => {
+    const term = searchTerm.trim().toLowerCase();
+    const matchesSearch =
+      !term || coupon.code.toLowerCase().includes(term) || coupon.description?.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === "all" || couponStatus(coupon, now) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const stats = {
+    active: coupons.filter((coupon) => couponStatus(coupon, now) === "active").length,
+    scheduled: coupons.filter((coupon) => couponStatus(coupon, now) === "scheduled").length,
+    redemptions: coupons.reduce((sum, coupon) => sum + coupon.times_used, 0),
+    discountGiven: coupons.reduce((sum, coupon) => sum + Number(coupon.discount_given), 0),
+  };
+
+  const namesFor = (ids: number[], list: Array<{ id: number; name: string }>) =>
+    ids.map((id) => list.find((item) => item.id === id)?.name ?? `#${id}`);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setFieldErrors({});
+    setEditingId(null);
+    setShowModal(false);
+  };
+
+  const handleEdit = (coupon: AdminCoupon) => {
+    setForm({
+      code: coupon.code,
+      description: coupon.description ?? "",
+      discount_type: coupon.discount_type,
+      value: coupon.discount_type === "free_shipping" ? "" : coupon.value,
+      min_order_value: coupon.min_order_value ?? "",
+      starts_at: toDateTimeInput(coupon.starts_at),
+      ends_at: toDateTimeInput(coupon.ends_at),
+      usage_limit: coupon.usage_limit != null ? String(coupon.usage_limit) : "",
+      per_customer_limit: coupon.per_customer_limit != null ? String(coupon.per_customer_limit) : "",
+      category_ids: coupon.category_ids,
+      product_ids: coupon.product_ids,
+      is_active: coupon.is_active,
+    });
+    setFieldErrors({});
+    setEditingId(coupon.id);
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const errors = validateCoupon(form);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast({ variant: "destructive", title: "Error", description: "Please fix the highlighted fields" });
+      return;
+    }
+
+    try {
+      await saveCoupon.mutateAsync({
+        id: editingId,
+        coupon: {
+          code: form.code,
+          description: form.description.trim(),
+          discount_type: form.discount_type,
+          value: form.discount_type === "free_shipping" ? 0 : parseFloat(form.value),
+          min_order_value: form.min_order_value ? parseFloat(form.min_order_value) : null,
+          starts_at: fromDateTimeInput(form.starts_at),
+          ends_at: fromDateTimeInput(form.ends_at),
+          usage_limit: form.usage_limit ? parseInt(form.usage_limit) : null,
+          per_customer_limit: form.per_customer_limit ? parseInt(form.per_customer_limit) : null,
+          category_ids: form.category_ids,
+          product_ids: form.product_ids,
+          is_active: form.is_active,
+        },
+      });
+      toast({ title: "Success", description: editingId ? `Coupon ${form.code} updated` : `Coupon ${form.code} created` });
+      resetForm();
+    } catch (e) {
+      if (e instanceof ValidationError && e.hasFieldErrors) {
+        setFieldErrors(e.fieldErrors);
+        toast({ variant: "destructive", title: "Error", description: "Please fix the highlighted fields" });
+        return;
+      }
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    }
+  };
+
+  const handleToggleActive = async (coupon: AdminCoupon, isActive: boolean) => {
+    setTogglingId(coupon.id);
+    try {
+      await setCouponActive.mutateAsync({ id: coupon.id, isActive });
+      toast({
+        title: "Success",
+        description: `${coupon.code} ${isActive ? "reactivated" : "deactivated"}`,
+      });
+    } catch (e) {
+      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-900">Coupons Management</h2>
+          <p className="text-slate-500 mt-1">Create discount codes and track how they are used</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => couponsQuery.refetch()} variant="outline" disabled={couponsQuery.isFetching}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${couponsQuery.isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button
+            onClick={() => {
+              resetForm();
+              setShowModal(true);
+            }}
+            className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Coupon
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-green-50 to-emerald-50">
+          <CardContent className="p-4">
+            <p className="text-xs font-medium text-green-700 mb-1">Active Codes</p>
+            <p className="text-2xl font-bold text-green-900">{stats.active}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-sky-50 to-blue-50">
+          <CardContent className="p-4">
+            <p className="text-xs font-medium text-sky-700 mb-1">Scheduled</p>
+            <p className="text-2xl font-bold text-sky-900">{stats.scheduled}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-indigo-50 to-blue-50">
+          <CardContent className="p-4">
+            <p className="text-xs font-medium text-indigo-700 mb-1">Redemptions</p>
+            <p className="text-2xl font-bold text-indigo-900">{stats.redemptions}</p>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-purple-50 to-pink-50">
+          <CardContent className="p-4">
+            <p className="text-xs font-medium text-purple-700 mb-1">Discount Given</p>
+            <p className="text-2xl font-bold text-purple-900">{formatMoney(stats.discountGiven)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Filters */}
+      <Card className="border-0 shadow-lg">
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <Input
+                placeholder="Search by code or description..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value: CouponStatus | "all") => setStatusFilter(value)}>
+              <SelectTrigger className="w-full md:w-[200px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                {(Object.keys(STATUS_BADGES) as CouponStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {STATUS_BADGES[status].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Coupons Table */}
+      <Card className="border-0 shadow-lg">
+        <CardHeader className="bg-slate-50 border-b">
+          <CardTitle className="text-slate-900">Coupons ({filteredCoupons.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="p-12 text-center text-slate-500 flex items-center justify-center gap-2">
+              <RefreshCw className="h-5 w-5 animate-spin" />
+              <span>Loading coupons...</span>
+            </div>
+          ) : filteredCoupons.length === 0 ? (
+            <div className="p-12 text-center">
+              <TicketPercent className="h-16 w-16 mx-auto text-slate-300 mb-4" />
+              <p className="text-slate-600 font-medium">No coupons found</p>
+              <p className="text-sm text-slate-400 mt-1">
+                {coupons.length === 0 ? "Create a code to run your first promotion" : "Try adjusting your filters"}
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-slate-50">
+                    <TableHead className="font-semibold text-slate-700">Code</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Conditions</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Validity</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Usage</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Redemptions</TableHead>
+                    <TableHead className="font-semibold text-slate-700">Status</TableHead>
+                    <TableHead className="text-right font-semibold text-slate-700">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCoupons.map((coupon) => {
+                    const status = couponStatus(coupon, now);
+                    const eligible = [
+                      ...namesFor(coupon.category_ids, categories),
+                      ...namesFor(coupon.product_ids, products),
+                    ];
+                    return (
+                      <TableRow key={coupon.id} className="hover:bg-slate-50 transition-colors">
+                        <TableCell>
+                          <div className="font-mono font-semibold text-slate-900">{coupon.code}</div>
+                          <div className="text-xs text-indigo-600 font-medium">{describeCoupon(coupon)}</div>
+                          {coupon.description && (
+                            <div className="text-xs text-slate-500 max-w-[220px] line-clamp-1" title={coupon.description}>
+                              {coupon.description}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-slate-600">
+                          <div>
+                            {coupon.min_order_value && Number(coupon.min_order_value) > 0
+                              ? `Min. order ${formatMoney(coupon.min_order_value)}`
+                              : "No minimum"}
+                          </div>
+                          <div className="max-w-[220px] line-clamp-2" title={eligible.join(", ")}>
+                            {eligible.length > 0 ? `Only ${eligible.join(", ")}` : "Whole cart"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-slate-600 whitespace-nowrap">
+                          <div>{coupon.starts_at ? `From ${formatDate(coupon.starts_at)}` : "From creation"}</div>
+                          <div>{coupon.ends_at ? `Until ${formatDate(coupon.ends_at)}` : "No expiry"}</div>
+                        </TableCell>
+                        <TableCell className="text-xs text-slate-600 whitespace-nowrap">
+                          <div className="text-sm font-semibold text-slate-900">
+                            {coupon.times_used}
+                            {coupon.usage_limit != null && <span className="text-slate-400"> / {coupon.usage_limit}</span>}
+                          </div>
+                          <div>
+                            {coupon.per_customer_limit != null
+                              ? `${coupon.per_customer_limit} per customer`
+                              : "Unlimited per customer"}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-slate-600 whitespace-nowrap">
+                          <div className="text-sm font-semibold text-slate-900">{formatMoney(coupon.discount_given)}</div>
+                          <div>
+                            {coupon.customers} customer{coupon.customers === 1 ? "" : "s"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex text-xs px-3 py-1.5 rounded-full font-semibold ${STATUS_BADGES[status].className}`}
+                          >
+                            {STATUS_BADGES[status].label}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end items-center gap-3">
+                            <Switch
+                              checked={coupon.is_active}
+                              onCheckedChange={(checked) => handleToggleActive(coupon, checked)}
+                              disabled={togglingId === coupon.id}
+                              aria-label={`${coupon.is_active ? "Deactivate" : "Activate"} ${coupon.code}`}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(coupon)}
+                              className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 h-9 w-9 p-0 rounded-lg"
+                              title="Edit Coupon"
+                            >
+                              <Edit2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={(open) => { if (!open) resetForm(); }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-slate-900">
+              {editingId ? "Edit Coupon" : "New Coupon"}
+            </DialogTitle>
+            <DialogDescription className="text-slate-600">
+              Shoppers enter the code at checkout. Leave limits empty for unlimited use.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-code" className="text-sm font-medium text-slate-700 mb-2 block">Code *</Label>
+                <Input
+                  id="coupon-code"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/\s/g, "") })}
+                  placeholder="e.g., SUMMER20"
+                  className="font-mono border-slate-300"
+                  maxLength={32}
+                />
+                <FieldError message={fieldErrors.code?.[0]} />
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-slate-700 mb-2 block">Type *</Label>
+                <Select
+                  value={form.discount_type}
+                  onValueChange={(value: CouponType) => setForm({ ...form, discount_type: value })}
+                >
+                  <SelectTrigger className="border-slate-300">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as CouponType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FieldError message={fieldErrors.discount_type?.[0]} />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="coupon-description" className="text-sm font-medium text-slate-700 mb-2 block">
+                Description
+              </Label>
+              <Textarea
+                id="coupon-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Shown to shoppers when the code is applied"
+                className="border-slate-300"
+                rows={2}
+                maxLength={200}
+              />
+              <FieldError message={fieldErrors.description?.[0]} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {form.discount_type !== "free_shipping" && (
+                <div>
+                  <Label htmlFor="coupon-value" className="text-sm font-medium text-slate-700 mb-2 block">
+                    {form.discount_type === "percentage" ? "Percent Off *" : "Amount Off (₹) *"}
+                  </Label>
+                  <Input
+                    id="coupon-value"
+                    type="number"
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    placeholder={form.discount_type === "percentage" ? "20" : "200.00"}
+                    min="0"
+                    max={form.discount_type === "percentage" ? "100" : undefined}
+                    step={form.discount_type === "percentage" ? "1" : "0.01"}
+                    className="border-slate-300"
+                  />
+                  <FieldError message={fieldErrors.value?.[0]} />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="coupon-min-order" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Minimum Order Value (₹)
+                </Label>
+                <Input
+                  id="coupon-min-order"
+                  type="number"
+                  value={form.min_order_value}
+                  onChange={(e) => setForm({ ...form, min_order_value: e.target.value })}
+                  placeholder="No minimum"
+                  min="0"
+                  step="0.01"
+                  className="border-slate-300"
+                />
+                <FieldError message={fieldErrors.min_order_value?.[0]} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-starts" className="text-sm font-medium text-slate-700 mb-2 block">Valid From</Label>
+                <Input
+                  id="coupon-starts"
+                  type="datetime-local"
+                  value={form.starts_at}
+                  onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                  className="border-slate-300"
+                />
+                <FieldError message={fieldErrors.starts_at?.[0]} />
+              </div>
+              <div>
+                <Label htmlFor="coupon-ends" className="text-sm font-medium text-slate-700 mb-2 block">Expires</Label>
+                <Input
+                  id="coupon-ends"
+                  type="datetime-local"
+                  value={form.ends_at}
+                  onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                  className="border-slate-300"
+                />
+                <FieldError message={fieldErrors.ends_at?.[0]} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-usage-limit" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Total Uses
+                </Label>
+                <Input
+                  id="coupon-usage-limit"
+                  type="number"
+                  value={form.usage_limit}
+                  onChange={(e) => setForm({ ...form, usage_limit: e.target.value })}
+                  placeholder="Unlimited"
+                  min="1"
+                  className="border-slate-300"
+                />
+                <FieldError message={fieldErrors.usage_limit?.[0]} />
+              </div>
+              <div>
+                <Label htmlFor="coupon-customer-limit" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Uses per Customer
+                </Label>
+                <Input
+                  id="coupon-customer-limit"
+                  type="number"
+                  value={form.per_customer_limit}
+                  onChange={(e) => setForm({ ...form, per_customer_limit: e.target.value })}
+                  placeholder="Unlimited"
+                  min="1"
+                  className="border-slate-300"
+                />
+                <FieldError message={fieldErrors.per_customer_limit?.[0]} />
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <Label className="text-base font-semibold mb-3 block">Eligible Items</Label>
+              <CouponEligibilityField
+                categories={categories}
+                products={products}
+                categoryIds={form.category_ids}
+                productIds={form.product_ids}
+                onChange={(category_ids, product_ids) => setForm({ ...form, category_ids, product_ids })}
+              />
+              <FieldError message={(fieldErrors.category_ids || fieldErrors.product_ids)?.[0]} />
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <Label htmlFor="coupon-active" className="text-sm font-medium text-slate-900">Active</Label>
+                <p className="text-xs text-slate-500">Inactive codes are rejected at checkout</p>
+              </div>
+              <Switch
+                id="coupon-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveCoupon.isPending}
+              className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
+            >
+              {saveCoupon.isPending ? "Saving..." : editingId ? "Save Changes" : "Create Coupon"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminCoupons;
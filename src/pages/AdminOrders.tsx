@@ -1,6 +1,10 @@
-import React, { useEffect, useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
-import { getAdminOrders, getAdminOrderDetail, updateAdminOrder, getCourierPartners } from "@/lib/api";
+import React, { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { getAdminOrderDetail } from "@/lib/api";
+import { formatMoney } from "@/lib/money";
+import type { AdminOrderDetail, AdminOrderSummary } from "@/lib/schemas";
+import { formatOptions, hasOptions } from "@/lib/variants";
+import { useAdminOrders, useCourierPartners, useUpdateAdminOrder } from "@/hooks/use-admin";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -10,92 +14,29 @@ import { Eye, CheckCircle, Package, TruckIcon, XCircle, Clock, RefreshCw, Search
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-type Order = {
-  id: number;
-  customer: string;
-  total_amount: number;
-  status: string;
-  created_at: string;
-  items_count: number;
-};
-
-type OrderDetail = {
-  id: number;
-  customer: string;
-  email: string;
-  contact_phone: string;
-  total_amount: number;
-  status: string;
-  awb_number: string;
-  courier_partner: string;
-  created_at: string;
-  updated_at: string;
-  items: Array<{
-    id: number;
-    product_name: string;
-    quantity: number;
-    price: number;
-    total: number;
-  }>;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zip: string;
-  };
-};
-
 const AdminOrders = () => {
   const { tokens } = useAuth();
   const access = tokens?.access || "";
   const { toast } = useToast();
 
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
   const [status, setStatus] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [showDetailModal, setShowDetailModal] = useState(false);
-  const [orderDetail, setOrderDetail] = useState<OrderDetail | null>(null);
+  const [orderDetail, setOrderDetail] = useState<AdminOrderDetail | null>(null);
   const [newStatus, setNewStatus] = useState("");
-  const [updating, setUpdating] = useState(false);
   
   // Dispatch fields
   const [awbNumber, setAwbNumber] = useState("");
   const [courierPartner, setCourierPartner] = useState("");
-  const [courierPartners, setCourierPartners] = useState<Array<{id: number, name: string}>>([]);
 
-  const fetchOrders = async () => {
-    setLoading(true);
-    try {
-      const res = await getAdminOrders(access, status === "all" ? undefined : status);
-      setOrders(res.data);
-    } catch (e) {
-      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    if (access) fetchOrders();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [access, status]);
-
-  useEffect(() => {
-    const fetchCouriers = async () => {
-      try {
-        const response = await getCourierPartners();
-        if (response.status === 'success') {
-          setCourierPartners(response.data);
-        }
-      } catch (error) {
-        console.error('Failed to fetch courier partners:', error);
-      }
-    };
-    fetchCouriers();
-  }, []);
+  const ordersQuery = useAdminOrders({ status: status === "all" ? undefined : status });
+  const orders: AdminOrderSummary[] = ordersQuery.data ?? [];
+  const loading = ordersQuery.isPending;
+  const courierPartners: Array<{ id: number; name: string }> = useCourierPartners().data ?? [];
+  const updateOrder = useUpdateAdminOrder();
+  const updating = updateOrder.isPending;
 
-  const handleViewDetails = async (order: Order) => {
+  const handleViewDetails = async (order: AdminOrderSummary) => {
     try {
       const res = await getAdminOrderDetail(access, order.id);
       setOrderDetail(res.data);
@@ -120,28 +61,23 @@ const AdminOrders = () => {
       }
     }
     
-    setUpdating(true);
     try {
       if (newStatus === 'dispatched' && orderDetail.status !== 'dispatched') {
-        await updateAdminOrder(access, orderDetail.id, newStatus, awbNumber, courierPartner);
+        await updateOrder.mutateAsync({ id: orderDetail.id, status: newStatus, awbNumber, courierPartner });
         toast({ title: "Success", description: "Order marked as dispatched and notification sent" });
       } else {
-        await updateAdminOrder(access, orderDetail.id, newStatus);
+        await updateOrder.mutateAsync({ id: orderDetail.id, status: newStatus });
         toast({ title: "Success", description: "Order status updated" });
       }
       setShowDetailModal(false);
       setOrderDetail(null);
       setAwbNumber("");
       setCourierPartner("");
-      fetchOrders();
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setUpdating(false);
     }
   };
 
-  const formatCurrency = (val: number) => `₹${val.toLocaleString("en-IN", { minimumFractionDigits: 2 })}`;
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -199,11 +135,11 @@ const AdminOrders = () => {
           <p className="text-slate-500 mt-1">Track and manage customer orders</p>
         </div>
         <Button
-          onClick={fetchOrders}
+          onClick={() => ordersQuery.refetch()}
           variant="outline"
-          disabled={loading}
+          disabled={ordersQuery.isFetching}
         >
-          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          <RefreshCw className={`w-4 h-4 mr-2 ${ordersQuery.isFetching ? 'animate-spin' : ''}`} />
           Refresh
         </Button>
       </div>
@@ -315,7 +251,7 @@ const AdminOrders = () => {
                     <tr key={order.id} className="hover:bg-slate-50 transition-colors">
                       <td className="px-6 py-4 text-sm font-medium text-slate-900">#{order.id}</td>
                       <td className="px-6 py-4 text-sm text-slate-900">{order.customer}</td>
-                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatCurrency(order.total_amount)}</td>
+                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">{formatMoney(order.total_amount)}</td>
                       <td className="px-6 py-4 text-sm">
                         <span className={`px-3 py-1 rounded-full text-xs font-semibold flex items-center gap-1 w-fit ${getStatusColor(order.status)}`}>
                           {getStatusIcon(order.status)}
@@ -354,7 +290,7 @@ const AdminOrders = () => {
                   </div>
                   <div className="space-y-1">
                     <p className="text-sm text-slate-600">{order.customer}</p>
-                    <p className="text-lg font-bold text-slate-900">{formatCurrency(order.total_amount)}</p>
+                    <p className="text-lg font-bold text-slate-900">{formatMoney(order.total_amount)}</p>
                     <p className="text-xs text-slate-500">{order.items_count} items • {new Date(order.created_at).toLocaleDateString()}</p>
                   </div>
                   <Button 
@@ -390,7 +326,7 @@ const AdminOrders = () => {
                 <Card className="border-0 shadow-md bg-gradient-to-br from-indigo-50 to-purple-50">
                   <CardContent className="p-4">
                     <p className="text-xs font-medium text-indigo-700 mb-1">Total Amount</p>
-                    <p className="text-2xl font-bold text-indigo-900">₹{orderDetail.total_amount.toFixed(2)}</p>
+                    <p className="text-2xl font-bold text-indigo-900">{formatMoney(orderDetail.total_amount)}</p>
                   </CardContent>
                 </Card>
                 <Card className="border-0 shadow-md bg-gradient-to-br from-blue-50 to-indigo-50">
@@ -469,11 +405,15 @@ const AdminOrders = () => {
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="font-semibold text-slate-900 mb-1">{item.product_name}</p>
+                          {hasOptions(item) && (
+                            <p className="text-xs text-slate-600">{formatOptions(item)}</p>
+                          )}
+                          {item.sku && <p className="text-xs text-slate-500">SKU: {item.sku}</p>}
                           <p className="text-xs text-slate-600">Quantity: {item.quantity}</p>
                         </div>
                         <div className="text-right shrink-0">
-                          <p className="text-sm font-semibold text-slate-900">₹{item.price.toFixed(2)} each</p>
-                          <p className="text-xs text-slate-600">Total: ₹{item.total.toFixed(2)}</p>
+                          <p className="text-sm font-semibold text-slate-900">{formatMoney(item.price)} each</p>
+                          <p className="text-xs text-slate-600">Total: {formatMoney(item.total)}</p>
                         </div>
                       </div>
                     ))}
@@ -1,120 +1,126 @@
-import React, { useEffect, useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
+import React, { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { getAdminProductDetail } from "@/lib/api";
+import { mediaUrl } from "@/lib/config";
 import {
-  getAdminProducts,
-  getAdminProductDetail,
-  createAdminProduct,
-  updateAdminProduct,
-  deleteAdminProduct,
-  getAdminCategories,
-  updateProductVariants,
-  getCategoryAttributes,
-} from "@/lib/api";
+  useAdminProducts,
+  useAdminCategories,
+  useAdminCategoryAttributes,
+  useSaveAdminProduct,
+  useDeleteAdminProduct,
+  useAdminStockAlertDemand,
+} from "@/hooks/use-admin";
+import { ValidationError, type FieldErrors } from "@/lib/errors";
 import { useToast } from "@/hooks/use-toast";
+import FieldError from "@/components/FieldError";
+import ProductImagesField, { type ProductImageDraft } from "@/components/ProductImagesField";
+import ProductVariantsField, { type AxisValues, type VariantDraft } from "@/components/ProductVariantsField";
+import { optionsKey, variantAxes } from "@/lib/variants";
+import { saleStatus, type SaleStatus } from "@/lib/pricing";
+import { formatMoney } from "@/lib/money";
+import type { AdminProductSummary, Category } from "@/lib/schemas";
+import { fromDateTimeInput, toDateTimeInput } from "@/lib/datetime";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogFooter, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit2, Trash2, Image as ImageIcon, Package, RefreshCw, Search, Filter, Grid3x3, List, X, Upload } from "lucide-react";
-
-type Product = {
-  id: number;
-  name: string;
-  description: string;
-  price: number;
-  stock: number;
-  category: string;
-  created_at: string;
-};
+import { Plus, Edit2, Trash2, Image as ImageIcon, Package, RefreshCw, Search, Filter, Grid3x3, List, Bell } from "lucide-react";
 
-type Category = {
-  id: number;
-  name: string;
+const SALE_BADGES: Record<Exclude<SaleStatus, "none">, { label: string; className: string }> = {
+  live: { label: "On sale", className: "bg-rose-100 text-rose-800" },
+  scheduled: { label: "Sale scheduled", className: "bg-sky-100 text-sky-800" },
+  ended: { label: "Sale ended", className: "bg-slate-100 text-slate-600" },
 };
 
-const getImageUrl = (imagePath: string | null): string | null => {
-  if (!imagePath) return null;
-  if (imagePath.startsWith("http") || imagePath.startsWith("data:")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
+// Regular price, struck through for the sale price while a sale is live
+const AdminProductPrice = ({ product, className }: { product: AdminProductSummary; className?: string }) => {
+  const status = saleStatus(product);
+  const onSale = status === "live";
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-2 gap-y-1">
+      <span className={className}>{formatMoney(onSale ? product.sale_price : product.price)}</span>
+      {onSale && <s className="text-xs text-slate-400">{formatMoney(product.price)}</s>}
+      {status !== "none" && (
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SALE_BADGES[status].className}`}
+          title={
+            status === "scheduled" && product.sale_starts_at
+              ? `Starts ${new Date(product.sale_starts_at).toLocaleString()}`
+              : product.sale_ends_at
+              ? `Ends ${new Date(product.sale_ends_at).toLocaleString()}`
+              : undefined
+          }
+        >
+          {SALE_BADGES[status].label}
+        </span>
+      )}
+    </div>
+  );
 };
 
+const isValidSalePrice = (sale: string, regular: string) =>
+  parseFloat(sale) > 0 && parseFloat(sale) < parseFloat(regular);
+
 const AdminProducts = () => {
   const { tokens } = useAuth();
   const access = tokens?.access || "";
   const { toast } = useToast();
 
-  const [products, setProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [variants, setVariants] = useState<Array<{ size: string; stock: number }>>([]);
-  const [categoryAttributes, setCategoryAttributes] = useState<Array<{ id: number; name: string; field_type: string; is_required: boolean; options: Array<{ id: number; value: string }> }>>([]);
+  const [images, setImages] = useState<ProductImageDraft[]>([]);
+  const [primaryImageKey, setPrimaryImageKey] = useState<string | null>(null);
+  // Photos are only sent when they changed, so a plain edit re-uploads nothing
+  const [imagesChanged, setImagesChanged] = useState(false);
+  const [variantAxisValues, setVariantAxisValues] = useState<AxisValues>({});
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
   const [productAttributes, setProductAttributes] = useState<Record<number, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [form, setForm] = useState({
     name: "",
     description: "",
     price: "",
+    sale_price: "",
+    sale_starts_at: "",
+    sale_ends_at: "",
     stock: "",
     category_id: "",
-    image: null as File | null,
   });
 
-  const AVAILABLE_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
 
-  const fetchCategoryAttributes = async (categoryId: string) => {
-    if (!categoryId) {
-      setCategoryAttributes([]);
-      return;
-    }
-    try {
-      const response = await getCategoryAttributes(access, parseInt(categoryId));
-      setCategoryAttributes(response.data.attributes || []);
-    } catch (error) {
-      console.error('Failed to fetch category attributes:', error);
-      setCategoryAttributes([]);
-    }
-  };
+  const productsQuery = useAdminProducts({ search: "", limit: 100 });
+  const products: AdminProductSummary[] = productsQuery.data ?? [];
+  const loading = productsQuery.isPending;
+  const categories: Category[] = useAdminCategories().data ?? [];
+  const categoryAttributes: Array<{ id: number; name: string; field_type: string; is_required: boolean; options: Array<{ id: number; value: string }> }> =
+    useAdminCategoryAttributes(form.category_id ? parseInt(form.category_id) : undefined).data ?? [];
+  const stockAlertDemand = useAdminStockAlertDemand().data ?? [];
+  // Back-in-stock subscribers per product, and per variant of the one being edited
+  const waitingByProduct = new Map<number, number>();
+  stockAlertDemand.forEach((d) => waitingByProduct.set(d.product_id, (waitingByProduct.get(d.product_id) ?? 0) + d.count));
+  const variantDemand: Record<number, number> = Object.fromEntries(
+    stockAlertDemand
+      .filter((d) => d.product_id === editingId && d.variant_id !== null)
+      .map((d) => [d.variant_id, d.count])
+  );
+  const saveProduct = useSaveAdminProduct();
+  const deleteProduct = useDeleteAdminProduct();
 
-  const fetchData = async () => {
-    setLoading(true);
-    try {
-      const [productsRes, categoriesRes] = await Promise.all([
-        getAdminProducts(access, undefined, "", 100),
-        getAdminCategories(access),
-      ]);
-      setProducts(productsRes.data);
-      setCategories(categoriesRes.data);
-    } catch (e) {
-      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setLoading(false);
-    }
+  const handleImagesChange = (next: ProductImageDraft[], primaryKey: string | null) => {
+    setImages(next);
+    setPrimaryImageKey(primaryKey);
+    setImagesChanged(true);
   };
 
-  useEffect(() => {
-    if (access) fetchData();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [access]);
-
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setForm({ ...form, image: file });
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  const handleVariantsChange = (axisValues: AxisValues, next: VariantDraft[]) => {
+    setVariantAxisValues(axisValues);
+    setVariants(next);
   };
 
   const handleSave = async () => {
@@ -136,59 +142,93 @@ const AdminProducts = () => {
         });
         return;
       }
+
+      const skus = variants.map(v => v.sku.trim().toLowerCase());
+      if (skus.some(sku => !sku) || new Set(skus).size !== skus.length) {
+        toast({ variant: "destructive", title: "Error", description: "Every variant needs its own SKU" });
+        return;
+      }
+      if (variants.some(v => v.price && !(parseFloat(v.price) > 0))) {
+        toast({ variant: "destructive", title: "Error", description: "Variant prices must be greater than zero" });
+        return;
+      }
+      if (variants.some(v => v.salePrice && !isValidSalePrice(v.salePrice, v.price || form.price))) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Variant sale prices must be above zero and below the variant's regular price",
+        });
+        return;
+      }
+    }
+
+    if (form.sale_price && !isValidSalePrice(form.sale_price, form.price)) {
+      toast({ variant: "destructive", title: "Error", description: "Sale price must be above zero and below the price" });
+      return;
+    }
+    if ((form.sale_starts_at || form.sale_ends_at) && !form.sale_price && !variants.some(v => v.salePrice)) {
+      toast({ variant: "destructive", title: "Error", description: "Set a sale price to schedule a sale" });
+      return;
     }
+    if (form.sale_starts_at && form.sale_ends_at && new Date(form.sale_ends_at) <= new Date(form.sale_starts_at)) {
+      toast({ variant: "destructive", title: "Error", description: "The sale must end after it starts" });
+      return;
+    }
+
+    setFieldErrors({});
 
     try {
-      let productId = editingId;
-      
       console.log('=== DEBUG: Form submission ===');
       console.log('Category ID:', form.category_id);
       console.log('Product attributes state:', productAttributes);
       console.log('Category attributes available:', categoryAttributes);
-      
-      if (editingId) {
-        await updateAdminProduct(
-          access,
-          editingId,
-          {
-            name: form.name,
-            description: form.description,
-            price: parseFloat(form.price),
-            stock: parseInt(form.stock),
-            category_id: form.category_id ? parseInt(form.category_id) : null,
-          },
-          form.image || undefined,
-          productAttributes
-        );
-        toast({ title: "Success", description: "Product updated" });
-      } else {
-        const result = await createAdminProduct(
-          access,
-          form.name,
-          form.description,
-          parseFloat(form.price),
-          parseInt(form.stock),
-          form.category_id ? parseInt(form.category_id) : null,
-          form.image || undefined,
-          productAttributes
-        );
-        productId = result.data.id;
-        toast({ title: "Success", description: "Product created" });
-      }
 
-      // Save variants if any are specified
-      if (variants.length > 0 && productId) {
-        await updateProductVariants(access, productId, variants);
-      }
+      const { notified } = await saveProduct.mutateAsync({
+        id: editingId,
+        name: form.name,
+        description: form.description,
+        price: parseFloat(form.price),
+        stock: parseInt(form.stock),
+        categoryId: form.category_id ? parseInt(form.category_id) : null,
+        attributes: productAttributes,
+        sale: {
+          sale_price: form.sale_price ? parseFloat(form.sale_price) : null,
+          sale_starts_at: fromDateTimeInput(form.sale_starts_at),
+          sale_ends_at: fromDateTimeInput(form.sale_ends_at),
+        },
+        variants: variants.map((v) => ({
+          size: v.options.size ?? "",
+          options: v.options,
+          sku: v.sku.trim(),
+          stock: v.stock,
+          price: v.price ? parseFloat(v.price) : null,
+          sale_price: v.salePrice ? parseFloat(v.salePrice) : null,
+          image_id: v.imageId,
+        })),
+        ...(imagesChanged && {
+          images: images.map(({ id, file }) => ({ id, file })),
+          primaryImageIndex: Math.max(images.findIndex((image) => image.key === primaryImageKey), 0),
+        }),
+      });
+      toast({
+        title: "Success",
+        description: `${editingId ? "Product updated" : "Product created"}${
+          notified > 0 ? ` — ${notified} shopper${notified > 1 ? "s" : ""} notified of the restock` : ""
+        }`,
+      });
 
       resetForm();
-      fetchData();
     } catch (e) {
+      if (e instanceof ValidationError && e.hasFieldErrors) {
+        setFieldErrors(e.fieldErrors);
+        toast({ variant: "destructive", title: "Error", description: "Please fix the highlighted fields" });
+        return;
+      }
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
     }
   };
 
-  const handleEdit = async (prod: Product) => {
+  const handleEdit = async (prod: AdminProductSummary) => {
     try {
       const res = await getAdminProductDetail(access, prod.id);
       const data = res.data;
@@ -196,29 +236,49 @@ const AdminProducts = () => {
         name: data.name,
         description: data.description,
         price: data.price.toString(),
+        sale_price: data.sale_price != null ? data.sale_price.toString() : "",
+        sale_starts_at: toDateTimeInput(data.sale_starts_at),
+        sale_ends_at: toDateTimeInput(data.sale_ends_at),
         stock: data.stock.toString(),
         category_id: data.category_id?.toString() || "",
-        image: null,
       });
-      if (data.image) setImagePreview(getImageUrl(data.image));
-      // Load variants if they exist
+      const photos = data.images ?? [];
+      const savedImages: ProductImageDraft[] = photos.map((image) => ({
+        key: `saved-${image.id}`,
+        id: image.id,
+        preview: mediaUrl(image.image),
+      }));
+      const primary = photos.find((image) => image.is_primary);
+      setImages(savedImages);
+      setPrimaryImageKey(primary ? `saved-${primary.id}` : savedImages[0]?.key ?? null);
+      setImagesChanged(false);
+      // Load variants if they exist; older ones only have a size
       if (data.variants && Array.isArray(data.variants)) {
-        setVariants(data.variants.map((v: any) => ({ size: v.size, stock: v.stock })));
+        const drafts: VariantDraft[] = data.variants.map((v) => {
+          const options = v.options && Object.keys(v.options).length > 0 ? v.options : { size: v.size ?? "" };
+          return {
+            key: optionsKey(options),
+            id: v.id,
+            options,
+            sku: v.sku ?? "",
+            stock: v.stock,
+            price: v.price != null ? String(v.price) : "",
+            salePrice: v.sale_price != null ? String(v.sale_price) : "",
+            imageId: v.image_id ?? null,
+          };
+        });
+        setVariantAxisValues(Object.fromEntries(variantAxes(drafts).map((axis) => [axis.key, axis.values])));
+        setVariants(drafts);
       }
       // Load attributes if they exist
       const attributeMap: Record<number, string> = {};
       if (data.attributes && Array.isArray(data.attributes)) {
-        data.attributes.forEach((attr: any) => {
+        data.attributes.forEach((attr) => {
           attributeMap[attr.id] = attr.value;
         });
       }
       setProductAttributes(attributeMap);
-      
-      // Load category attributes
-      if (data.category_id) {
-        await fetchCategoryAttributes(data.category_id.toString());
-      }
-      
+
       setEditingId(prod.id);
       setShowModal(true);
     } catch (e) {
@@ -229,21 +289,33 @@ const AdminProducts = () => {
   const handleDelete = async () => {
     if (!deleteTargetId) return;
     try {
-      await deleteAdminProduct(access, deleteTargetId);
+      await deleteProduct.mutateAsync(deleteTargetId);
       toast({ title: "Success", description: "Product deleted" });
       setDeleteTargetId(null);
-      fetchData();
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
     }
   };
 
   const resetForm = () => {
-    setForm({ name: "", description: "", price: "", stock: "", category_id: "", image: null });
-    setImagePreview(null);
+    setForm({
+      name: "",
+      description: "",
+      price: "",
+      sale_price: "",
+      sale_starts_at: "",
+      sale_ends_at: "",
+      stock: "",
+      category_id: "",
+    });
+    images.forEach((image) => image.file && URL.revokeObjectURL(image.preview));
+    setImages([]);
+    setPrimaryImageKey(null);
+    setImagesChanged(false);
+    setVariantAxisValues({});
     setVariants([]);
-    setCategoryAttributes([]);
     setProductAttributes({});
+    setFieldErrors({});
     setEditingId(null);
     setShowModal(false);
   };
@@ -272,11 +344,11 @@ const AdminProducts = () => {
         </div>
         <div className="flex gap-2">
           <Button
-            onClick={fetchData}
+            onClick={() => productsQuery.refetch()}
             variant="outline"
-            disabled={loading}
+            disabled={productsQuery.isFetching}
           >
-            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`w-4 h-4 mr-2 ${productsQuery.isFetching ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
           <Button
@@ -419,6 +491,17 @@ const AdminProducts = () => {
                       {product.stock} units
                     </span>
                   </div>
+                  {waitingByProduct.has(product.id) && (
+                    <div className="absolute top-3 left-3">
+                      <span
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800"
+                        title="Shoppers waiting for a restock"
+                      >
+                        <Bell className="w-3 h-3" />
+                        {waitingByProduct.get(product.id)} waiting
+                      </span>
+                    </div>
+                  )}
                 </div>
                 
                 {/* Product Info */}
@@ -427,7 +510,7 @@ const AdminProducts = () => {
                     <h3 className="font-semibold text-slate-900 mb-1 line-clamp-1">{product.name}</h3>
                     <p className="text-xs text-slate-500">{product.category}</p>
                   </div>
-                  <p className="text-2xl font-bold text-indigo-600">₹{product.price.toFixed(2)}</p>
+                  <AdminProductPrice product={product} className="text-2xl font-bold text-indigo-600" />
                   
                   {/* Actions */}
                   <div className="flex gap-2 pt-2">
@@ -479,7 +562,9 @@ const AdminProducts = () => {
                     <tr key={product.id} className="hover:bg-slate-50 transition-colors">
                       <td className="px-6 py-4 text-sm font-medium text-slate-900">{product.name}</td>
                       <td className="px-6 py-4 text-sm text-slate-600">{product.category}</td>
-                      <td className="px-6 py-4 text-sm font-semibold text-slate-900">₹{product.price.toFixed(2)}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <AdminProductPrice product={product} className="font-semibold text-slate-900" />
+                      </td>
                       <td className="px-6 py-4 text-sm">
                         <span
                           className={`px-3 py-1 rounded-full text-xs font-semibold ${
@@ -492,6 +577,15 @@ const AdminProducts = () => {
                         >
                           {product.stock} units
                         </span>
+                        {waitingByProduct.has(product.id) && (
+                          <span
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-800"
+                            title="Shoppers waiting for a restock"
+                          >
+                            <Bell className="w-3 h-3" />
+                            {waitingByProduct.get(product.id)}
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-sm text-right">
                         <div className="flex gap-2 justify-end">
@@ -547,6 +641,7 @@ const AdminProducts = () => {
                     placeholder="Enter product name"
                     className="border-slate-300 focus:ring-2 focus:ring-indigo-500"
                   />
+                  <FieldError message={fieldErrors.name?.[0]} />
                 </div>
                 <div>
                   <Label className="text-sm font-medium text-slate-700 mb-2 block">Description</Label>
@@ -556,6 +651,7 @@ const AdminProducts = () => {
                     placeholder="Enter description"
                     className="border-slate-300 focus:ring-2 focus:ring-indigo-500"
                   />
+                  <FieldError message={fieldErrors.description?.[0]} />
                 </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -568,6 +664,7 @@ const AdminProducts = () => {
                       step="0.01"
                       className="border-slate-300 focus:ring-2 focus:ring-indigo-500"
                     />
+                    <FieldError message={fieldErrors.price?.[0]} />
                   </div>
                   <div>
                     <Label className="text-sm font-medium text-slate-700 mb-2 block">Stock *</Label>
@@ -578,6 +675,51 @@ const AdminProducts = () => {
                       placeholder="0"
                       className="border-slate-300 focus:ring-2 focus:ring-indigo-500"
                     />
+                    <FieldError message={fieldErrors.stock?.[0]} />
+                  </div>
+                </div>
+                <div className="rounded-lg border border-rose-100 bg-rose-50/50 p-4 space-y-3">
+                  <div>
+                    <Label className="text-sm font-semibold text-slate-700 block">Sale</Label>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Shoppers see the price struck through while the sale runs. Leave the start empty to begin now
+                      and the end empty to run until removed.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label className="text-sm font-medium text-slate-700 mb-2 block">Sale Price</Label>
+                      <Input
+                        type="number"
+                        value={form.sale_price}
+                        onChange={(e) => setForm({ ...form, sale_price: e.target.value })}
+                        placeholder="No sale"
+                        min="0"
+                        step="0.01"
+                        className="border-slate-300 bg-white focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <FieldError message={fieldErrors.sale_price?.[0]} />
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium text-slate-700 mb-2 block">Starts</Label>
+                      <Input
+                        type="datetime-local"
+                        value={form.sale_starts_at}
+                        onChange={(e) => setForm({ ...form, sale_starts_at: e.target.value })}
+                        className="border-slate-300 bg-white focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <FieldError message={fieldErrors.sale_starts_at?.[0]} />
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium text-slate-700 mb-2 block">Ends</Label>
+                      <Input
+                        type="datetime-local"
+                        value={form.sale_ends_at}
+                        onChange={(e) => setForm({ ...form, sale_ends_at: e.target.value })}
+                        className="border-slate-300 bg-white focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <FieldError message={fieldErrors.sale_ends_at?.[0]} />
+                    </div>
                   </div>
                 </div>
                 <div>
@@ -590,7 +732,6 @@ const AdminProducts = () => {
                       if (value !== previousCategoryId) {
                         setProductAttributes({});
                       }
-                      fetchCategoryAttributes(value);
                     }}
                   >
                     <SelectTrigger className="border-slate-300 focus:ring-2 focus:ring-indigo-500">
@@ -604,6 +745,7 @@ const AdminProducts = () => {
                       ))}
                     </SelectContent>
                   </Select>
+                  <FieldError message={(fieldErrors.category_id || fieldErrors.category)?.[0]} />
                 </div>
               </CardContent>
             </Card>
@@ -734,94 +876,34 @@ const AdminProducts = () => {
               <CardHeader className="pb-3">
                 <CardTitle className="text-lg flex items-center gap-2">
                   <ImageIcon className="w-5 h-5 text-indigo-600" />
-                  Product Image
+                  Product Photos
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="border-2 border-dashed border-slate-300 rounded-lg p-6 text-center hover:border-indigo-400 transition-colors">
-                  {imagePreview ? (
-                    <div className="relative">
-                      <img src={imagePreview} alt="preview" className="w-full h-48 object-cover rounded-lg" />
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setForm({ ...form, image: null });
-                          setImagePreview(null);
-                        }}
-                        className="mt-4 hover:bg-red-50 hover:text-red-600 hover:border-red-600"
-                      >
-                        <X className="w-4 h-4 mr-2" />
-                        Remove Image
-                      </Button>
-                    </div>
-                  ) : (
-                    <label className="cursor-pointer flex flex-col items-center gap-3">
-                      <div className="w-16 h-16 rounded-full bg-gradient-to-br from-indigo-100 to-purple-100 flex items-center justify-center">
-                        <Upload className="w-8 h-8 text-indigo-600" />
-                      </div>
-                      <div>
-                        <span className="text-sm font-medium text-slate-700">Click to upload image</span>
-                        <p className="text-xs text-slate-500 mt-1">PNG, JPG up to 10MB</p>
-                      </div>
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={handleImageChange}
-                        className="hidden"
-                      />
-                    </label>
-                  )}
-                </div>
+                <ProductImagesField
+                  images={images}
+                  primaryKey={primaryImageKey}
+                  onChange={handleImagesChange}
+                  error={fieldErrors.images?.[0] || fieldErrors.image?.[0]}
+                />
               </CardContent>
             </Card>
 
-            {/* Size Variants Section */}
+            {/* Variants Section */}
             <div className="border-t pt-4">
-              <Label className="text-base font-semibold mb-3 block">Size Variants (Optional)</Label>
-              <p className="text-sm text-gray-600 mb-3">Add different sizes with individual stock counts</p>
-              
-              <div className="space-y-2">
-                {AVAILABLE_SIZES.map((size) => {
-                  const variant = variants.find(v => v.size === size);
-                  const stock = variant?.stock || 0;
-                  const isActive = variant !== undefined;
-
-                  return (
-                    <div key={size} className="flex items-center gap-3 p-2 border rounded">
-                      <input
-                        type="checkbox"
-                        checked={isActive}
-                        onChange={(e) => {
-                          if (e.target.checked) {
-                            setVariants([...variants, { size, stock: 0 }]);
-                          } else {
-                            setVariants(variants.filter(v => v.size !== size));
-                          }
-                        }}
-                        className="w-4 h-4"
-                      />
-                      <span className="w-12 font-medium">{size}</span>
-                      {isActive && (
-                        <>
-                          <Label className="text-sm">Stock:</Label>
-                          <Input
-                            type="number"
-                            value={stock}
-                            onChange={(e) => {
-                              const newStock = parseInt(e.target.value) || 0;
-                              setVariants(variants.map(v => 
-                                v.size === size ? { ...v, stock: newStock } : v
-                              ));
-                            }}
-                            min="0"
-                            className="w-24"
-                          />
-                        </>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
+              <Label className="text-base font-semibold mb-3 block">Variants (Optional)</Label>
+              <p className="text-sm text-gray-600 mb-3">
+                Pick sizes, colours and fits; each combination gets its own SKU, stock, price, sale price and photo
+              </p>
+
+              <ProductVariantsField
+                axisValues={variantAxisValues}
+                variants={variants}
+                onChange={handleVariantsChange}
+                images={images.filter((image) => image.id).map((image) => ({ id: image.id, preview: image.preview }))}
+                demand={variantDemand}
+                error={fieldErrors.variants?.[0]}
+              />
               
               {variants.length > 0 && (
                 <div className="mt-3 p-3 bg-gray-50 rounded">
@@ -854,6 +936,7 @@ const AdminProducts = () => {
             </Button>
             <Button 
               onClick={handleSave}
+              disabled={saveProduct.isPending}
               className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700"
             >
               {editingId ? (
@@ -890,6 +973,7 @@ const AdminProducts = () => {
             </Button>
             <Button 
               onClick={handleDelete}
+              disabled={deleteProduct.isPending}
               className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700"
             >
               <Trash2 className="w-4 h-4 mr-2" />
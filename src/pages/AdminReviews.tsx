@@ -1,13 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import AdminLayout from "@/components/AdminLayout";
-import { useAuth } from "@/contexts/AuthContext";
 import {
-  adminGetReviews,
-  adminApproveReview,
-  adminRejectReview,
-  adminDeleteReview,
-  adminGetReviewStatistics,
-} from "@/lib/api";
+  useAdminReviews,
+  useAdminReviewStats,
+  useModerateReview,
+  type ReviewModeration,
+} from "@/hooks/use-admin";
+import type { AdminReviewFilters } from "@/lib/queries";
+import { mediaUrl } from "@/lib/config";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -57,76 +57,42 @@ interface ReviewStats {
 }
 
 const AdminReviews = () => {
-  const { tokens } = useAuth();
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [stats, setStats] = useState<ReviewStats | null>(null);
-  const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
+  // Search runs on Enter / button press, not on every keystroke
+  const [appliedSearch, setAppliedSearch] = useState("");
   const [filterApproval, setFilterApproval] = useState<string>("all");
   const [filterRating, setFilterRating] = useState<string>("all");
   const [processingId, setProcessingId] = useState<number | null>(null);
 
-  useEffect(() => {
-    fetchReviews();
-    fetchStats();
-  }, [filterApproval, filterRating]);
+  const filters: AdminReviewFilters = {};
+  if (filterApproval !== "all") {
+    filters.is_approved = filterApproval === "approved";
+  }
+  if (filterRating !== "all") {
+    filters.rating = parseInt(filterRating);
+  }
+  if (appliedSearch) {
+    filters.search = appliedSearch;
+  }
 
-  const fetchReviews = async () => {
-    if (!tokens?.access) return;
-
-    try {
-      setLoading(true);
-      const params: any = {};
-      if (filterApproval !== "all") {
-        params.is_approved = filterApproval === "approved";
-      }
-      if (filterRating !== "all") {
-        params.rating = parseInt(filterRating);
-      }
-      if (search) {
-        params.search = search;
-      }
-
-      const response = await adminGetReviews(tokens.access, params);
-      setReviews(response);
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to fetch reviews",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchStats = async () => {
-    if (!tokens?.access) return;
-
-    try {
-      const response = await adminGetReviewStatistics(tokens.access);
-      setStats(response);
-    } catch (error: any) {
-      console.error("Failed to fetch stats:", error);
-    }
-  };
-
-  const handleApprove = async (id: number) => {
-    if (!tokens?.access) return;
+  const reviewsQuery = useAdminReviews(filters);
+  const reviews: Review[] = reviewsQuery.data ?? [];
+  const loading = reviewsQuery.isPending;
+  const stats: ReviewStats | null = useAdminReviewStats().data ?? null;
+  const moderateReview = useModerateReview();
 
+  const moderate = async (id: number, action: ReviewModeration, successMessage: string, failureMessage: string) => {
     setProcessingId(id);
     try {
-      await adminApproveReview(tokens.access, id);
+      await moderateReview.mutateAsync({ id, action });
       toast({
         title: "Success",
-        description: "Review approved successfully",
+        description: successMessage,
       });
-      fetchReviews();
-      fetchStats();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message || "Failed to approve review",
+        description: (error as Error).message || failureMessage,
         variant: "destructive",
       });
     } finally {
@@ -134,55 +100,23 @@ const AdminReviews = () => {
     }
   };
 
-  const handleReject = async (id: number) => {
-    if (!tokens?.access) return;
+  const handleApprove = (id: number) =>
+    moderate(id, "approve", "Review approved successfully", "Failed to approve review");
 
-    setProcessingId(id);
-    try {
-      await adminRejectReview(tokens.access, id);
-      toast({
-        title: "Success",
-        description: "Review hidden successfully",
-      });
-      fetchReviews();
-      fetchStats();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to hide review",
-        variant: "destructive",
-      });
-    } finally {
-      setProcessingId(null);
-    }
-  };
+  const handleReject = (id: number) =>
+    moderate(id, "reject", "Review hidden successfully", "Failed to hide review");
 
-  const handleDelete = async (id: number) => {
-    if (!tokens?.access) return;
+  const handleDelete = (id: number) => {
     if (!confirm("Are you sure you want to delete this review? This action cannot be undone.")) return;
-
-    setProcessingId(id);
-    try {
-      await adminDeleteReview(tokens.access, id);
-      toast({
-        title: "Success",
-        description: "Review deleted successfully",
-      });
-      fetchReviews();
-      fetchStats();
-    } catch (error: any) {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to delete review",
-        variant: "destructive",
-      });
-    } finally {
-      setProcessingId(null);
-    }
+    return moderate(id, "delete", "Review deleted successfully", "Failed to delete review");
   };
 
   const handleSearch = () => {
-    fetchReviews();
+    if (search === appliedSearch) {
+      reviewsQuery.refetch();
+    } else {
+      setAppliedSearch(search);
+    }
   };
 
   return (
@@ -194,11 +128,11 @@ const AdminReviews = () => {
           <p className="text-slate-500 mt-1">Manage customer reviews and ratings</p>
         </div>
         <Button
-          onClick={fetchReviews}
+          onClick={() => reviewsQuery.refetch()}
           variant="outline"
-          disabled={loading}
+          disabled={reviewsQuery.isFetching}
         >
-          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          <RefreshCw className={`w-4 h-4 mr-2 ${reviewsQuery.isFetching ? 'animate-spin' : ''}`} />
           Refresh
         </Button>
       </div>
@@ -326,7 +260,7 @@ const AdminReviews = () => {
                         <div className="flex items-center gap-3">
                           {review.product_image ? (
                             <img
-                              src={review.product_image}
+                              src={mediaUrl(review.product_image)}
                               alt={review.product_name}
                               className="w-14 h-14 object-cover rounded-lg border-2 border-slate-200 shadow-sm"
                             />
@@ -1,6 +1,5 @@
-import React, { useEffect, useState } from "react";
-import { useAuth } from "@/contexts/AuthContext";
-import { adminListUsers, adminDeleteUser, adminUpdateUser, registerUser } from "@/lib/api";
+import React, { useState } from "react";
+import { useAdminUsers, useCreateAdminUser, useDeleteAdminUser, useUpdateAdminUser } from "@/hooks/use-admin";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -35,12 +34,8 @@ type UserItem = {
 };
 
 const AdminUsers = () => {
-  const { tokens } = useAuth();
-  const access = tokens?.access || "";
   const { toast } = useToast();
 
-  const [users, setUsers] = useState<UserItem[]>([]);
-  const [loading, setLoading] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [expandedId, setExpandedId] = useState<number | null>(null);
   const [filter, setFilter] = useState<'all' | 'customer' | 'manager'>('all');
@@ -48,24 +43,14 @@ const AdminUsers = () => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [form, setForm] = useState({ username: "", email: "", password: "", role: "customer" });
   const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
 
-  const fetchUsers = async () => {
-    setLoading(true);
-    try {
-      const res = await adminListUsers(access);
-      if (res.data) setUsers(res.data as UserItem[]);
-    } catch (e) {
-      toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchUsers();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  const usersQuery = useAdminUsers();
+  const users: UserItem[] = usersQuery.data ?? [];
+  const loading = usersQuery.isPending;
+  const createUser = useCreateAdminUser();
+  const updateUser = useUpdateAdminUser();
+  const deleteUser = useDeleteAdminUser();
+  const deleteLoading = deleteUser.isPending;
 
   const promptDelete = (id: number) => {
     setDeleteTargetId(id);
@@ -74,16 +59,12 @@ const AdminUsers = () => {
   const handleDelete = async (id?: number) => {
     const toDelete = id ?? deleteTargetId;
     if (!toDelete) return;
-    setDeleteLoading(true);
     try {
-      await adminDeleteUser(access, toDelete);
+      await deleteUser.mutateAsync(toDelete);
       toast({ title: "Success", description: "User deleted successfully" });
       setDeleteTargetId(null);
-      fetchUsers();
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
-    } finally {
-      setDeleteLoading(false);
     }
   };
 
@@ -100,15 +81,17 @@ const AdminUsers = () => {
   const submitEdit = async () => {
     if (!editingId) return;
     try {
-      await adminUpdateUser(access, editingId, { 
-        username: form.username, 
-        email: form.email, 
-        role: form.role, 
-        password: form.password || undefined 
+      await updateUser.mutateAsync({
+        id: editingId,
+        updates: {
+          username: form.username,
+          email: form.email,
+          role: form.role,
+          password: form.password || undefined
+        }
       });
       toast({ title: "Success", description: "User updated successfully" });
       cancelEdit();
-      fetchUsers();
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
     }
@@ -120,12 +103,16 @@ const AdminUsers = () => {
       return;
     }
     try {
-      const res = await registerUser(form.username, form.email, form.password, form.role as 'customer' | 'manager');
+      const res = await createUser.mutateAsync({
+        username: form.username,
+        email: form.email,
+        password: form.password,
+        role: form.role as 'customer' | 'manager'
+      });
       if (res.data) {
         toast({ title: "Success", description: "User created successfully" });
         setForm({ username: "", email: "", password: "", role: "customer" });
         setShowCreateModal(false);
-        fetchUsers();
       }
     } catch (e) {
       toast({ variant: "destructive", title: "Error", description: (e as Error).message });
@@ -283,10 +270,10 @@ const AdminUsers = () => {
               <Button
                 size="sm"
                 variant="ghost"
-                onClick={fetchUsers}
-                disabled={loading}
+                onClick={() => usersQuery.refetch()}
+                disabled={usersQuery.isFetching}
               >
-                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                <RefreshCw className={`w-4 h-4 ${usersQuery.isFetching ? 'animate-spin' : ''}`} />
               </Button>
             </div>
           </div>
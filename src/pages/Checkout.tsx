@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -7,36 +7,54 @@ import { Separator } from "@/components/ui/separator"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
-import { useCart } from '@/contexts/CartContext'
-import { useAuth } from '@/contexts/AuthContext'
+import { useCart } from '@/hooks/use-cart'
+import { useAuth } from '@/hooks/use-auth'
+import { useCurrency } from '@/hooks/use-currency'
 import { toast } from '@/hooks/use-toast'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
+import PromoCodeField from '@/components/PromoCodeField'
+import TaxSummary from '@/components/TaxSummary'
+import { useCouponQuote } from '@/hooks/use-coupons'
 import { getUserAddresses } from '@/lib/api'
-import { MapPin, Phone, ShieldCheck, CreditCard } from 'lucide-react'
-
-interface Address {
-  id: number
-  address_type: string
-  street: string
-  city: string
-  state: string
-  pincode: string
-  country: string
-  is_default: boolean
-}
+import { apiFetch } from '@/lib/http'
+import { mediaUrl } from '@/lib/config'
+import { formatMoney, SETTLEMENT_CURRENCY } from '@/lib/money'
+import { couponErrorMessage, orderTotals } from '@/lib/coupons'
+import { getPricing } from '@/lib/pricing'
+import { formatDeliveryEstimate, selectShipping, shippingOptions, type ShippingMethod } from '@/lib/shipping'
+import type { UserAddress } from '@/lib/schemas'
+import { cartTax } from '@/lib/tax'
+import { formatOptions, hasOptions } from '@/lib/variants'
+import { MapPin, Phone, ShieldCheck, CreditCard, Truck } from 'lucide-react'
 
 const Checkout: React.FC = () => {
   const { items, loading: cartLoading, getTotalPrice } = useCart()
   const { tokens, user } = useAuth()
+  const { formatPrice, isConverted } = useCurrency()
   const navigate = useNavigate()
+  const location = useLocation()
   
-  const [addresses, setAddresses] = useState<Address[]>([])
+  const [addresses, setAddresses] = useState<UserAddress[]>([])
   const [selectedAddress, setSelectedAddress] = useState<string>('')
   const [contactPhone, setContactPhone] = useState<string>('')
   const [useProfilePhone, setUseProfilePhone] = useState<boolean>(true)
   const [loading, setLoading] = useState(false)
   const [addressesLoading, setAddressesLoading] = useState(true)
+  // Kept when the shopper comes back from OTP verification
+  const [couponCode, setCouponCode] = useState<string | null>(location.state?.couponCode ?? null)
+  const couponQuote = useCouponQuote(couponCode)
+  const coupon = couponQuote.isError ? undefined : couponQuote.data
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>(location.state?.shippingMethod ?? 'standard')
+  const deliveryAddress = addresses.find((address) => address.id.toString() === selectedAddress)
+  const pincode = deliveryAddress?.zip_code
+  const shippingCart = { subtotal: getTotalPrice(), items }
+  const deliveryOptions = shippingOptions(shippingCart, pincode)
+  // Falls back to standard where the pincode has no express delivery
+  const shipping = selectShipping(shippingCart, pincode, shippingMethod)
+  const totals = orderTotals(getTotalPrice(), coupon, shipping.cost)
+  // CGST/SGST or IGST depends on the delivery state
+  const tax = cartTax(items, totals, deliveryAddress?.state)
 
   // Fetch user addresses
   useEffect(() => {
@@ -48,7 +66,7 @@ const Checkout: React.FC = () => {
         setAddresses(response.data || [])
         
         // Auto-select default address
-        const defaultAddress = response.data?.find((addr: Address) => addr.is_default)
+        const defaultAddress = response.data?.find((addr) => addr.is_default)
         if (defaultAddress) {
           setSelectedAddress(defaultAddress.id.toString())
         } else if (response.data?.length > 0) {
@@ -105,15 +123,12 @@ const Checkout: React.FC = () => {
 
     try {
       // Generate OTP for order verification
-      const response = await fetch('http://localhost:8000/api/orders/generate-otp/', {
+      const response = await apiFetch('/orders/generate-otp/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({
+        token: tokens?.access,
+        body: {
           address_id: parseInt(selectedAddress)
-        })
+        }
       })
 
       const data = await response.json()
@@ -128,7 +143,11 @@ const Checkout: React.FC = () => {
         navigate('/verify-otp', { 
           state: { 
             addressId: parseInt(selectedAddress),
-            contactPhone: phoneToUse
+            contactPhone: phoneToUse,
+            // Re-checked on the next step, which drops it only if the backend rejects it
+            couponCode,
+            shippingMethod: shipping.method,
+            pincode
           } 
         })
       } else {
@@ -205,9 +224,9 @@ const Checkout: React.FC = () => {
                               <Badge variant="secondary" className="text-xs">Default</Badge>
                             )}
                           </div>
-                          <p className="text-sm text-muted-foreground">{address.street}</p>
+                          <p className="text-sm text-muted-foreground">{address.street_address}</p>
                           <p className="text-sm text-muted-foreground">
-                            {address.city}, {address.state} {address.pincode}
+                            {address.city}, {address.state} {address.zip_code}
                           </p>
                           <p className="text-sm text-muted-foreground">{address.country}</p>
                         </div>
@@ -229,6 +248,44 @@ const Checkout: React.FC = () => {
               </Button>
             </section>
 
+            <Separator />
+
+            {/* Delivery Method */}
+            <section>
+              <h2 className="text-lg font-medium mb-4 flex items-center gap-2">
+                <Truck className="h-5 w-5" /> Delivery Method
+              </h2>
+
+              <RadioGroup
+                value={shipping.method}
+                onValueChange={(value) => setShippingMethod(value as ShippingMethod)}
+                className="space-y-4"
+              >
+                {deliveryOptions.map((option) => (
+                  <div key={option.method} className="relative">
+                    <RadioGroupItem value={option.method} id={`shipping-${option.method}`} className="peer sr-only" />
+                    <Label
+                      htmlFor={`shipping-${option.method}`}
+                      className="flex items-center justify-between gap-4 p-4 border rounded-lg cursor-pointer transition-all hover:border-primary/50 peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-secondary/10"
+                    >
+                      <div>
+                        <p className="font-medium">{option.label} Delivery</p>
+                        <p className="text-sm text-muted-foreground mt-1">{formatDeliveryEstimate(option)}</p>
+                      </div>
+                      {option.cost === 0 ? (
+                        <span className="text-green-600 font-medium">Free</span>
+                      ) : (
+                        <span className="font-medium">{formatPrice(option.cost)}</span>
+                      )}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {shippingMethod === 'express' && shipping.method !== 'express' && (
+                <p className="text-sm text-muted-foreground mt-2">Express delivery is not available for this pincode.</p>
+              )}
+            </section>
+
             <Separator />
             
             {/* Contact Phone */}
@@ -293,14 +350,14 @@ const Checkout: React.FC = () => {
                 <CardContent className="space-y-6">
                   <div className="space-y-4 max-h-[300px] overflow-y-auto pr-2">
                     {items.map((item) => {
-                      const price = parseFloat(item.product.discounted_price || item.product.price)
+                      const { price } = getPricing(item.product)
                       
                       return (
                         <div key={item.id} className="flex gap-4">
                           <div className="w-16 h-20 bg-background rounded-sm overflow-hidden flex-shrink-0">
                             {item.product.image ? (
                               <img 
-                                src={item.product.image} 
+                                src={mediaUrl(item.product.image)} 
                                 alt={item.product.name}
                                 className="w-full h-full object-cover"
                               />
@@ -313,10 +370,10 @@ const Checkout: React.FC = () => {
                           <div className="flex-1 min-w-0">
                             <h4 className="font-medium text-sm line-clamp-2">{item.product.name}</h4>
                             <p className="text-sm text-muted-foreground mt-1">
-                              {item.size && <span>Size: {item.size} • </span>}
+                              {hasOptions(item) && <span>{formatOptions(item)} • </span>}
                               Qty: {item.quantity}
                             </p>
-                            <p className="text-sm font-medium mt-1">₹{(price * item.quantity).toFixed(2)}</p>
+                            <p className="text-sm font-medium mt-1">{formatPrice(price * item.quantity)}</p>
                           </div>
                         </div>
                       )
@@ -324,26 +381,52 @@ const Checkout: React.FC = () => {
                   </div>
                   
                   <Separator />
+
+                  <PromoCodeField
+                    coupon={coupon}
+                    checking={couponQuote.isFetching}
+                    error={couponQuote.isError ? couponErrorMessage(couponQuote.error) : undefined}
+                    onApply={setCouponCode}
+                    onRemove={() => setCouponCode(null)}
+                  />
                   
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Subtotal</span>
-                      <span>₹{getTotalPrice().toFixed(2)}</span>
+                      <span>{formatPrice(totals.subtotal)}</span>
                     </div>
+                    {coupon && totals.discount > 0 && (
+                      <div className="flex justify-between text-sm text-green-700">
+                        <span>Discount ({coupon.code})</span>
+                        <span>−{formatPrice(totals.discount)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Shipping</span>
-                      <span className="text-green-600 font-medium">Free</span>
+                      <span className="text-muted-foreground">Shipping ({shipping.label})</span>
+                      {totals.shipping === 0 ? (
+                        <span className="text-green-600 font-medium">
+                          Free{coupon && totals.freeShipping && ` (${coupon.code})`}
+                        </span>
+                      ) : (
+                        <span>{formatPrice(totals.shipping)}</span>
+                      )}
                     </div>
                     <Separator className="my-2" />
                     <div className="flex justify-between font-serif font-bold text-xl">
                       <span>Total</span>
-                      <span>₹{getTotalPrice().toFixed(2)}</span>
+                      <span>{formatPrice(totals.total)}</span>
                     </div>
+                    {isConverted && (
+                      <p className="text-xs text-muted-foreground text-right">
+                        You will be charged {formatMoney(totals.total)} ({SETTLEMENT_CURRENCY})
+                      </p>
+                    )}
+                    <TaxSummary breakdown={tax} className="pt-1" />
                   </div>
 
                   <Button 
                     onClick={handlePlaceOrder}
-                    disabled={loading || !selectedAddress || addresses.length === 0}
+                    disabled={loading || couponQuote.isFetching || !selectedAddress || addresses.length === 0}
                     className="w-full h-12 text-base uppercase tracking-wide"
                   >
                     {loading ? "Processing..." : "Proceed to Payment"}
@@ -1,7 +1,8 @@
 import React, { useState } from 'react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth } from '@/hooks/use-auth'
+import { apiFetch } from '@/lib/http'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
 
@@ -14,12 +15,7 @@ const Debug: React.FC = () => {
       setResult('Testing cart API...')
       console.log('Testing with token:', tokens ? `${tokens.access.substring(0, 20)}...` : 'No token')
       
-      const response = await fetch('http://localhost:8000/api/cart/', {
-        headers: {
-          'Authorization': `Bearer ${tokens?.access}`,
-          'Content-Type': 'application/json'
-        }
-      })
+      const response = await apiFetch('/cart/', { token: tokens?.access })
       
       const data = await response.json()
       setResult(`Cart API Response (${response.status}): ${JSON.stringify(data, null, 2)}`)
@@ -31,11 +27,7 @@ const Debug: React.FC = () => {
   const testOrdersAPI = async () => {
     try {
       setResult('Testing orders API...')
-      const response = await fetch('http://localhost:8000/api/orders/', {
-        headers: {
-          'Authorization': `Bearer ${tokens?.access}`
-        }
-      })
+      const response = await apiFetch('/orders/', { token: tokens?.access })
       
       const data = await response.json()
       setResult(`Orders API Response: ${JSON.stringify(data, null, 2)}`)
@@ -47,12 +39,7 @@ const Debug: React.FC = () => {
   const testAuth = async () => {
     try {
       setResult('Testing auth endpoint...')
-      const response = await fetch('http://localhost:8000/api/cart/test-auth/', {
-        headers: {
-          'Authorization': `Bearer ${tokens?.access}`,
-          'Content-Type': 'application/json'
-        }
-      })
+      const response = await apiFetch('/cart/test-auth/', { token: tokens?.access })
       
       const data = await response.json()
       setResult(`Auth Test Response (${response.status}): ${JSON.stringify(data, null, 2)}`)
@@ -64,16 +51,13 @@ const Debug: React.FC = () => {
   const testAddToCart = async () => {
     try {
       setResult('Testing add to cart...')
-      const response = await fetch('http://localhost:8000/api/cart/add/', {
+      const response = await apiFetch('/cart/add/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({
+        token: tokens?.access,
+        body: {
           product_id: 10,
           quantity: 1
-        })
+        }
       })
       
       const data = await response.json()
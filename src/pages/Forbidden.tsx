@@ -0,0 +1,43 @@
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { loginPath } from "@/lib/redirect";
+
+/**
+ * 403 page for signed-in users without the role a route requires. Rendered in
+ * place so the address bar still shows what they tried to open.
+ */
+const Forbidden = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+
+  const handleSwitchAccount = () => {
+    logout();
+    navigate(loginPath(location), { replace: true });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+      <div className="max-w-md text-center">
+        <ShieldAlert className="mx-auto mb-4 h-12 w-12 text-destructive" />
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-2 text-xl text-gray-600">You don&apos;t have access to this page</p>
+        <p className="mb-8 text-sm text-gray-500">
+          {user ? `You're signed in as ${user.username}, which can't open ${location.pathname}.` : null}
+        </p>
+        <div className="flex flex-col justify-center gap-3 sm:flex-row">
+          <Button asChild>
+            <Link to="/">Return to Home</Link>
+          </Button>
+          <Button variant="outline" onClick={handleSwitchAccount}>
+            Sign in with another account
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,19 +1,15 @@
 import { useEffect, useState } from "react";
 import { useNavigate, useLocation, Link } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import Header from "@/components/Header";
 import Hero from "@/components/Hero";
 import FeaturedProducts from "@/components/FeaturedProducts";
 import Footer from "@/components/Footer";
 import { ArrowRight, Loader2 } from "lucide-react";
 import { getPublicCategories } from "@/lib/api";
+import { mediaUrl } from "@/lib/config";
 
-const getImageUrl = (imagePath: string | null): string => {
-  if (!imagePath) return "https://images.unsplash.com/photo-1523381210434-271e8be1f52b?w=800&q=80"; // Fallback
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
+const CATEGORY_IMAGE_PLACEHOLDER = "https://images.unsplash.com/photo-1523381210434-271e8be1f52b?w=800&q=80";
 
 const Index = () => {
   const { user, loading } = useAuth();
@@ -82,7 +78,7 @@ const Index = () => {
                     className="group relative h-[400px] overflow-hidden block border border-border/50 rounded-sm"
                   >
                     <img 
-                      src={getImageUrl(category.image)} 
+                      src={mediaUrl(category.image, CATEGORY_IMAGE_PLACEHOLDER)} 
                       alt={category.name}
                       className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 opacity-80 group-hover:opacity-100"
                     />
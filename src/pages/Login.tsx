@@ -1,12 +1,13 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Eye, EyeOff, Loader2, ArrowRight } from "lucide-react";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import { loginUser } from "@/lib/api";
+import { readReturnTo } from "@/lib/redirect";
 import { useToast } from "@/hooks/use-toast";
 import loginImage from "@/assets/login-men.png";
 
@@ -17,19 +18,23 @@ const Login = () => {
   const [rememberMe, setRememberMe] = useState(false);
   const [loading, setLoading] = useState(false);
   
-  const { login, isAuthenticated } = useAuth();
+  const { login, isAuthenticated, user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const returnTo = readReturnTo(location.search);
 
-  // Redirect to home if already authenticated
+  // Redirect away once authenticated: back to the page that sent the user
+  // here, otherwise their role's home
   useEffect(() => {
     if (isAuthenticated) {
+      const destination = returnTo || (user?.role === "manager" ? "/admin-dashboard" : "/");
       const timer = setTimeout(() => {
-        navigate("/", { replace: true });
+        navigate(destination, { replace: true });
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, user?.role, returnTo, navigate]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,13 +57,7 @@ const Login = () => {
           description: `Successfully signed in as ${response.data.user.username}`,
         });
 
-        setTimeout(() => {
-          if (response.data.user.role === "manager") {
-            navigate("/admin-dashboard", { replace: true });
-          } else {
-            navigate("/", { replace: true });
-          }
-        }, 800);
+        // The redirect effect above takes it from here once the session is set
       } else {
         toast({ variant: "destructive", title: "Login Failed", description: "Invalid credentials. Please try again." });
         setLoading(false);
@@ -2,9 +2,11 @@ import React, { useState } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { useCart } from '@/contexts/CartContext'
-import { useAuth } from '@/contexts/AuthContext'
+import { useCart } from '@/hooks/use-cart'
+import { useAuth } from '@/hooks/use-auth'
+import { useCurrency } from '@/hooks/use-currency'
 import { toast } from '@/hooks/use-toast'
+import { apiFetch } from '@/lib/http'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
 import { Loader2, Package } from 'lucide-react'
@@ -14,6 +16,7 @@ const OrderConfirmation: React.FC = () => {
   const location = useLocation()
   const { tokens, isAuthenticated } = useAuth()
   const { items, getTotalPrice } = useCart()
+  const { formatPrice } = useCurrency()
   const [loading, setLoading] = useState(false)
 
   const addressId = location.state?.addressId
@@ -38,13 +41,10 @@ const OrderConfirmation: React.FC = () => {
     setLoading(true)
 
     try {
-      const response = await fetch('http://localhost:8000/api/orders/place/', {
+      const response = await apiFetch('/orders/place/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({ address_id: addressId })
+        token: tokens?.access,
+        body: { address_id: addressId }
       })
 
       const data = await response.json()
@@ -104,7 +104,7 @@ const OrderConfirmation: React.FC = () => {
                     <div key={item.id} className="flex justify-between text-sm">
                       <span>{item.product.name} x {item.quantity}</span>
                       <span className="font-medium">
-                        ₹{(parseFloat(item.product.discounted_price || item.product.price) * item.quantity).toFixed(2)}
+                        {formatPrice(parseFloat(item.product.discounted_price || item.product.price) * item.quantity)}
                       </span>
                     </div>
                   ))}
@@ -114,7 +114,7 @@ const OrderConfirmation: React.FC = () => {
               <div className="border-t pt-4">
                 <div className="flex justify-between font-semibold text-lg">
                   <span>Total</span>
-                  <span>₹{getTotalPrice().toFixed(2)}</span>
+                  <span>{formatPrice(getTotalPrice())}</span>
                 </div>
               </div>
 
@@ -5,66 +5,44 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth } from '@/hooks/use-auth'
+import { useCurrency } from '@/hooks/use-currency'
+import { getOrders } from '@/lib/api'
+import { mediaUrl } from '@/lib/config'
+import { formatMoney, SETTLEMENT_CURRENCY } from '@/lib/money'
+import type { Order } from '@/lib/schemas'
+import { orderTax } from '@/lib/tax'
+import { formatOptions, hasOptions } from '@/lib/variants'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
-
-interface OrderDetails {
-  id: number
-  status: string
-  total_amount: string
-  created_at: string
-  invoice_pdf?: string
-  address: {
-    street: string
-    city: string
-    state: string
-    pincode: string
-  } | null
-  items: Array<{
-    id: number
-    product_name: string
-    product_image?: string
-    quantity: number
-    price: string
-    total: string
-  }>
-}
+import TaxSummary from '@/components/TaxSummary'
 
 const OrderSuccess: React.FC = () => {
   const { orderId } = useParams<{ orderId: string }>()
   const { tokens } = useAuth()
+  const { formatPrice, isConverted } = useCurrency()
   const navigate = useNavigate()
-  const [order, setOrder] = useState<OrderDetails | null>(null)
+  const [order, setOrder] = useState<Order | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
     const fetchOrder = async () => {
-      if (!orderId || !tokens?.access) {
+      if (!tokens?.access) return
+      if (!orderId) {
         navigate('/')
         return
       }
 
       try {
-        const response = await fetch(`http://localhost:8000/api/orders/`, {
-          headers: {
-            'Authorization': `Bearer ${tokens.access}`
+        const data = await getOrders(tokens.access)
+        if (data.status === 'success') {
+          // Find the specific order
+          const foundOrder = data.data.orders.find(o => o.id.toString() === orderId)
+          if (foundOrder) {
+            setOrder(foundOrder)
+          } else {
+            navigate('/')
           }
-        })
-
-        if (response.ok) {
-          const data = await response.json()
-          if (data.status === 'success') {
-            // Find the specific order
-            const foundOrder = data.data.orders.find((o: OrderDetails) => o.id.toString() === orderId)
-            if (foundOrder) {
-              setOrder(foundOrder)
-            } else {
-              navigate('/')
-            }
-          }
-        } else {
-          navigate('/')
         }
       } catch (error) {
         console.error('Error fetching order:', error)
@@ -93,6 +71,9 @@ const OrderSuccess: React.FC = () => {
     return null
   }
 
+  const freeShippingCode = order.discounts.find(discount => discount.free_shipping)?.code
+  const shippingCost = parseFloat(order.shipping_cost ?? '0') || 0
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
@@ -151,7 +132,7 @@ const OrderSuccess: React.FC = () => {
                       <div className="w-16 h-20 bg-background rounded-sm overflow-hidden flex-shrink-0 border">
                         {item.product_image ? (
                           <img 
-                            src={item.product_image} 
+                            src={mediaUrl(item.product_image)} 
                             alt={item.product_name}
                             className="w-full h-full object-cover"
                           />
@@ -163,12 +144,15 @@ const OrderSuccess: React.FC = () => {
                       </div>
                       <div className="flex-1 min-w-0">
                         <h4 className="font-medium text-base truncate">{item.product_name}</h4>
+                        {hasOptions(item) && (
+                          <p className="text-xs text-muted-foreground mt-0.5">{formatOptions(item)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground mt-1">
-                          Qty: {item.quantity} × ₹{item.price}
+                          Qty: {item.quantity} × {formatPrice(item.price)}
                         </p>
                       </div>
                       <div className="text-right font-medium">
-                        ₹{item.total}
+                        {formatPrice(item.total)}
                       </div>
                     </div>
                   ))}
@@ -199,16 +183,34 @@ const OrderSuccess: React.FC = () => {
                     <div className="space-y-1 text-sm">
                       <div className="flex justify-between">
                         <span>Subtotal</span>
-                        <span>₹{order.total_amount}</span>
+                        <span>{formatPrice(order.subtotal ?? order.total_amount)}</span>
                       </div>
+                      {order.discounts.filter(discount => parseFloat(discount.amount) > 0).map((discount) => (
+                        <div key={discount.code} className="flex justify-between text-green-700">
+                          <span>Discount ({discount.code})</span>
+                          <span>−{formatPrice(discount.amount)}</span>
+                        </div>
+                      ))}
                       <div className="flex justify-between">
                         <span>Shipping</span>
-                        <span className="text-green-600">Free</span>
+                        {shippingCost > 0 ? (
+                          <span>{formatPrice(order.shipping_cost)}</span>
+                        ) : (
+                          <span className="text-green-600">
+                            Free{freeShippingCode && ` (${freeShippingCode})`}
+                          </span>
+                        )}
                       </div>
                       <div className="flex justify-between font-bold text-lg pt-2 border-t mt-2">
                         <span>Total Paid</span>
-                        <span>₹{order.total_amount}</span>
+                        <span>{formatPrice(order.total_amount)}</span>
                       </div>
+                      {isConverted && (
+                        <p className="text-xs text-muted-foreground text-right">
+                          Charged {formatMoney(order.total_amount)} ({SETTLEMENT_CURRENCY})
+                        </p>
+                      )}
+                      <TaxSummary breakdown={orderTax(order)} className="pt-1" />
                     </div>
                   </div>
                 </div>
@@ -235,7 +237,7 @@ const OrderSuccess: React.FC = () => {
               {order.invoice_pdf && (
                 <Button
                   variant="secondary"
-                  onClick={() => window.open(`http://localhost:8000${order.invoice_pdf}`, '_blank')}
+                  onClick={() => window.open(mediaUrl(order.invoice_pdf), '_blank')}
                   className="w-full sm:w-auto min-w-[200px] h-12"
                 >
                   <Download className="mr-2 h-4 w-4" /> Download Invoice
@@ -1,101 +1,35 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Package, Eye, ArrowLeft, Download, Star, X, ShoppingBag } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { useAuth } from '@/contexts/AuthContext'
+import { useAuth } from '@/hooks/use-auth'
+import { useCurrency } from '@/hooks/use-currency'
+import { useOrders } from '@/hooks/use-orders'
 import { toast } from '@/hooks/use-toast'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
 import ReviewForm from '@/components/ReviewForm'
-import { createReview } from '@/lib/api'
-
-const getImageUrl = (imagePath: string | null | undefined): string => {
-  if (!imagePath) return "";
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
-
-interface OrderItem {
-  id: number
-  product_id: number
-  product_name: string
-  product_image?: string
-  quantity: number
-  price: string
-  total: string
-  has_review?: boolean
-}
-
-interface Order {
-  id: number
-  status: string
-  total_amount: string
-  created_at: string
-  updated_at: string
-  invoice_pdf?: string
-  address: {
-    street: string
-    city: string
-    state: string
-    pincode: string
-  } | null
-  items: OrderItem[]
-}
+import TaxSummary from '@/components/TaxSummary'
+import { createReview, getOrders } from '@/lib/api'
+import { mediaUrl } from '@/lib/config'
+import { formatMoney } from '@/lib/money'
+import type { Order } from '@/lib/schemas'
+import { orderTax } from '@/lib/tax'
+import { formatOptions, hasOptions } from '@/lib/variants'
 
 const Orders: React.FC = () => {
   const { tokens } = useAuth()
+  const { formatPrice, isConverted } = useCurrency()
   const navigate = useNavigate()
-  const [orders, setOrders] = useState<Order[]>([])
-  const [loading, setLoading] = useState(true)
+  const ordersQuery = useOrders()
+  const orders: Order[] = ordersQuery.data ?? []
+  const loading = ordersQuery.isPending
   const [reviewingItem, setReviewingItem] = useState<{ orderId: number; orderItemId: number; productId: number } | null>(null)
   const [reviewedItems, setReviewedItems] = useState<Set<number>>(new Set())
 
-  useEffect(() => {
-    const fetchOrders = async () => {
-      if (!tokens) {
-        navigate('/login')
-        return
-      }
-
-      try {
-        const response = await fetch('http://localhost:8000/api/orders/', {
-          headers: {
-            'Authorization': `Bearer ${tokens.access}`
-          }
-        })
-
-        if (response.ok) {
-          const data = await response.json()
-          if (data.status === 'success') {
-            setOrders(data.data.orders)
-          }
-        } else {
-          console.error('Orders fetch failed with status:', response.status)
-          toast({
-            title: "Error",
-            description: "Failed to load orders",
-            variant: "destructive"
-          })
-        }
-      } catch (error) {
-        console.error('Error fetching orders:', error)
-        toast({
-          title: "Error",
-          description: "Failed to load orders",
-          variant: "destructive"
-        })
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchOrders()
-  }, [tokens, navigate])
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
@@ -210,7 +144,15 @@ const Orders: React.FC = () => {
                         </p>
                       </div>
                       <div className="text-left sm:text-right">
-                        <p className="font-bold text-lg">₹{order.total_amount}</p>
+                        <p className="font-bold text-lg">{formatPrice(order.total_amount)}</p>
+                        {isConverted && (
+                          <p className="text-xs text-muted-foreground">Paid {formatMoney(order.total_amount)}</p>
+                        )}
+                        {order.discounts.map((discount) => (
+                          <p key={discount.code} className="text-xs text-green-700">
+                            {parseFloat(discount.amount) > 0 ? `Saved ${formatPrice(discount.amount)}` : 'Free shipping'} with {discount.code}
+                          </p>
+                        ))}
                         <p className="text-sm text-muted-foreground">
                           {order.items.length} item{order.items.length !== 1 ? 's' : ''}
                         </p>
@@ -226,7 +168,7 @@ const Orders: React.FC = () => {
                             <div className="w-16 h-20 bg-secondary/20 rounded-sm overflow-hidden flex-shrink-0 border border-border/50">
                               {item.product_image ? (
                                 <img 
-                                  src={getImageUrl(item.product_image)} 
+                                  src={mediaUrl(item.product_image)} 
                                   alt={item.product_name}
                                   className="w-full h-full object-cover transition-transform group-hover:scale-105"
                                 />
@@ -238,17 +180,22 @@ const Orders: React.FC = () => {
                             </div>
                             <div className="flex-1 min-w-0">
                               <h4 className="font-medium truncate">{item.product_name}</h4>
+                              {hasOptions(item) && (
+                                <p className="text-xs text-muted-foreground mt-0.5">{formatOptions(item)}</p>
+                              )}
                               <p className="text-sm text-muted-foreground mt-1">
-                                Qty: {item.quantity} × ₹{item.price}
+                                Qty: {item.quantity} × {formatPrice(item.price)}
                               </p>
                             </div>
                             <div className="text-right font-medium">
-                              ₹{item.total}
+                              {formatPrice(item.total)}
                             </div>
                           </div>
                         ))}
                       </div>
 
+                      <TaxSummary breakdown={orderTax(order)} className="sm:ml-auto sm:max-w-xs" />
+
                       <Separator />
 
                       {/* Footer Actions & Info */}
@@ -275,7 +222,7 @@ const Orders: React.FC = () => {
                             <Button 
                               variant="outline" 
                               size="sm"
-                              onClick={() => window.open(`http://localhost:8000${order.invoice_pdf}`, '_blank')}
+                              onClick={() => window.open(mediaUrl(order.invoice_pdf), '_blank')}
                             >
                               <Download className="mr-2 h-3.5 w-3.5" />
                               Invoice
@@ -1,79 +1,73 @@
-import { useState, useEffect } from "react";
-import { useParams, Link, useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo } from "react";
+import { useParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { ShoppingBag, Heart, ChevronLeft, Truck, ShieldCheck, RefreshCw } from "lucide-react";
+import { ShoppingBag, ChevronLeft, Truck, ShieldCheck, RefreshCw } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
-import { getPublicProductDetail } from "@/lib/api";
-import { useCart } from "@/contexts/CartContext";
-import { useAuth } from "@/contexts/AuthContext";
+import WishlistButton from "@/components/WishlistButton";
+import StockAlertButton from "@/components/StockAlertButton";
+import ProductGallery, { type GalleryImage } from "@/components/ProductGallery";
+import VariantSelector from "@/components/VariantSelector";
+import SizeGuideDialog from "@/components/SizeGuideDialog";
+import PriceTag from "@/components/PriceTag";
+import { useProduct, useSizeChart } from "@/hooks/use-catalog";
+import { useCart } from "@/hooks/use-cart";
+import { useCurrency } from "@/hooks/use-currency";
 import { toast } from "@/hooks/use-toast";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import { formatSaleEnd, getPricing, variantPrices } from "@/lib/pricing";
+import { defaultDeliveryEstimate, SHIPPING_RATES } from "@/lib/shipping";
+import { findVariant, selectOption, variantAxes, type VariantOptions } from "@/lib/variants";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Separator } from "@/components/ui/separator";
 
-type ProductData = {
-  id: number;
-  name: string;
-  description: string;
-  price: string;
-  stock: number;
-  category: { id: number; name: string } | null;
-  image: string | null;
-  variants: Array<{ id: number; size: string; stock: number }>;
-  attributes: Array<{ name: string; value: string }>;
-  created_at: string;
-  updated_at: string;
-};
-
-const getImageUrl = (imagePath: string | null): string => {
-  if (!imagePath) return "https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=800&q=80";
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
-
 const Product = () => {
   const { id } = useParams();
-  const navigate = useNavigate();
-  const { addToCart, loading: cartLoading } = useCart();
-  const { isAuthenticated } = useAuth();
+  const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
   const [quantity, setQuantity] = useState(1);
-  const [selectedSize, setSelectedSize] = useState<string>("");
-  const [product, setProduct] = useState<ProductData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [selection, setSelection] = useState<VariantOptions>({});
+  const { data, isPending: loading, error } = useProduct(id ? parseInt(id) : undefined);
+  const product = data ?? null;
+  const variants = useMemo(() => product?.variants ?? [], [product]);
+  const axes = useMemo(() => variantAxes(variants), [variants]);
+  const { data: sizeChart } = useSizeChart(product?.category?.id);
 
   useEffect(() => {
-    const fetchProduct = async () => {
-      if (!id) return;
-      
-      try {
-        setLoading(true);
-        const response = await getPublicProductDetail(parseInt(id));
-        setProduct(response.data);
-        if (response.data.variants && response.data.variants.length > 0) {
-          const firstAvailable = response.data.variants.find((v: { stock: number }) => v.stock > 0);
-          if (firstAvailable) {
-            setSelectedSize(firstAvailable.size);
-          }
-        }
-      } catch (err) {
-        setError((err as Error).message);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchProduct();
+    setSelection({});
   }, [id]);
 
-  const mainImage = getImageUrl(product?.image);
-  
-  const selectedVariant = product?.variants?.find(v => v.size === selectedSize);
+  // Preselect the first in-stock combination once the product arrives
+  useEffect(() => {
+    const firstAvailable = variants.find((v) => v.stock > 0);
+    if (firstAvailable) {
+      setSelection((current) => (Object.keys(current).length > 0 ? current : firstAvailable.options));
+    }
+  }, [variants]);
+
+  const mainImage = mediaUrl(product?.image, PRODUCT_IMAGE_PLACEHOLDER);
+  // Products without a photo set still show their single image
+  const galleryImages: GalleryImage[] = product?.images?.length
+    ? product.images.map((image) => ({ src: mediaUrl(image.image), alt: image.alt_text || product.name }))
+    : [{ src: mainImage, alt: product?.name ?? "" }];
+  // Variant photos that are not part of the product's own set
+  variants.forEach((variant) => {
+    const src = variant.image && mediaUrl(variant.image);
+    if (src && !galleryImages.some((image) => image.src === src)) {
+      galleryImages.push({ src, alt: `${product?.name} — ${Object.values(variant.options).join(" / ")}` });
+    }
+  });
+
+  const selectedVariant = findVariant(variants, axes, selection);
   const availableStock = selectedVariant?.stock || 0;
-  const hasVariants = product?.variants && product.variants.length > 0;
+  const hasVariants = variants.length > 0;
+  const displayPrices = product ? variantPrices(product, selectedVariant) : null;
+  const saleEnd = displayPrices && getPricing(displayPrices).compareAt !== null ? formatSaleEnd(product?.sale_ends_at) : null;
+  // Follow the picked options to their photo, e.g. a colour before its size
+  const focusImage = variants.find(
+    (v) => v.image && Object.entries(selection).every(([key, value]) => v.options[key] === value)
+  )?.image;
   
   const totalVariantStock = hasVariants 
     ? product?.variants.reduce((sum, v) => sum + v.stock, 0) || 0
@@ -83,28 +77,25 @@ const Product = () => {
     ? (product?.stock || 0) === 0 || totalVariantStock === 0
     : (product?.stock || 0) === 0;
   
-  const isSelectedSizeOutOfStock = hasVariants && selectedSize && availableStock === 0;
+  const isSelectedVariantOutOfStock = !!selectedVariant && availableStock === 0;
+  const missingAxis = axes.find((axis) => !selection[axis.key]);
 
-  const handleAddToCart = async () => {
-    if (!isAuthenticated) {
-      toast({
-        title: "Authentication Required",
-        description: "Please log in to add items to your cart.",
-        variant: "destructive",
-      });
-      navigate('/login');
-      return;
-    }
+  const handleSelect = (axis: string, value: string) => {
+    setSelection((current) => selectOption(variants, current, axis, value));
+  };
 
-    if (!product) return;
+  const handleAddToCart = async () => {
+    if (!product || adding) return;
 
-    try {
-      await addToCart(product.id, quantity, selectedSize || undefined);
+    setAdding(true);
+    const success = await addToCart(product.id, quantity, selectedVariant);
+    setAdding(false);
+    if (success) {
       toast({
         title: "Added to Cart",
         description: `${product.name} has been added to your cart.`,
       });
-    } catch (error) {
+    } else {
       toast({
         title: "Error",
         description: "Failed to add item to cart. Please try again.",
@@ -139,7 +130,7 @@ const Product = () => {
       <div className="min-h-screen bg-background flex flex-col">
         <Header />
         <main className="flex-1 container mx-auto px-6 py-12 text-center">
-          <p className="text-destructive mb-4">{error || "Product not found"}</p>
+          <p className="text-destructive mb-4">{error?.message || "Product not found"}</p>
           <Link to="/products">
             <Button variant="outline">Back to Products</Button>
           </Link>
@@ -163,13 +154,8 @@ const Product = () => {
           {/* Image Section - Sticky on Desktop */}
           <div className="lg:col-span-7">
             <div className="sticky top-24">
-              <div className="aspect-[3/4] overflow-hidden rounded-sm bg-secondary/20">
-                <img
-                  src={mainImage}
-                  alt={product.name}
-                  className="w-full h-full object-cover"
-                />
-              </div>
+              {/* Keyed so another product starts from its first photo */}
+              <ProductGallery key={product.id} images={galleryImages} focusSrc={focusImage ? mediaUrl(focusImage) : undefined} />
             </div>
           </div>
 
@@ -180,72 +166,79 @@ const Product = () => {
                 {product.category?.name || "Uncategorized"}
               </p>
               <h1 className="text-4xl md:text-5xl font-serif font-bold mb-4 tracking-tight leading-tight">{product.name}</h1>
-              <p className="text-2xl font-medium">₹{product.price}</p>
+              {displayPrices && <PriceTag item={displayPrices} showPercentOff className="text-2xl font-medium" />}
+              {saleEnd && <p className="mt-1 text-sm text-destructive">{saleEnd}</p>}
             </div>
 
             <Separator />
 
-            {/* Size Selection */}
+            {/* Option Selection */}
             {hasVariants && (
               <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <Label className="text-sm font-medium uppercase tracking-wide">Select Size</Label>
-                  <span className="text-xs text-muted-foreground underline cursor-pointer">Size Guide</span>
-                </div>
-                <RadioGroup value={selectedSize} onValueChange={setSelectedSize} className="flex flex-wrap gap-3">
-                  {product.variants.map((variant) => {
-                    const isOutOfStock = variant.stock === 0;
-                    return (
-                      <div key={variant.size}>
-                        <RadioGroupItem 
-                          value={variant.size} 
-                          id={variant.size} 
-                          className="peer sr-only"
-                          disabled={isOutOfStock}
-                        />
-                        <Label
-                          htmlFor={variant.size}
-                          className={`flex items-center justify-center w-14 h-14 border rounded-sm cursor-pointer transition-all 
-                            ${isOutOfStock 
-                              ? "opacity-50 cursor-not-allowed bg-secondary/50 border-transparent" 
-                              : "border-border hover:border-primary peer-data-[state=checked]:bg-primary peer-data-[state=checked]:text-primary-foreground peer-data-[state=checked]:border-primary"
-                            }`}
-                        >
-                          {variant.size}
-                        </Label>
-                      </div>
-                    );
-                  })}
-                </RadioGroup>
-                {selectedSize && !isSelectedSizeOutOfStock && (
-                  <p className="text-xs text-green-600">
-                    {availableStock < 5 ? `Only ${availableStock} left!` : "In Stock"}
-                  </p>
+                <VariantSelector
+                  variants={variants}
+                  axes={axes}
+                  selection={selection}
+                  onSelect={handleSelect}
+                  sizeGuide={
+                    sizeChart && (
+                      <SizeGuideDialog
+                        categoryId={product.category?.id}
+                        onSelectSize={(size) => handleSelect("size", size)}
+                        sizes={axes.find((axis) => axis.key === "size")?.values}
+                        trigger={
+                          <button type="button" className="text-xs text-muted-foreground underline hover:text-foreground">
+                            Size Guide
+                          </button>
+                        }
+                      />
+                    )
+                  }
+                />
+                {selectedVariant && (
+                  <div className="flex justify-between items-center text-xs">
+                    {isSelectedVariantOutOfStock ? (
+                      <p className="text-destructive">This combination is sold out</p>
+                    ) : (
+                      <p className="text-green-600">{availableStock < 5 ? `Only ${availableStock} left!` : "In Stock"}</p>
+                    )}
+                    {selectedVariant.sku && <p className="text-muted-foreground">SKU: {selectedVariant.sku}</p>}
+                  </div>
                 )}
               </div>
             )}
 
             {/* Actions */}
             <div className="space-y-4 pt-4">
-              <Button 
-                className="w-full h-14 text-base uppercase tracking-wide" 
-                size="lg"
-                disabled={isCompletelyOutOfStock || isSelectedSizeOutOfStock || (hasVariants && !selectedSize) || cartLoading}
-                onClick={handleAddToCart}
-              >
-                {cartLoading ? "Adding..." : (
-                  isCompletelyOutOfStock ? "Out of Stock" : (
-                    isSelectedSizeOutOfStock ? "Out of Stock" : (
-                      hasVariants ? (
-                        !selectedSize ? "Select Size" : "Add to Cart"
-                      ) : "Add to Cart"
-                    )
-                  )
-                )}
-              </Button>
+              {isCompletelyOutOfStock || isSelectedVariantOutOfStock ? (
+                <StockAlertButton
+                  productId={product.id}
+                  productName={product.name}
+                  variant={selectedVariant}
+                  disabled={!!missingAxis}
+                  disabledLabel={missingAxis && `Select ${missingAxis.label} to get notified`}
+                  className="w-full h-14 text-base uppercase tracking-wide"
+                />
+              ) : (
+                <Button 
+                  className="w-full h-14 text-base uppercase tracking-wide" 
+                  size="lg"
+                  disabled={!!missingAxis || adding}
+                  onClick={handleAddToCart}
+                >
+                  {adding ? "Adding..." : missingAxis ? `Select ${missingAxis.label}` : "Add to Cart"}
+                </Button>
+              )}
+
+              <WishlistButton
+                productId={product.id}
+                productName={product.name}
+                showLabel
+                className="w-full h-14 text-base uppercase tracking-wide"
+              />
               
               <p className="text-xs text-center text-muted-foreground">
-                Free shipping on orders over ₹2000. Returns within 30 days.
+                Free shipping on orders over {formatPrice(SHIPPING_RATES.freeShippingThreshold)}. Returns within 30 days.
               </p>
             </div>
 
@@ -280,7 +273,11 @@ const Product = () => {
                   <div className="space-y-4 text-sm text-muted-foreground">
                     <div className="flex items-start gap-3">
                       <Truck className="h-5 w-5 shrink-0" />
-                      <p>Free standard shipping on all orders over ₹2000. Estimated delivery within 3-5 business days.</p>
+                      <p>
+                        Free standard shipping on all orders over {formatPrice(SHIPPING_RATES.freeShippingThreshold)}. Estimated
+                        delivery within {defaultDeliveryEstimate("standard")}, or {defaultDeliveryEstimate("express")} with
+                        express delivery.
+                      </p>
                     </div>
                     <div className="flex items-start gap-3">
                       <RefreshCw className="h-5 w-5 shrink-0" />
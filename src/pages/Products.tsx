@@ -1,14 +1,27 @@
-import { useEffect, useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import ProductCard from "@/components/ProductCard";
-import { getPublicProducts, getPublicCategories, getPublicCategoryAttributes } from "@/lib/api";
+import { useProducts, useCategories, useCategoryAttributes } from "@/hooks/use-catalog";
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
+import {
+  EMPTY_RANGE,
+  PRODUCT_SORT_OPTIONS,
+  catalogFiltersToParams,
+  hasActiveFilters,
+  parseCatalogFilters,
+  toProductListFilters,
+  type CatalogFilters,
+} from "@/lib/catalog-filters";
+import { mediaUrl, PRODUCT_IMAGE_PLACEHOLDER } from "@/lib/config";
+import type { ProductSummary } from "@/lib/schemas";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { X, Filter, SlidersHorizontal } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { X, Filter, SlidersHorizontal, ArrowUpDown } from "lucide-react";
 import {
   Sheet,
   SheetContent,
@@ -21,16 +34,6 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 
-type Product = {
-  id: number;
-  name: string;
-  price: string;
-  category: { id: number; name: string };
-  image: string | null;
-  stock: number;
-  attributes?: { id: number; name: string; value: string; field_type: string; }[];
-};
-
 type Category = {
   id: number;
   name: string;
@@ -44,147 +47,165 @@ type CategoryAttribute = {
   options: { id: number; value: string; }[];
 };
 
-const getImageUrl = (imagePath: string | null): string => {
-  if (!imagePath) return "https://images.unsplash.com/photo-1539533018447-63fcce2678e3?w=800&q=80";
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
+// Typing in a filter input waits this long before updating the URL
+const FILTER_INPUT_DELAY_MS = 400;
+const PAGE_SIZE = 12;
+// Select value standing in for the backend's default order
+const DEFAULT_SORT = "featured";
 
 const Products = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [page, setPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
-  const [selectedCategory, setSelectedCategory] = useState<number | undefined>();
-  const [categoryAttributes, setCategoryAttributes] = useState<CategoryAttribute[]>([]);
-  const [attributeFilters, setAttributeFilters] = useState<Record<number, string>>({});
-  const [numberRangeFilters, setNumberRangeFilters] = useState<Record<number, { min: string; max: string }>>({});
-  const [priceRange, setPriceRange] = useState<{ min: string; max: string }>({ min: '', max: '' });
-  const searchQuery = searchParams.get("search") || "";
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams]);
+  // Inputs edit a draft so each keystroke does not add a history entry
+  const [draft, setDraft] = useState<CatalogFilters>(filters);
+  // Range inputs the shopper has typed in; the others show the facet bounds
+  const [editedRanges, setEditedRanges] = useState<Set<string>>(() => new Set());
+  const commitTimerRef = useRef<number>();
 
   useEffect(() => {
-    const fetchCategories = async () => {
-      try {
-        const response = await getPublicCategories();
-        setCategories(response.data.categories || []);
-      } catch (error) {
-        console.error("Failed to fetch categories:", error);
-      }
-    };
-    fetchCategories();
-  }, []);
+    setDraft(filters);
+  }, [filters]);
 
-  useEffect(() => {
-    const fetchCategoryAttributes = async () => {
-      if (!selectedCategory) {
-        setCategoryAttributes([]);
-        setAttributeFilters({});
-        setNumberRangeFilters({});
-        return;
-      }
-
-      try {
-        const response = await getPublicCategoryAttributes(selectedCategory);
-        setCategoryAttributes(response.data.attributes || []);
-        setAttributeFilters({});
-        setNumberRangeFilters({});
-        setPriceRange({ min: '', max: '' });
-      } catch (error) {
-        console.error("Failed to fetch category attributes:", error);
-        setCategoryAttributes([]);
-      }
-    };
-    fetchCategoryAttributes();
-  }, [selectedCategory]);
+  useEffect(() => () => window.clearTimeout(commitTimerRef.current), []);
 
-  useEffect(() => {
-    const fetchProducts = async () => {
-      setLoading(true);
-      try {
-        const allFilters = { ...attributeFilters };
-        
-        Object.keys(allFilters).forEach(attrId => {
-          if (!allFilters[parseInt(attrId)]?.trim()) {
-            delete allFilters[parseInt(attrId)];
-          }
-        });
-        
-        Object.entries(numberRangeFilters).forEach(([attrId, range]) => {
-          if (range.min || range.max) {
-            const rangeValue = `${range.min || '0'}-${range.max || '999999'}`;
-            allFilters[parseInt(attrId)] = rangeValue;
-          }
-        });
-        
-        const response = await getPublicProducts(
-          page,
-          12,
-          selectedCategory,
-          searchQuery,
-          allFilters,
-          priceRange.min,
-          priceRange.max
-        );
-        setProducts(response.data.products || []);
-        setTotalPages(response.data.pagination.total_pages);
-      } catch (error) {
-        console.error("Failed to fetch products:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchProducts();
-  }, [page, selectedCategory, searchQuery, attributeFilters, numberRangeFilters, priceRange]);
+  const categories: Category[] = useCategories().data ?? [];
+  const categoryAttributes: CategoryAttribute[] = useCategoryAttributes(filters.categoryId).data ?? [];
 
-  const handleCategoryChange = (categoryId: number | undefined) => {
-    setSelectedCategory(categoryId);
-    setPage(1);
+  const {
+    data: productData,
+    isPending: loading,
+    isPlaceholderData,
+  } = useProducts(toProductListFilters(filters, PAGE_SIZE));
+  const products: ProductSummary[] = productData?.products || [];
+  const totalPages: number = productData?.pagination.total_pages ?? 1;
+  const facets = productData?.facets;
+  const attributeFacets = useMemo(
+    () => new Map((facets?.attributes ?? []).map((facet) => [facet.id, facet])),
+    [facets]
+  );
+
+  useScrollRestoration(!loading && !isPlaceholderData);
+
+  const applyFilters = useCallback((next: CatalogFilters) => {
+    window.clearTimeout(commitTimerRef.current);
+    setDraft(next);
+    setSearchParams(catalogFiltersToParams(next));
+  }, [setSearchParams]);
+
+  const applyFiltersLater = useCallback((next: CatalogFilters) => {
+    window.clearTimeout(commitTimerRef.current);
+    setDraft(next);
+    commitTimerRef.current = window.setTimeout(
+      () => setSearchParams(catalogFiltersToParams(next)),
+      FILTER_INPUT_DELAY_MS
+    );
+  }, [setSearchParams]);
+
+  const markRangeEdited = (key: string) => {
+    setEditedRanges((current) => (current.has(key) ? current : new Set(current).add(key)));
   };
 
-  const handleAttributeFilterChange = useCallback((attributeId: number, value: string) => {
-    setAttributeFilters(prev => {
-      if (value.trim() === '') {
-        const newFilters = { ...prev };
-        delete newFilters[attributeId];
-        return newFilters;
-      } else {
-        return { ...prev, [attributeId]: value };
-      }
+  // Prefilled with the bound until edited; the bound itself never reaches the URL
+  const rangeInputValue = (key: string, value: string | undefined, bound: number | undefined) =>
+    value || editedRanges.has(key) || bound === undefined ? value ?? "" : String(bound);
+
+  const handleCategoryChange = (categoryId: number | undefined) => {
+    if (categoryId === filters.categoryId) return;
+    setEditedRanges(new Set());
+    applyFilters({
+      ...draft,
+      categoryId,
+      // Attribute filters belong to the previous category
+      attributes: {},
+      ranges: {},
+      price: categoryId ? EMPTY_RANGE : draft.price,
+      page: 1,
     });
-    setPage(1);
-  }, []);
+  };
+
+  const handleAttributeFilterChange = (attributeId: number, value: string, immediate = false) => {
+    const attributes = { ...draft.attributes };
+    if (value.trim() === '') {
+      delete attributes[attributeId];
+    } else {
+      attributes[attributeId] = value;
+    }
+    const next = { ...draft, attributes, page: 1 };
+    if (immediate) {
+      applyFilters(next);
+    } else {
+      applyFiltersLater(next);
+    }
+  };
 
   const handleNumberRangeChange = (attributeId: number, type: 'min' | 'max', value: string) => {
-    setNumberRangeFilters(prev => ({
-      ...prev,
-      [attributeId]: { ...prev[attributeId], [type]: value }
-    }));
-    setPage(1);
+    markRangeEdited(`${attributeId}.${type}`);
+    applyFiltersLater({
+      ...draft,
+      ranges: { ...draft.ranges, [attributeId]: { ...EMPTY_RANGE, ...draft.ranges[attributeId], [type]: value } },
+      page: 1,
+    });
   };
 
   const handlePriceRangeChange = (type: 'min' | 'max', value: string) => {
-    setPriceRange(prev => ({ ...prev, [type]: value }));
-    setPage(1);
+    markRangeEdited(`price.${type}`);
+    applyFiltersLater({ ...draft, price: { ...draft.price, [type]: value }, page: 1 });
+  };
+
+  const handleOnSaleChange = (onSale: boolean) => {
+    applyFilters({ ...draft, onSale, page: 1 });
+  };
+
+  const handlePageChange = (page: number) => {
+    applyFilters({ ...draft, page });
+  };
+
+  const handleSortChange = (value: string) => {
+    const sort = PRODUCT_SORT_OPTIONS.find((option) => option.value === value)?.value;
+    applyFilters({ ...draft, sort, page: 1 });
   };
 
   const clearAllFilters = () => {
-    setAttributeFilters({});
-    setNumberRangeFilters({});
-    setPriceRange({ min: '', max: '' });
-    setPage(1);
+    setEditedRanges(new Set());
+    applyFilters({ ...draft, attributes: {}, ranges: {}, price: EMPTY_RANGE, page: 1 });
   };
 
-  const FilterContent = () => (
+  // undefined when the backend sent no facet for this attribute
+  const optionCount = (attributeId: number, value: string) => {
+    const facet = attributeFacets.get(attributeId);
+    if (!facet) return undefined;
+    return facet.options.find((option) => option.value === value)?.count ?? 0;
+  };
+
+  const categoryName = filters.categoryId ? categories.find(c => c.id === filters.categoryId)?.name : undefined;
+  const collectionTitle = filters.onSale
+    ? [categoryName, "Sale"].filter(Boolean).join(" ")
+    : filters.categoryId ? categoryName : "All Products";
+
+  const sortControl = (
+    <Select value={filters.sort ?? DEFAULT_SORT} onValueChange={handleSortChange}>
+      <SelectTrigger className="w-full lg:w-[200px]" aria-label="Sort products">
+        <SelectValue placeholder="Sort by" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_SORT}>Featured</SelectItem>
+        {PRODUCT_SORT_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const filterContent = (
     <div className="space-y-8">
       {/* Categories */}
       <div>
         <h3 className="font-serif text-lg font-bold mb-4">Categories</h3>
         <div className="space-y-2">
           <Button
-            variant={selectedCategory === undefined ? "secondary" : "ghost"}
+            variant={filters.categoryId === undefined ? "secondary" : "ghost"}
             className="w-full justify-start font-normal"
             onClick={() => handleCategoryChange(undefined)}
           >
@@ -193,7 +214,7 @@ const Products = () => {
           {categories.map((category) => (
             <Button
               key={category.id}
-              variant={selectedCategory === category.id ? "secondary" : "ghost"}
+              variant={filters.categoryId === category.id ? "secondary" : "ghost"}
               className="w-full justify-start font-normal"
               onClick={() => handleCategoryChange(category.id)}
             >
@@ -205,6 +226,14 @@ const Products = () => {
 
       <Separator />
 
+      {/* Sale Collection */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="on-sale" className="font-serif text-lg font-bold">On Sale</Label>
+        <Switch id="on-sale" checked={filters.onSale} onCheckedChange={handleOnSaleChange} />
+      </div>
+
+      <Separator />
+
       {/* Price Filter */}
       <div>
         <h3 className="font-serif text-lg font-bold mb-4">Price Range</h3>
@@ -213,8 +242,10 @@ const Products = () => {
             <Label className="text-xs text-muted-foreground uppercase tracking-wider">Min</Label>
             <Input
               type="number"
-              placeholder="0"
-              value={priceRange.min}
+              placeholder={facets?.price ? String(facets.price.min) : "0"}
+              min={facets?.price?.min}
+              max={facets?.price?.max}
+              value={rangeInputValue("price.min", draft.price.min, facets?.price?.min)}
               onChange={(e) => handlePriceRangeChange('min', e.target.value)}
               className="h-9"
             />
@@ -223,8 +254,10 @@ const Products = () => {
             <Label className="text-xs text-muted-foreground uppercase tracking-wider">Max</Label>
             <Input
               type="number"
-              placeholder="Max"
-              value={priceRange.max}
+              placeholder={facets?.price ? String(facets.price.max) : "Max"}
+              min={facets?.price?.min}
+              max={facets?.price?.max}
+              value={rangeInputValue("price.max", draft.price.max, facets?.price?.max)}
               onChange={(e) => handlePriceRangeChange('max', e.target.value)}
               className="h-9"
             />
@@ -233,67 +266,92 @@ const Products = () => {
       </div>
 
       {/* Dynamic Attributes */}
-      {selectedCategory && categoryAttributes.length > 0 && (
+      {filters.categoryId && categoryAttributes.length > 0 && (
         <>
           <Separator />
-          <div className="space-y-6">
-            {categoryAttributes.map((attribute) => (
-              <div key={attribute.id}>
-                <h3 className="font-medium text-sm mb-3">{attribute.name}</h3>
-                {attribute.field_type === 'select' ? (
-                  <Select
-                    value={attributeFilters[attribute.id] || "ALL"}
-                    onValueChange={(value) => 
-                      value === "ALL" 
-                        ? handleAttributeFilterChange(attribute.id, "") 
-                        : handleAttributeFilterChange(attribute.id, value)
-                    }
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder={`Any ${attribute.name}`} />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="ALL">Any {attribute.name}</SelectItem>
-                      {attribute.options.map((option) => (
-                        <SelectItem key={option.id} value={option.value}>
-                          {option.value}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                ) : attribute.field_type === 'number' ? (
-                  <div className="grid grid-cols-2 gap-2">
-                    <Input
-                      type="number"
-                      placeholder="Min"
-                      value={numberRangeFilters[attribute.id]?.min || ""}
-                      onChange={(e) => handleNumberRangeChange(attribute.id, 'min', e.target.value)}
-                      className="h-9"
-                    />
-                    <Input
-                      type="number"
-                      placeholder="Max"
-                      value={numberRangeFilters[attribute.id]?.max || ""}
-                      onChange={(e) => handleNumberRangeChange(attribute.id, 'max', e.target.value)}
-                      className="h-9"
-                    />
-                  </div>
-                ) : (
-                  <Input
-                    type="text"
-                    value={attributeFilters[attribute.id] || ""}
-                    onChange={(e) => handleAttributeFilterChange(attribute.id, e.target.value)}
-                    placeholder={`Search ${attribute.name}...`}
-                    className="h-9"
-                  />
-                )}
-              </div>
-            ))}
-          </div>
+          {/* Keyed by category so a new category's attributes start expanded */}
+          <Accordion
+            key={filters.categoryId}
+            type="multiple"
+            defaultValue={categoryAttributes.map((attribute) => String(attribute.id))}
+          >
+            {categoryAttributes.map((attribute) => {
+              const bounds = attributeFacets.get(attribute.id)?.bounds;
+              return (
+                <AccordionItem key={attribute.id} value={String(attribute.id)}>
+                  <AccordionTrigger className="py-3 text-sm font-medium hover:no-underline">
+                    {attribute.name}
+                  </AccordionTrigger>
+                  <AccordionContent className="px-1 pt-1">
+                    {attribute.field_type === 'select' ? (
+                      <Select
+                        value={draft.attributes[attribute.id] || "ALL"}
+                        onValueChange={(value) =>
+                          handleAttributeFilterChange(attribute.id, value === "ALL" ? "" : value, true)
+                        }
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder={`Any ${attribute.name}`} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ALL">Any {attribute.name}</SelectItem>
+                          {attribute.options.map((option) => {
+                            const count = optionCount(attribute.id, option.value);
+                            return (
+                              <SelectItem
+                                key={option.id}
+                                value={option.value}
+                                // Keep the current choice selectable so it can still be shown
+                                disabled={count === 0 && draft.attributes[attribute.id] !== option.value}
+                              >
+                                {option.value}
+                                {count !== undefined && (
+                                  <span className="ml-1 text-muted-foreground tabular-nums">({count})</span>
+                                )}
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                    ) : attribute.field_type === 'number' ? (
+                      <div className="grid grid-cols-2 gap-2">
+                        <Input
+                          type="number"
+                          placeholder={bounds ? String(bounds.min) : "Min"}
+                          min={bounds?.min}
+                          max={bounds?.max}
+                          value={rangeInputValue(`${attribute.id}.min`, draft.ranges[attribute.id]?.min, bounds?.min)}
+                          onChange={(e) => handleNumberRangeChange(attribute.id, 'min', e.target.value)}
+                          className="h-9"
+                        />
+                        <Input
+                          type="number"
+                          placeholder={bounds ? String(bounds.max) : "Max"}
+                          min={bounds?.min}
+                          max={bounds?.max}
+                          value={rangeInputValue(`${attribute.id}.max`, draft.ranges[attribute.id]?.max, bounds?.max)}
+                          onChange={(e) => handleNumberRangeChange(attribute.id, 'max', e.target.value)}
+                          className="h-9"
+                        />
+                      </div>
+                    ) : (
+                      <Input
+                        type="text"
+                        value={draft.attributes[attribute.id] || ""}
+                        onChange={(e) => handleAttributeFilterChange(attribute.id, e.target.value)}
+                        placeholder={`Search ${attribute.name}...`}
+                        className="h-9"
+                      />
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              );
+            })}
+          </Accordion>
         </>
       )}
 
-      {(Object.keys(attributeFilters).length > 0 || Object.keys(numberRangeFilters).length > 0 || priceRange.min || priceRange.max) && (
+      {hasActiveFilters(draft) && (
         <Button 
           variant="outline" 
           className="w-full" 
@@ -313,7 +371,7 @@ const Products = () => {
           <div className="flex flex-col md:flex-row justify-between items-end mb-8 gap-4">
             <div>
               <h1 className="text-4xl font-serif font-bold mb-2">
-                {searchQuery ? `Search: ${searchQuery}` : selectedCategory ? categories.find(c => c.id === selectedCategory)?.name : "All Products"}
+                {filters.search ? `Search: ${filters.search}` : collectionTitle}
               </h1>
               <p className="text-muted-foreground">
                 Showing {products.length} results
@@ -321,6 +379,10 @@ const Products = () => {
             </div>
             
             <div className="flex items-center gap-2">
+              <div className="hidden lg:flex items-center gap-2">
+                <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                {sortControl}
+              </div>
                {/* Mobile Filter Sheet */}
               <Sheet>
                 <SheetTrigger asChild>
@@ -334,7 +396,11 @@ const Products = () => {
                     <SheetDescription>Refine your search</SheetDescription>
                   </SheetHeader>
                   <ScrollArea className="h-[calc(100vh-8rem)] mt-6 pr-4">
-                    <FilterContent />
+                    <div className="mb-8">
+                      <h3 className="font-serif text-lg font-bold mb-4">Sort By</h3>
+                      {sortControl}
+                    </div>
+                    {filterContent}
                   </ScrollArea>
                 </SheetContent>
               </Sheet>
@@ -345,7 +411,7 @@ const Products = () => {
             {/* Desktop Sidebar */}
             <aside className="hidden lg:block w-64 flex-shrink-0">
               <div className="sticky top-24">
-                <FilterContent />
+                {filterContent}
               </div>
             </aside>
 
@@ -366,8 +432,10 @@ const Products = () => {
                         id={product.id.toString()}
                         name={product.name}
                         price={product.price}
-                        category={product.category.name}
-                        image={getImageUrl(product.image)}
+                        discountedPrice={product.discounted_price}
+                        saleEndsAt={product.sale_ends_at}
+                        category={product.category?.name || "Uncategorized"}
+                        image={mediaUrl(product.image, PRODUCT_IMAGE_PLACEHOLDER)}
                         stock={product.stock}
                       />
                     ))}
@@ -378,18 +446,18 @@ const Products = () => {
                     <div className="flex justify-center gap-2">
                       <Button
                         variant="outline"
-                        onClick={() => setPage((p) => Math.max(1, p - 1))}
-                        disabled={page === 1}
+                        onClick={() => handlePageChange(Math.max(1, filters.page - 1))}
+                        disabled={filters.page === 1}
                       >
                         Previous
                       </Button>
                       <div className="flex items-center px-4 font-medium">
-                        Page {page} of {totalPages}
+                        Page {filters.page} of {totalPages}
                       </div>
                       <Button
                         variant="outline"
-                        onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-                        disabled={page === totalPages}
+                        onClick={() => handlePageChange(Math.min(totalPages, filters.page + 1))}
+                        disabled={filters.page >= totalPages}
                       >
                         Next
                       </Button>
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -29,12 +30,16 @@ import {
   MoreHorizontal,
   Camera,
   LogOut,
-  Loader2
+  Loader2,
+  Heart,
+  Bell
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth } from "@/hooks/use-auth";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import WishlistPanel from "@/components/WishlistPanel";
+import StockAlertsPanel from "@/components/StockAlertsPanel";
 import { 
   getUserProfile, 
   updateUserProfile, 
@@ -44,44 +49,8 @@ import {
   deleteUserAddress,
   setDefaultAddress 
 } from "@/lib/api";
-
-const getImageUrl = (imagePath: string | null | undefined): string => {
-  if (!imagePath) return "";
-  if (imagePath.startsWith("http")) return imagePath;
-  const baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-  return `${baseUrl.replace("/api", "")}${imagePath}`;
-};
-
-interface UserProfile {
-  id: number | null;
-  first_name: string;
-  last_name: string;
-  date_of_birth: string | null;
-  phone_number: string;
-  avatar: string | null;
-  bio: string;
-  created_at: string | null;
-  updated_at: string | null;
-}
-
-interface UserData {
-  id: number;
-  username: string;
-  email: string;
-}
-
-interface Address {
-  id: number;
-  address_type: 'home' | 'work' | 'billing' | 'shipping' | 'other';
-  street_address: string;
-  apartment_number: string;
-  city: string;
-  state: string;
-  zip_code: string;
-  country: string;
-  is_default: boolean;
-  created_at: string;
-}
+import { mediaUrl } from "@/lib/config";
+import type { ProfileResponse, UserAddress, UserProfile } from "@/lib/schemas";
 
 interface AddressFormData {
   address_type: 'home' | 'work' | 'billing' | 'shipping' | 'other';
@@ -110,14 +79,20 @@ const addressTypeLabels = {
   other: 'Other',
 };
 
+const PROFILE_TABS = ["profile", "addresses", "wishlist", "alerts"];
+
 export default function Profile() {
   const { isAuthenticated, tokens, user: authUser, updateUser, logout } = useAuth();
-  const [user, setUser] = useState<UserData | null>(null);
+  const [searchParams] = useSearchParams();
+  // Links such as /profile?tab=wishlist open a specific tab
+  const requestedTab = searchParams.get("tab");
+  const initialTab = requestedTab && PROFILE_TABS.includes(requestedTab) ? requestedTab : "profile";
+  const [user, setUser] = useState<ProfileResponse["user"] | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+  const [editingAddress, setEditingAddress] = useState<UserAddress | null>(null);
   const [showAddressDialog, setShowAddressDialog] = useState(false);
   const { toast } = useToast();
 
@@ -304,7 +279,7 @@ export default function Profile() {
     }
   };
 
-  const openEditAddress = (address: Address) => {
+  const openEditAddress = (address: UserAddress) => {
     setEditingAddress(address);
     setAddressForm({
       address_type: address.address_type,
@@ -338,22 +313,6 @@ export default function Profile() {
     setShowAddressDialog(true);
   };
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-background flex flex-col">
-        <Header />
-        <main className="flex-1 container mx-auto px-4 py-12 flex items-center justify-center">
-          <div className="text-center">
-            <h1 className="text-3xl font-serif font-bold mb-4">Please log in</h1>
-            <p className="text-muted-foreground mb-8 text-lg">You need to be logged in to view your profile.</p>
-            <Button size="lg" onClick={() => window.location.href = '/login'}>Log In</Button>
-          </div>
-        </main>
-        <Footer />
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
@@ -372,7 +331,8 @@ export default function Profile() {
       
       <main className="flex-1 container mx-auto px-4 pt-24 pb-12 lg:pt-32 lg:pb-16">
         <div className="max-w-6xl mx-auto">
-          <Tabs defaultValue="profile" className="grid md:grid-cols-[280px_1fr] gap-8 lg:gap-16">
+          {/* Keyed so following a ?tab= link while already here switches tabs */}
+          <Tabs key={initialTab} defaultValue={initialTab} className="grid md:grid-cols-[280px_1fr] gap-8 lg:gap-16">
             {/* Sidebar Navigation */}
             <div className="space-y-8">
               <div className="px-2">
@@ -397,6 +357,20 @@ export default function Profile() {
                     <MapPin className="h-4 w-4 mr-2" />
                     Addresses
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="wishlist" 
+                    className="px-4 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground rounded-full border border-border transition-all"
+                  >
+                    <Heart className="h-4 w-4 mr-2" />
+                    Wishlist
+                  </TabsTrigger>
+                  <TabsTrigger 
+                    value="alerts" 
+                    className="px-4 py-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground rounded-full border border-border transition-all"
+                  >
+                    <Bell className="h-4 w-4 mr-2" />
+                    Stock Alerts
+                  </TabsTrigger>
                 </TabsList>
               </div>
 
@@ -416,6 +390,20 @@ export default function Profile() {
                   <MapPin className="h-5 w-5 mr-3" />
                   Saved Addresses
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="wishlist" 
+                  className="w-full justify-start px-4 py-3 text-base data-[state=active]:bg-secondary/50 data-[state=active]:text-primary data-[state=active]:font-medium rounded-lg transition-all hover:bg-secondary/30"
+                >
+                  <Heart className="h-5 w-5 mr-3" />
+                  Wishlist
+                </TabsTrigger>
+                <TabsTrigger 
+                  value="alerts" 
+                  className="w-full justify-start px-4 py-3 text-base data-[state=active]:bg-secondary/50 data-[state=active]:text-primary data-[state=active]:font-medium rounded-lg transition-all hover:bg-secondary/30"
+                >
+                  <Bell className="h-5 w-5 mr-3" />
+                  Stock Alerts
+                </TabsTrigger>
               </TabsList>
 
               <div className="hidden md:block mt-8 pt-8 border-t px-2">
@@ -458,7 +446,7 @@ export default function Profile() {
                           <div className="w-28 h-28 rounded-full bg-background flex items-center justify-center overflow-hidden border-4 border-background shadow-sm">
                             {profile?.avatar ? (
                               <img 
-                                src={getImageUrl(profile.avatar)} 
+                                src={mediaUrl(profile.avatar)} 
                                 alt="Profile" 
                                 className="w-full h-full object-cover" 
                               />
@@ -655,6 +643,24 @@ export default function Profile() {
                   )}
                 </div>
               </TabsContent>
+
+              <TabsContent value="wishlist" className="mt-0 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <div>
+                  <h2 className="text-2xl font-serif font-bold">Your Wishlist</h2>
+                  <p className="text-muted-foreground mt-1">Products you saved for later</p>
+                </div>
+
+                <WishlistPanel />
+              </TabsContent>
+
+              <TabsContent value="alerts" className="mt-0 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                <div>
+                  <h2 className="text-2xl font-serif font-bold">Stock Alerts</h2>
+                  <p className="text-muted-foreground mt-1">We'll email you once when these are back in stock</p>
+                </div>
+
+                <StockAlertsPanel />
+              </TabsContent>
             </div>
           </Tabs>
         </div>
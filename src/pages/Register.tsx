@@ -4,9 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Eye, EyeOff, AlertCircle, Loader2, ArrowRight } from "lucide-react";
-import { useAuth } from "@/contexts/AuthContext";
+import { Eye, EyeOff, Loader2, ArrowRight } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import { registerUser, checkUsername } from "@/lib/api";
+import { ValidationError, type FieldErrors } from "@/lib/errors";
+import FieldError from "@/components/FieldError";
 import { useToast } from "@/hooks/use-toast";
 import registerImage from "@/assets/register-men.png";
 
@@ -21,6 +23,7 @@ const Register = () => {
   });
   const [termsAgreed, setTermsAgreed] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [usernameAvailable, setUsernameAvailable] = useState<boolean | null>(null);
   const [checkingUsername, setCheckingUsername] = useState(false);
   const usernameCheckTimer = useRef<number | null>(null);
@@ -45,6 +48,14 @@ const Register = () => {
       ...prev,
       [id]: value,
     }));
+    // The backend message no longer applies once the field is edited
+    if (fieldErrors[id]) {
+      setFieldErrors((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
   };
 
   // Debounced username availability check
@@ -108,6 +119,7 @@ const Register = () => {
     }
 
     setLoading(true);
+    setFieldErrors({});
 
     try {
       const response = await registerUser(
@@ -132,6 +144,16 @@ const Register = () => {
         setLoading(false);
       }
     } catch (err) {
+      if (err instanceof ValidationError && err.hasFieldErrors) {
+        setFieldErrors(err.fieldErrors);
+        toast({
+          variant: "destructive",
+          title: "Registration Failed",
+          description: "Please fix the highlighted fields.",
+        });
+        setLoading(false);
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : "Registration failed";
       toast({
         variant: "destructive",
@@ -193,7 +215,7 @@ const Register = () => {
                   onChange={handleInputChange}
                   disabled={loading}
                   required
-                  className={`h-11 ${usernameAvailable === false ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+                  className={`h-11 ${usernameAvailable === false || fieldErrors.username ? 'border-destructive focus-visible:ring-destructive' : ''}`}
                 />
                 {checkingUsername && (
                   <div className="absolute right-3 top-1/2 -translate-y-1/2">
@@ -201,11 +223,10 @@ const Register = () => {
                   </div>
                 )}
               </div>
-              {usernameAvailable === false && (
-                <div className="flex items-center gap-1 text-destructive text-xs mt-1">
-                  <AlertCircle className="h-3 w-3" />
-                  <span>Username already taken</span>
-                </div>
+              {usernameAvailable === false ? (
+                <FieldError message="Username already taken" />
+              ) : (
+                <FieldError message={fieldErrors.username?.[0]} />
               )}
             </div>
 
@@ -219,8 +240,9 @@ const Register = () => {
                 onChange={handleInputChange}
                 disabled={loading}
                 required
-                className="h-11"
+                className={`h-11 ${fieldErrors.email ? 'border-destructive focus-visible:ring-destructive' : ''}`}
               />
+              <FieldError message={fieldErrors.email?.[0]} />
             </div>
 
             <div className="space-y-2">
@@ -234,7 +256,7 @@ const Register = () => {
                   onChange={handleInputChange}
                   disabled={loading}
                   required
-                  className="h-11 pr-10"
+                  className={`h-11 pr-10 ${fieldErrors.password ? 'border-destructive focus-visible:ring-destructive' : ''}`}
                 />
                 <button
                   type="button"
@@ -249,7 +271,11 @@ const Register = () => {
                   )}
                 </button>
               </div>
-              <p className="text-xs text-muted-foreground">Must be at least 6 characters</p>
+              {fieldErrors.password ? (
+                <FieldError message={fieldErrors.password[0]} />
+              ) : (
+                <p className="text-xs text-muted-foreground">Must be at least 6 characters</p>
+              )}
             </div>
 
             <div className="space-y-2">
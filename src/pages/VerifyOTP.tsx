@@ -4,9 +4,17 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { useAuth } from '@/contexts/AuthContext'
-import { useCart } from '@/contexts/CartContext'
+import { useAuth } from '@/hooks/use-auth'
+import { useCart } from '@/hooks/use-cart'
+import { useCurrency } from '@/hooks/use-currency'
 import { toast } from '@/hooks/use-toast'
+import { useCouponQuote } from '@/hooks/use-coupons'
+import { orderTotals } from '@/lib/coupons'
+import { ValidationError } from '@/lib/errors'
+import { formatMoney, SETTLEMENT_CURRENCY } from '@/lib/money'
+import { getPricing } from '@/lib/pricing'
+import { selectShipping, type ShippingMethod } from '@/lib/shipping'
+import { apiFetch } from '@/lib/http'
 import Header from '@/components/Header'
 import Footer from '@/components/Footer'
 import { ShieldCheck, Loader2, Package } from 'lucide-react'
@@ -14,8 +22,9 @@ import { ShieldCheck, Loader2, Package } from 'lucide-react'
 const VerifyOTP: React.FC = () => {
   const navigate = useNavigate()
   const location = useLocation()
-  const { tokens, isAuthenticated } = useAuth()
+  const { tokens } = useAuth()
   const { getTotalPrice, items, fetchCart } = useCart()
+  const { formatPrice, isConverted } = useCurrency()
   const [otp, setOtp] = useState('')
   const [loading, setLoading] = useState(false)
   const [resending, setResending] = useState(false)
@@ -25,13 +34,18 @@ const VerifyOTP: React.FC = () => {
 
   const addressId = location.state?.addressId
   const contactPhone = location.state?.contactPhone
+  const couponCode: string | undefined = location.state?.couponCode
+  const couponQuote = useCouponQuote(couponCode ?? null)
+  const coupon = couponQuote.isError ? undefined : couponQuote.data
+  // Only the backend turning the code down drops it; a code that could not
+  // be checked (e.g. offline) is still sent and the backend decides
+  const couponRejected = couponQuote.error instanceof ValidationError
+  const couponSettled = !couponCode || ((couponQuote.isSuccess || couponQuote.isError) && !couponQuote.isFetching)
+  const shippingMethod: ShippingMethod = location.state?.shippingMethod ?? 'standard'
+  const shipping = selectShipping({ subtotal: getTotalPrice(), items }, location.state?.pincode, shippingMethod)
+  const totals = orderTotals(getTotalPrice(), coupon, shipping.cost)
 
   useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/login')
-      return
-    }
-
     if (!addressId || !contactPhone) {
       toast({
         title: "Error",
@@ -54,7 +68,7 @@ const VerifyOTP: React.FC = () => {
     }, 1000)
 
     return () => clearInterval(timer)
-  }, [isAuthenticated, addressId, navigate])
+  }, [addressId, navigate])
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
@@ -78,13 +92,10 @@ const VerifyOTP: React.FC = () => {
 
     try {
       // Step 1: Verify OTP
-      const verifyResponse = await fetch('http://localhost:8000/api/orders/verify-otp/', {
+      const verifyResponse = await apiFetch('/orders/verify-otp/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({ otp })
+        token: tokens?.access,
+        body: { otp }
       })
 
       const verifyData = await verifyResponse.json()
@@ -101,16 +112,16 @@ const VerifyOTP: React.FC = () => {
 
       // Step 2: Place Order
       setPlacingOrder(true)
-      const orderResponse = await fetch('http://localhost:8000/api/orders/place/', {
+      const orderResponse = await apiFetch('/orders/place/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({ 
+        token: tokens?.access,
+        body: {
           address_id: addressId,
-          contact_phone: contactPhone
-        })
+          contact_phone: contactPhone,
+          shipping_method: shipping.method,
+          // A code that stopped applying is dropped; the summary says so
+          ...(couponCode && !couponRejected && { coupon_code: coupon?.code ?? couponCode })
+        }
       })
 
       const orderData = await orderResponse.json()
@@ -147,13 +158,10 @@ const VerifyOTP: React.FC = () => {
     setResending(true)
 
     try {
-      const response = await fetch('http://localhost:8000/api/orders/generate-otp/', {
+      const response = await apiFetch('/orders/generate-otp/', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${tokens?.access}`
-        },
-        body: JSON.stringify({ address_id: addressId })
+        token: tokens?.access,
+        body: { address_id: addressId }
       })
 
       const data = await response.json()
@@ -213,18 +221,49 @@ const VerifyOTP: React.FC = () => {
                           {item.size && <span className="font-medium"> ({item.size})</span>}
                           {' '}x {item.quantity}
                         </span>
-                        <span>₹{(parseFloat(item.product.discounted_price || item.product.price) * item.quantity).toFixed(2)}</span>
+                        <span>{formatPrice(getPricing(item.product).price * item.quantity)}</span>
                       </div>
                     ))}
                     {items.length > 3 && (
                       <p className="text-xs text-muted-foreground">...and {items.length - 3} more items</p>
                     )}
                   </div>
-                  <div className="border-t pt-2 mt-2">
+                  <div className="border-t pt-2 mt-2 space-y-1">
+                    {!totals.freeShipping && (
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Shipping ({shipping.label})</span>
+                        <span>{totals.shipping === 0 ? 'Free' : formatPrice(totals.shipping)}</span>
+                      </div>
+                    )}
+                    {coupon && totals.discount > 0 && (
+                      <div className="flex justify-between text-xs text-green-700">
+                        <span>Discount ({coupon.code})</span>
+                        <span>−{formatPrice(totals.discount)}</span>
+                      </div>
+                    )}
+                    {coupon && totals.freeShipping && (
+                      <div className="flex justify-between text-xs text-green-700">
+                        <span>Free shipping ({coupon.code})</span>
+                        <span>{formatPrice(0)}</span>
+                      </div>
+                    )}
+                    {couponCode && couponRejected && (
+                      <p className="text-xs text-red-600">Code {couponCode} no longer applies and will not be used</p>
+                    )}
+                    {couponCode && couponQuote.isError && !couponRejected && (
+                      <p className="text-xs text-muted-foreground">
+                        Code {couponCode} could not be checked; it will be applied when the order is placed if still valid
+                      </p>
+                    )}
                     <div className="flex justify-between font-semibold">
                       <span>Total:</span>
-                      <span>₹{getTotalPrice().toFixed(2)}</span>
+                      <span>{formatPrice(totals.total)}</span>
                     </div>
+                    {isConverted && (
+                      <p className="text-xs text-muted-foreground text-right">
+                        Charged as {formatMoney(totals.total)} ({SETTLEMENT_CURRENCY})
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="space-y-2">
@@ -254,7 +293,7 @@ const VerifyOTP: React.FC = () => {
                   type="submit" 
                   className="w-full" 
                   size="lg"
-                  disabled={loading || otp.length !== 6 || timeLeft === 0}
+                  disabled={loading || !couponSettled || otp.length !== 6 || timeLeft === 0}
                 >
                   {loading ? (
                     <>
@@ -285,7 +324,7 @@ const VerifyOTP: React.FC = () => {
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => navigate('/checkout')}
+                    onClick={() => navigate('/checkout', { state: { couponCode, shippingMethod } })}
                     className="text-sm"
                   >
                     Back to Checkout
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_APP_ENV?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_MEDIA_BASE_URL?: string;
+}